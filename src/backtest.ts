@@ -0,0 +1,405 @@
+/**
+ * RebalanceX Backtesting Simulator
+ * Replays a series of balances through the allocation, strategy and cost
+ * logic offline, simulating transfer latency and per-route costs, and reports
+ * how the strategy would have done
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { ethers } from 'ethers';
+import { getChain } from './config.js';
+import { applyCostLimits, calculateDeviations, needsRebalancing, parseTargetAllocation } from './engine.js';
+import { fromStoredSnapshot } from './history.js';
+import type { StoredSnapshot } from './history.js';
+import { limitFor, routeKey } from './limits.js';
+import { logger } from './logger.js';
+import { calculateAllocations } from './monitor.js';
+import type { RouteWeights } from './optimizer.js';
+import type { RebalanceStrategy } from './strategies.js';
+import { formatValue, VALUE_DECIMALS } from './tokens.js';
+import type { ChainBalance, ChainName, LimitTable, PlannerName, RebalanceAction, TransferAction } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// Balances of every chain at one point in time
+export interface BalancePoint {
+    at: number;                               // epoch ms
+    balances: Record<ChainName, bigint>;      // value units
+}
+
+export interface SyntheticOptions {
+    chains: ChainName[];
+    steps: number;
+    stepMinutes: number;
+    initial: bigint;          // starting balance of each chain (value units)
+    volatility: number;       // typical net flow per step, % of the chain's balance
+    seed: number;
+    start?: number;           // epoch ms of the first point
+}
+
+export interface RouteModel {
+    gasCost: LimitTable;      // per transfer, default and/or from:to overrides (value units)
+    feeBps: number;
+    latencySeconds?: number;  // overrides each source chain's attestation time
+}
+
+export interface BacktestConfig {
+    strategy: RebalanceStrategy;
+    target: (at: number) => string;           // allocation in force at a point in time
+    threshold: number;
+    band: number;
+    planner: PlannerName;
+    minTransfer: bigint;
+    maxCostPct: number;
+    routes: RouteWeights;
+}
+
+export interface BacktestReport {
+    points: number;
+    duration: number;         // ms from the first to the last point
+    cycles: number;           // points at which the strategy acted
+    transfers: number;
+    skipped: number;          // transfers dropped as uneconomic
+    turnover: bigint;         // total amount sent
+    feesPaid: bigint;         // gas and protocol fees
+    averageTreasury: bigint;
+    timeOutOfBand: number;    // ms spent outside threshold after the cycle's actions
+    worstDeviation?: { chain: ChainName; deviation: number; at: number };   // as observed, before acting
+}
+
+// Transfer burned on its source chain, minting on its destination at `arrivesAt`
+interface InFlight {
+    to: ChainName;
+    amount: bigint;
+    arrivesAt: number;
+}
+
+// =============================================================================
+// Series
+// =============================================================================
+
+// Split one CSV line, honouring quoted fields
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i]!;
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields;
+}
+
+function parseTime(value: string, where: string): number {
+    const at = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(at)) throw new Error(`Invalid time at ${where}: ${value}`);
+    return at;
+}
+
+function parseBalance(value: string, where: string): bigint {
+    try {
+        return ethers.parseUnits(value.trim() || '0', VALUE_DECIMALS);
+    } catch {
+        throw new Error(`Invalid balance at ${where}: ${value}`);
+    }
+}
+
+// Group per-chain rows by time; chains missing from a point keep their last balance
+function toSeries(rows: { at: number; chain: ChainName; value: bigint }[]): BalancePoint[] {
+    const byTime = new Map<number, Record<ChainName, bigint>>();
+    for (const row of rows) {
+        const balances = byTime.get(row.at) ?? {};
+        balances[row.chain] = row.value;
+        byTime.set(row.at, balances);
+    }
+
+    const chains = [...new Set(rows.map((r) => r.chain))];
+    const last: Record<ChainName, bigint> = {};
+    return [...byTime.keys()].sort((a, b) => a - b).map((at) => {
+        Object.assign(last, byTime.get(at));
+        return { at, balances: Object.fromEntries(chains.map((c) => [c, last[c] ?? 0n])) };
+    });
+}
+
+/**
+ * Parse a CSV series with one row per chain per point: a `taken_at` (or `time`)
+ * column, a `chain` column and a `balance_usdc` (or `balance`) column, plus an
+ * optional `in_transit_usdc` column. `history --csv` exports this layout;
+ * rows whose `status` is failed are ignored.
+ */
+export function parseSeriesCsv(text: string, source = '<inline>'): BalancePoint[] {
+    const [headerLine, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (headerLine === undefined) return [];
+
+    const header = splitCsvLine(headerLine).map((h) => h.trim());
+    const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    const time = column('taken_at', 'time');
+    const chain = column('chain');
+    const balance = column('balance_usdc', 'balance');
+    const inTransit = column('in_transit_usdc', 'in_transit');
+    const status = column('status');
+    if (time === -1 || chain === -1 || balance === -1) {
+        throw new Error(`Invalid series ${source}: expected taken_at, chain and balance_usdc columns`);
+    }
+
+    return toSeries(lines.map(splitCsvLine).flatMap((fields, i) => {
+        // Failed reads carry no balance; the chain keeps its last one
+        if (status !== -1 && fields[status] === 'failed') return [];
+        const where = `${source} line ${i + 2}`;
+        const value = parseBalance(fields[balance] ?? '', where) +
+            (inTransit === -1 ? 0n : parseBalance(fields[inTransit] ?? '', where));
+        return [{ at: parseTime(fields[time] ?? '', where), chain: (fields[chain] ?? '').trim(), value }];
+    }));
+}
+
+/**
+ * Parse a JSONL series in the layout of the recorded snapshot history
+ */
+export function parseSeriesJsonl(text: string): BalancePoint[] {
+    const snapshots = text
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => fromStoredSnapshot(JSON.parse(line) as StoredSnapshot));
+    return toSeries(snapshots.flatMap((s) => s.chains
+        .filter((c) => c.status !== 'failed')
+        .map((c) => ({ at: s.takenAt, chain: c.chain, value: c.balance + c.inTransit }))));
+}
+
+/**
+ * Load a series from a .csv or .jsonl file
+ */
+export function loadSeries(path: string): BalancePoint[] {
+    let text: string;
+    try {
+        text = readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new Error(`Failed to read series ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return extname(path).toLowerCase() === '.csv' ? parseSeriesCsv(text, path) : parseSeriesJsonl(text);
+}
+
+// Small seeded PRNG (mulberry32) so synthetic runs are reproducible
+function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generate a series of random inflows and outflows. Each chain gets a steady
+ * drift (so allocations wander off target) plus noise, both scaled by
+ * `volatility`; balances never go below zero.
+ */
+export function syntheticSeries(options: SyntheticOptions): BalancePoint[] {
+    const next = random(options.seed);
+    const drift = new Map(options.chains.map((c) => [c, (next() - 0.5) * options.volatility]));
+    const start = options.start ?? Date.UTC(2025, 0, 1);
+    const balances: Record<ChainName, bigint> = Object.fromEntries(options.chains.map((c) => [c, options.initial]));
+
+    const series: BalancePoint[] = [];
+    for (let step = 0; step < options.steps; step++) {
+        if (step > 0) {
+            for (const chain of options.chains) {
+                const pct = drift.get(chain)! + (next() * 2 - 1) * options.volatility;
+                const flow = BigInt(Math.round((Number(balances[chain]) * pct) / 100));
+                balances[chain] = balances[chain]! + flow > 0n ? balances[chain]! + flow : 0n;
+            }
+        }
+        series.push({ at: start + step * options.stepMinutes * 60 * 1000, balances: { ...balances } });
+    }
+    return series;
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+/**
+ * Fixed route weights for the simulation: gas per transfer from the model,
+ * latency from each source chain's attestation time unless overridden
+ */
+export function backtestRoutes(model: RouteModel, defaultLatencySeconds: number): RouteWeights {
+    return (from, to) => ({
+        gasCost: limitFor(model.gasCost, routeKey(from, to)) ?? 0n,
+        feeBps: model.feeBps,
+        latencySeconds: model.latencySeconds ?? getChain(from).attestationSeconds ?? defaultLatencySeconds,
+    });
+}
+
+function priceTransfer(transfer: TransferAction, routes: RouteWeights): TransferAction {
+    const weight = routes(transfer.from.name, transfer.to.name);
+    const protocolFee = (transfer.amount * BigInt(Math.round(weight.feeBps * 100))) / 1_000_000n;
+    return {
+        ...transfer,
+        cost: { sourceGas: weight.gasCost, destinationGas: 0n, protocolFee, total: weight.gasCost + protocolFee },
+    };
+}
+
+// =============================================================================
+// Simulation
+// =============================================================================
+
+function stateOf(chains: ChainName[], settled: Map<ChainName, bigint>, inFlight: InFlight[]): ChainBalance[] {
+    return calculateAllocations(chains.map((chain) => ({
+        chain,
+        balance: settled.get(chain)!,
+        inTransit: inFlight.filter((f) => f.to === chain).reduce((sum, f) => sum + f.amount, 0n),
+        percentage: 0,
+    })));
+}
+
+/**
+ * Replay a series through the strategy. The series drives external flows:
+ * each chain's change between consecutive points is applied to the simulated
+ * balances, which the strategy's own transfers then move around. Transfers
+ * leave their source at once and mint on their destination after the route's
+ * latency, less any protocol fee; gas is counted in fees paid.
+ */
+export async function runBacktest(series: BalancePoint[], config: BacktestConfig): Promise<BacktestReport> {
+    const first = series[0];
+    if (!first) throw new Error('Backtest series is empty');
+
+    const chains = Object.keys(first.balances);
+    const settled = new Map(chains.map((c) => [c, first.balances[c]!]));
+    let inFlight: InFlight[] = [];
+    let lastRebalanceAt: number | undefined;
+    let lastPeriodicAt: number | undefined;
+
+    const report: BacktestReport = {
+        points: series.length,
+        duration: series[series.length - 1]!.at - first.at,
+        cycles: 0,
+        transfers: 0,
+        skipped: 0,
+        turnover: 0n,
+        feesPaid: 0n,
+        averageTreasury: 0n,
+        timeOutOfBand: 0,
+    };
+    let treasurySum = 0n;
+
+    for (const [i, point] of series.entries()) {
+        // External flows since the previous point
+        const previous = series[i - 1];
+        if (previous) {
+            for (const chain of chains) {
+                const balance = settled.get(chain)! + (point.balances[chain] ?? 0n) - (previous.balances[chain] ?? 0n);
+                settled.set(chain, balance > 0n ? balance : 0n);
+            }
+        }
+
+        // Mint transfers whose latency has passed
+        for (const arrived of inFlight.filter((f) => f.arrivesAt <= point.at)) {
+            settled.set(arrived.to, settled.get(arrived.to)! + arrived.amount);
+        }
+        inFlight = inFlight.filter((f) => f.arrivesAt > point.at);
+
+        const state = stateOf(chains, settled, inFlight);
+        treasurySum += [...settled.values()].reduce((sum, b) => sum + b, 0n) +
+            inFlight.reduce((sum, f) => sum + f.amount, 0n);
+        const targets = parseTargetAllocation(config.target(point.at), chains);
+        for (const d of calculateDeviations(state, targets)) {
+            if (!report.worstDeviation || Math.abs(d.deviation) > Math.abs(report.worstDeviation.deviation)) {
+                report.worstDeviation = { chain: d.chain, deviation: d.deviation, at: point.at };
+            }
+        }
+
+        const decision = await config.strategy.evaluate(state, targets, {
+            threshold: config.threshold,
+            band: config.band,
+            planner: config.planner,
+            now: point.at,
+            ...(lastRebalanceAt !== undefined && { lastRebalanceAt }),
+            ...(lastPeriodicAt !== undefined && { lastPeriodicAt }),
+            routeWeights: async () => config.routes,
+        });
+        if (decision.periodic) lastPeriodicAt = point.at;
+        const priced = decision.actions.map((a): RebalanceAction =>
+            a.type === 'transfer' ? priceTransfer(a, config.routes) : a);
+        const { actions, dropped } = applyCostLimits(priced, {
+            minTransfer: config.minTransfer,
+            maxCostPct: config.maxCostPct,
+        });
+        report.skipped += dropped.filter((a) => a.type === 'transfer').length;
+
+        const transfers = actions.filter((a): a is TransferAction => a.type === 'transfer');
+        for (const transfer of transfers) {
+            const cost = transfer.cost!;
+            settled.set(transfer.from.name, settled.get(transfer.from.name)! - transfer.amount);
+            inFlight.push({
+                to: transfer.to.name,
+                amount: transfer.amount - cost.protocolFee,
+                arrivesAt: point.at + config.routes(transfer.from.name, transfer.to.name).latencySeconds * 1000,
+            });
+            report.turnover += transfer.amount;
+            report.feesPaid += cost.total;
+        }
+        if (transfers.length > 0) {
+            report.cycles++;
+            report.transfers += transfers.length;
+            lastRebalanceAt = point.at;
+        }
+
+        // The allocation left by this cycle holds until the next point
+        const next = series[i + 1];
+        const after = calculateDeviations(stateOf(chains, settled, inFlight), targets);
+        if (next && needsRebalancing(after, config.threshold)) {
+            report.timeOutOfBand += next.at - point.at;
+        }
+    }
+
+    report.averageTreasury = treasurySum / BigInt(series.length);
+    return report;
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+function formatHours(ms: number): string {
+    return `${(ms / HOUR_MS).toFixed(1)}h`;
+}
+
+function percentOf(part: number, whole: number, digits = 2): string {
+    return `${(whole > 0 ? (part / whole) * 100 : 0).toFixed(digits)}%`;
+}
+
+export function printBacktestReport(report: BacktestReport): void {
+    const treasury = Number(report.averageTreasury);
+    logger.info(`\n📈 Backtest: ${report.points} point(s) over ${formatHours(report.duration)}`);
+    logger.info(`  Rebalances:       ${report.cycles} (${report.transfers} transfer(s), ${report.skipped} skipped as uneconomic)`);
+    logger.info(`  Turnover:         ${formatValue(report.turnover)} USDC (${percentOf(Number(report.turnover), treasury)} of the average treasury)`);
+    logger.info(`  Fees paid:        ${formatValue(report.feesPaid)} USDC (${percentOf(Number(report.feesPaid), treasury, 4)} of the average treasury)`);
+    logger.info(`  Time out of band: ${formatHours(report.timeOutOfBand)} (${percentOf(report.timeOutOfBand, report.duration)})`);
+    if (report.worstDeviation) {
+        const { chain, deviation, at } = report.worstDeviation;
+        logger.info(`  Worst deviation:  ${chain} ${deviation > 0 ? '+' : ''}${deviation.toFixed(2)}% at ${new Date(at).toISOString()}`);
+    }
+}
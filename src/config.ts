@@ -4,7 +4,16 @@
  */
 
 import 'dotenv/config';
-import type { ChainConfig, ChainName } from './types.js';
+import { ethers } from 'ethers';
+import { setLogNetwork } from './logger.js';
+import {
+    NETWORKS,
+    findNetworkMismatches,
+    loadChainRegistry,
+    presetPath,
+    toEnvPrefix,
+} from './registry.js';
+import type { ChainConfig, ChainName, ChainRegistry, NetworkName } from './types.js';
 
 // ERC20 ABI for USDC balance and approve
 export const ERC20_ABI = [
@@ -23,9 +32,20 @@ export const TOKEN_MESSENGER_ABI = [
 // CCTP MessageTransmitter ABI
 export const MESSAGE_TRANSMITTER_ABI = [
     'function receiveMessage(bytes message, bytes attestation) returns (bool success)',
+    'function usedNonces(bytes32 nonce) view returns (uint256)',
     'event MessageReceived(address indexed caller, uint32 sourceDomain, uint64 indexed nonce, bytes32 sender, bytes messageBody)',
 ] as const;
 
+// Multicall3 ABI for batched reads (https://www.multicall3.com)
+export const MULTICALL3_ABI = [
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+    'function getCurrentBlockTimestamp() view returns (uint256 timestamp)',
+    'function getEthBalance(address addr) view returns (uint256 balance)',
+] as const;
+
+// Multicall3 is deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
 // Helper to get env var with fallback
 function getEnv(key: string, fallback?: string): string {
     const value = process.env[key];
@@ -36,71 +56,130 @@ function getEnv(key: string, fallback?: string): string {
 }
 
 // Chain configurations
+// Loaded from the active network profile: presets/<network>.json, or the CHAIN_REGISTRY file.
+// Per-chain values can still be overridden via env vars, e.g. SEPOLIA_RPC_URL or ARC_USDC.
 // CCTP V2 Contract Addresses from https://developers.circle.com/cctp/evm-smart-contracts
 // Domain IDs from https://developers.circle.com/cctp/concepts/supported-chains-and-domains
-export const CHAINS: Record<ChainName, ChainConfig> = {
-    sepolia: {
-        name: 'sepolia',
-        chainId: 11155111,
-        rpcUrl: getEnv('SEPOLIA_RPC_URL', 'https://ethereum-sepolia-rpc.publicnode.com'),
-        usdcAddress: getEnv('SEPOLIA_USDC', '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'),
-        // CCTP V2 addresses (same across all testnets)
-        tokenMessenger: getEnv('SEPOLIA_TOKEN_MESSENGER', '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
-        messageTransmitter: getEnv('SEPOLIA_MESSAGE_TRANSMITTER', '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275'),
-        cctpDomain: 0, // Ethereum domain
-    },
-    polygonAmoy: {
-        name: 'polygonAmoy',
-        chainId: 80002,
-        rpcUrl: getEnv('POLYGON_AMOY_RPC_URL', 'https://rpc-amoy.polygon.technology'),
-        usdcAddress: getEnv('POLYGON_AMOY_USDC', '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582'),
-        // CCTP V2 addresses (same across all testnets)
-        tokenMessenger: getEnv('POLYGON_AMOY_TOKEN_MESSENGER', '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
-        messageTransmitter: getEnv('POLYGON_AMOY_MESSAGE_TRANSMITTER', '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275'),
-        cctpDomain: 7, // Polygon domain
-    },
-    arbitrumSepolia: {
-        name: 'arbitrumSepolia',
-        chainId: 421614,
-        rpcUrl: getEnv('ARBITRUM_SEPOLIA_RPC_URL', 'https://sepolia-rollup.arbitrum.io/rpc'),
-        usdcAddress: getEnv('ARBITRUM_SEPOLIA_USDC', '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d'),
-        // CCTP V2 addresses (same across all testnets)
-        tokenMessenger: getEnv('ARBITRUM_SEPOLIA_TOKEN_MESSENGER', '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
-        messageTransmitter: getEnv('ARBITRUM_SEPOLIA_MESSAGE_TRANSMITTER', '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275'),
-        cctpDomain: 3, // Arbitrum domain
-    },
-    arc: {
-        name: 'arc',
-        chainId: 5042002,
-        rpcUrl: getEnv('ARC_RPC_URL', 'https://rpc.testnet.arc.network'),
-        // Arc native USDC (uses 18 decimals natively, 6 decimals via ERC-20 interface)
-        usdcAddress: getEnv('ARC_USDC', '0x3600000000000000000000000000000000000000'),
-        // CCTP V2 addresses for Arc
-        tokenMessenger: getEnv('ARC_TOKEN_MESSENGER', '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
-        messageTransmitter: getEnv('ARC_MESSAGE_TRANSMITTER', '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275'),
-        cctpDomain: 26, // Arc domain
-    },
-};
+export const CHAINS: Record<ChainName, ChainConfig> = {};
+
+let activeProfile: ChainRegistry | undefined;
+
+/**
+ * Apply env var overrides on top of a registry entry
+ */
+function applyEnvOverrides(chain: ChainConfig): ChainConfig {
+    const prefix = toEnvPrefix(chain.name);
+    const rpcOverride = process.env[`${prefix}_RPC_URL`];
+    const rpcUrls = rpcOverride
+        ? rpcOverride.split(',').map((url) => url.trim()).filter(Boolean)
+        : chain.rpcUrls;
+
+    const overridden: ChainConfig = {
+        ...chain,
+        rpcUrl: rpcUrls[0] ?? chain.rpcUrl,
+        rpcUrls,
+        usdcAddress: getEnv(`${prefix}_USDC`, chain.usdcAddress),
+        tokenMessenger: getEnv(`${prefix}_TOKEN_MESSENGER`, chain.tokenMessenger),
+        messageTransmitter: getEnv(`${prefix}_MESSAGE_TRANSMITTER`, chain.messageTransmitter),
+    };
+
+    // Extra watch-only addresses, e.g. BASE_SEPOLIA_WATCH_ADDRESSES=0xSafe1,0xSafe2
+    const watchOverride = process.env[`${prefix}_WATCH_ADDRESSES`];
+    if (watchOverride) {
+        overridden.watch = watchOverride.split(',').map((a) => a.trim()).filter(Boolean).map((address) => {
+            if (!ethers.isAddress(address)) {
+                throw new Error(`Invalid address in ${prefix}_WATCH_ADDRESSES: ${address}`);
+            }
+            return { address };
+        });
+    }
+
+    // Minimum native gas balance, e.g. ARC_GAS_FLOOR=0.5
+    const gasFloorOverride = process.env[`${prefix}_GAS_FLOOR`];
+    if (gasFloorOverride) {
+        overridden.gasFloor = ethers.parseEther(gasFloorOverride);
+    }
+    return overridden;
+}
+
+/**
+ * Switch the active network profile (chain set, contract addresses, Iris URL, Uniswap addresses)
+ * Refuses profiles that mix testnet and mainnet endpoints
+ */
+export function useNetwork(
+    network = (process.env['REBALANCEX_NETWORK'] ?? 'testnet') as NetworkName
+): ChainRegistry {
+    if (!NETWORKS.includes(network)) {
+        throw new Error(`Unknown network: ${network} (expected ${NETWORKS.join(' or ')})`);
+    }
+
+    const registryPath = process.env['CHAIN_REGISTRY'] ?? presetPath(network);
+    const registry = loadChainRegistry(registryPath);
+    if (registry.network !== network) {
+        throw new Error(
+            `Chain registry ${registryPath} is a ${registry.network} profile, but ${network} was requested`
+        );
+    }
+
+    const chains: Record<ChainName, ChainConfig> = {};
+    for (const chain of Object.values(registry.chains)) {
+        chains[chain.name] = applyEnvOverrides(chain);
+    }
+    const profile: ChainRegistry = {
+        network,
+        attestationApiUrl: getEnv('CIRCLE_ATTESTATION_URL', registry.attestationApiUrl),
+        chains,
+    };
+
+    const mismatches = findNetworkMismatches(profile);
+    if (mismatches.length > 0) {
+        throw new Error(`Refusing to mix testnet and mainnet endpoints: ${mismatches.join('; ')}`);
+    }
+
+    for (const name of Object.keys(CHAINS)) {
+        delete CHAINS[name];
+    }
+    Object.assign(CHAINS, chains);
+    activeProfile = profile;
+    setLogNetwork(network);
+
+    return profile;
+}
+
+/**
+ * Name of the active network profile
+ */
+export function getNetwork(): NetworkName {
+    return activeProfile!.network;
+}
+
+/**
+ * Circle attestation API URL (base URL for V2 API) of the active profile
+ */
+export function getAttestationApiUrl(): string {
+    return activeProfile!.attestationApiUrl;
+}
+
+/**
+ * Look up a chain config by name, failing on unknown chains
+ */
+export function getChain(name: ChainName): ChainConfig {
+    const chain = CHAINS[name];
+    if (!chain) {
+        throw new Error(
+            `Unknown chain: ${name} (${getNetwork()} profile has ${Object.keys(CHAINS).join(', ')})`
+        );
+    }
+    return chain;
+}
+
+useNetwork();
 
 // Get wallet private key
 export function getPrivateKey(): string {
     return getEnv('PRIVATE_KEY');
 }
 
-// Circle attestation API URL (base URL for V2 API)
-export const ATTESTATION_API_URL = getEnv(
-    'CIRCLE_ATTESTATION_URL',
-    'https://iris-api-sandbox.circle.com'
-);
-
-// Default target allocations (can be overridden via CLI)
-export const DEFAULT_TARGET_ALLOCATIONS = {
-    sepolia: 25,
-    polygonAmoy: 25,
-    arbitrumSepolia: 25,
-    arc: 25,
-};
-
 // Default threshold percentage
 export const DEFAULT_THRESHOLD = 5;
 
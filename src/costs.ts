@@ -0,0 +1,220 @@
+/**
+ * RebalanceX Transfer Costs
+ * Estimates what a CCTP transfer costs (gas on both chains plus protocol fees)
+ * in USDC, so the engine can skip transfers that cost more than they fix
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, TOKEN_MESSENGER_ABI } from './config.js';
+import { getWalletAddress } from './executors/arc.js';
+import { getQuote, getWrappedNative, isSwapSupported } from './executors/uniswap.js';
+import { FAST_ATTESTATION_SECONDS, feeFor, getFeeQuote } from './fees.js';
+import { APPROVE_GAS_UNITS, BURN_GAS_UNITS, MINT_GAS_UNITS } from './gas.js';
+import { logger } from './logger.js';
+import type { RouteWeights } from './optimizer.js';
+import { withProvider } from './providers.js';
+import { fromValueUnits, getTokenDecimals, toValueUnits } from './tokens.js';
+import type { ChainConfig, ChainName, RebalanceAction, TransferCost, TransferMode } from './types.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Native prices move slowly relative to a cycle; reuse a quote for this long
+const NATIVE_PRICE_TTL_MS = 5 * 60 * 1000;
+
+const ONE_NATIVE = 10n ** 18n;
+
+// Standard transfers wait for source-chain finality; ~15-20 minutes on Ethereum and its L2s
+export const DEFAULT_ATTESTATION_SECONDS = 1140;
+
+// USDC value (value units) of one native token per chain, with the time it was quoted
+const nativePrices = new Map<ChainName, { price: bigint; quotedAt: number }>();
+
+// =============================================================================
+// Pricing
+// =============================================================================
+
+/**
+ * USDC value of one native token, quoted WETH → USDC on Uniswap, or the
+ * registry's static `nativePrice` where the chain has no Uniswap or WETH.
+ * Undefined where neither is available.
+ */
+async function getNativePrice(chain: ChainConfig): Promise<bigint | undefined> {
+    const cached = nativePrices.get(chain.name);
+    if (cached && Date.now() - cached.quotedAt < NATIVE_PRICE_TTL_MS) return cached.price;
+
+    const weth = getWrappedNative(chain);
+    if (!isSwapSupported(chain.name) || !weth) return chain.nativePrice;
+
+    const quote = await getQuote(chain, weth, chain.usdcAddress, ONE_NATIVE);
+    const price = toValueUnits(quote.amountOut, await getTokenDecimals(chain, chain.usdcAddress));
+    nativePrices.set(chain.name, { price, quotedAt: Date.now() });
+    return price;
+}
+
+async function getGasPrice(chain: ChainConfig): Promise<bigint> {
+    const feeData = await withProvider(chain, (provider) => provider.getFeeData(), 'Fee data read');
+    return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+}
+
+/**
+ * Gas units of a call, falling back to the typical amount when the node
+ * cannot estimate it (depositForBurn reverts before the approval is mined)
+ */
+async function estimateGasUnits(
+    chain: ChainConfig,
+    tx: ethers.TransactionRequest,
+    fallback: bigint
+): Promise<bigint> {
+    try {
+        return await withProvider(chain, (provider) => provider.estimateGas(tx), 'Gas estimate');
+    } catch {
+        return fallback;
+    }
+}
+
+/**
+ * Source-chain gas units of a transfer: approve + depositForBurn
+ */
+async function estimateSourceGasUnits(from: ChainConfig, to: ChainConfig, amount: bigint): Promise<bigint> {
+    const owner = getWalletAddress(from);
+    const usdcAmount = fromValueUnits(amount, await getTokenDecimals(from, from.usdcAddress));
+    const erc20 = new ethers.Interface(ERC20_ABI);
+    const messenger = new ethers.Interface(TOKEN_MESSENGER_ABI);
+
+    const [approve, burn] = await Promise.all([
+        estimateGasUnits(from, {
+            from: owner,
+            to: from.usdcAddress,
+            data: erc20.encodeFunctionData('approve', [from.tokenMessenger, usdcAmount]),
+        }, APPROVE_GAS_UNITS),
+        estimateGasUnits(from, {
+            from: owner,
+            to: from.tokenMessenger,
+            data: messenger.encodeFunctionData('depositForBurn', [
+                usdcAmount,
+                to.cctpDomain,
+                ethers.zeroPadValue(owner, 32),
+                from.usdcAddress,
+                ethers.ZeroHash,
+                0n,
+                2000,
+            ]),
+        }, BURN_GAS_UNITS),
+    ]);
+    return approve + burn;
+}
+
+/**
+ * CCTP fee of a transfer: standard transfers carry none, fast ones the live Iris quote
+ */
+async function estimateProtocolFee(
+    from: ChainConfig,
+    to: ChainConfig,
+    amount: bigint,
+    mode: TransferMode
+): Promise<bigint> {
+    if (mode === 'standard') return 0n;
+    const quote = await getFeeQuote(from, to);
+    return feeFor(amount, quote.fastBps);
+}
+
+/**
+ * Estimate the cost of a transfer in USDC, or undefined if gas on either
+ * chain or a fast transfer's fee cannot be priced
+ */
+export async function estimateTransferCost(
+    from: ChainConfig,
+    to: ChainConfig,
+    amount: bigint,
+    mode: TransferMode = 'standard'
+): Promise<TransferCost | undefined> {
+    try {
+        const [sourceUnits, sourceGasPrice, destinationGasPrice, sourcePrice, destinationPrice, protocolFee] = await Promise.all([
+            estimateSourceGasUnits(from, to, amount),
+            getGasPrice(from),
+            getGasPrice(to),
+            getNativePrice(from),
+            getNativePrice(to),
+            estimateProtocolFee(from, to, amount, mode),
+        ]);
+        if (sourcePrice === undefined || destinationPrice === undefined) return undefined;
+
+        const sourceGas = (sourceUnits * sourceGasPrice * sourcePrice) / ONE_NATIVE;
+        // receiveMessage cannot be estimated without an attested message
+        const destinationGas = (MINT_GAS_UNITS * destinationGasPrice * destinationPrice) / ONE_NATIVE;
+        return { sourceGas, destinationGas, protocolFee, total: sourceGas + destinationGas + protocolFee };
+    } catch (error) {
+        logger.warn(`Could not estimate the cost of ${from.name} → ${to.name}`, {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+    }
+}
+
+/**
+ * Attach estimated costs to the transfers in a plan. A transfer that cannot be
+ * priced is only held to the minimum size, which is called out per route.
+ */
+export async function priceTransfers(actions: RebalanceAction[]): Promise<RebalanceAction[]> {
+    return Promise.all(actions.map(async (action) => {
+        if (action.type !== 'transfer') return action;
+        const cost = await estimateTransferCost(action.from, action.to, action.amount, action.mode);
+        if (!cost) {
+            logger.warn(`No cost estimate for ${action.from.name} → ${action.to.name}: --max-cost is not applied (set nativePrice in the registry)`);
+            return action;
+        }
+        return { ...action, cost };
+    }));
+}
+
+/**
+ * Route weights for the optimizer: typical gas of a transfer on each route at
+ * current prices, the CCTP fee and the expected attestation time. Chains whose
+ * gas cannot be priced contribute no gas cost. Fast routes carry their live fee
+ * and seconds of latency; a route without a quote is weighted as the standard
+ * transfer it would fall back to.
+ */
+export async function estimateRouteWeights(
+    chains: ChainConfig[],
+    mode: TransferMode = 'standard'
+): Promise<RouteWeights> {
+    // Cost of a unit of gas in value units, scaled by ONE_NATIVE
+    const gasValue = new Map<ChainName, bigint>();
+    await Promise.all(chains.map(async (chain) => {
+        try {
+            const [gasPrice, nativePrice] = await Promise.all([getGasPrice(chain), getNativePrice(chain)]);
+            gasValue.set(chain.name, nativePrice === undefined ? 0n : gasPrice * nativePrice);
+        } catch (error) {
+            logger.warn(`Could not price gas on ${chain.name}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }));
+
+    // Fast fee per route (keyed from:to)
+    const fastBps = new Map<string, number>();
+    if (mode === 'fast') {
+        await Promise.all(chains.flatMap((from) => chains.filter((to) => to !== from).map(async (to) => {
+            try {
+                fastBps.set(`${from.name}:${to.name}`, (await getFeeQuote(from, to)).fastBps);
+            } catch (error) {
+                logger.warn(`No fast fee quote for ${from.name} → ${to.name}; weighting it as standard`, {
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        })));
+    }
+
+    const latency = new Map(chains.map((c) => [c.name, c.attestationSeconds ?? DEFAULT_ATTESTATION_SECONDS]));
+    return (from, to) => {
+        const fee = fastBps.get(`${from}:${to}`);
+        return {
+            gasCost: ((APPROVE_GAS_UNITS + BURN_GAS_UNITS) * (gasValue.get(from) ?? 0n) +
+                MINT_GAS_UNITS * (gasValue.get(to) ?? 0n)) / ONE_NATIVE,
+            feeBps: fee ?? 0,
+            latencySeconds: fee !== undefined ? FAST_ATTESTATION_SECONDS : latency.get(from) ?? DEFAULT_ATTESTATION_SECONDS,
+        };
+    };
+}
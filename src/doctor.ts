@@ -0,0 +1,208 @@
+/**
+ * RebalanceX Doctor
+ * Preflight checks for environment and contract sanity across all configured chains
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, getAttestationApiUrl, getPrivateKey } from './config.js';
+import { logger } from './logger.js';
+import type { ChainConfig } from './types.js';
+
+// Per-check timeout so a dead RPC fails the check instead of hanging the command
+const CHECK_TIMEOUT_MS = 15000;
+
+export interface DoctorCheck {
+    chain: string;
+    check: string;
+    ok: boolean;
+    detail: string;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error: unknown) => {
+                clearTimeout(timer);
+                reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        );
+    });
+}
+
+/**
+ * Run a single check, turning thrown errors and timeouts into failures
+ */
+export async function runCheck(
+    chain: string,
+    check: string,
+    fn: () => Promise<{ ok: boolean; detail: string }>,
+    timeoutMs = CHECK_TIMEOUT_MS
+): Promise<DoctorCheck> {
+    try {
+        const { ok, detail } = await withTimeout(fn(), timeoutMs, check);
+        return { chain, check, ok, detail };
+    } catch (error) {
+        return {
+            chain,
+            check,
+            ok: false,
+            detail: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+/**
+ * Resolve the signer address, if a private key is configured
+ */
+function getSignerAddress(): string | undefined {
+    try {
+        return new ethers.Wallet(getPrivateKey()).address;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks of one chain. Every RPC endpoint is asked for its chainId, since any
+ * of them may be failed over to; the contract checks use the first good one.
+ */
+export async function checkChain(chain: ChainConfig, walletAddress: string | undefined): Promise<DoctorCheck[]> {
+    const endpoints = chain.rpcUrls.map((url) => ({
+        url,
+        provider: new ethers.JsonRpcProvider(url, chain.chainId, { staticNetwork: true }),
+    }));
+    const checks: DoctorCheck[] = [];
+
+    for (const { url, provider } of endpoints) {
+        checks.push(await runCheck(chain.name, `rpc chainId ${url}`, async () => {
+            // Ask the endpoint directly; the provider uses a static network
+            const actual = Number(await provider.send('eth_chainId', []) as string);
+            return {
+                ok: actual === chain.chainId,
+                detail: actual === chain.chainId
+                    ? `${actual}`
+                    : `expected ${chain.chainId}, RPC reports ${actual}`,
+            };
+        }));
+    }
+
+    // Without a reachable RPC on the right chain, the remaining checks are meaningless
+    const good = endpoints.find((_, i) => checks[i]!.ok);
+    if (!good) {
+        return checks;
+    }
+    const provider = good.provider;
+
+    const contracts: Array<[string, string]> = [
+        ['usdc code', chain.usdcAddress],
+        ['tokenMessenger code', chain.tokenMessenger],
+        ['messageTransmitter code', chain.messageTransmitter],
+    ];
+    for (const [check, address] of contracts) {
+        checks.push(await runCheck(chain.name, check, async () => {
+            const code = await provider.getCode(address);
+            return {
+                ok: code !== '0x',
+                detail: code !== '0x' ? `${(code.length - 2) / 2} bytes at ${address}` : `no code at ${address}`,
+            };
+        }));
+    }
+
+    checks.push(await runCheck(chain.name, 'usdc decimals()', async () => {
+        const usdc = new ethers.Contract(chain.usdcAddress, ERC20_ABI, provider);
+        const decimals = Number(await usdc.getFunction('decimals')() as bigint);
+        return {
+            ok: decimals === chain.decimals,
+            detail: decimals === chain.decimals
+                ? `${decimals}`
+                : `registry says ${chain.decimals}, token reports ${decimals}`,
+        };
+    }));
+
+    checks.push(await runCheck(chain.name, 'native gas', async () => {
+        if (!walletAddress) {
+            return { ok: false, detail: 'PRIVATE_KEY not set or invalid' };
+        }
+        const balance = await provider.getBalance(walletAddress);
+        return {
+            ok: balance > 0n,
+            detail: `${ethers.formatEther(balance)} native`,
+        };
+    }));
+
+    return checks;
+}
+
+async function checkAttestationApi(): Promise<DoctorCheck> {
+    return runCheck('iris', 'attestation API', async () => {
+        const url = `${getAttestationApiUrl()}/v2/publicKeys`;
+        const response = await fetch(url, { signal: AbortSignal.timeout(CHECK_TIMEOUT_MS) });
+        return {
+            ok: response.ok,
+            detail: `${url} → HTTP ${response.status}`,
+        };
+    });
+}
+
+/**
+ * Run all preflight checks for the given chains
+ */
+export async function runDoctor(chains: ChainConfig[]): Promise<DoctorCheck[]> {
+    const walletAddress = getSignerAddress();
+    const checks: DoctorCheck[] = [
+        {
+            chain: 'wallet',
+            check: 'private key',
+            ok: walletAddress !== undefined,
+            detail: walletAddress ?? 'PRIVATE_KEY not set or invalid',
+        },
+    ];
+
+    const perChain = await Promise.all(chains.map((chain) => checkChain(chain, walletAddress)));
+    checks.push(...perChain.flat());
+    checks.push(await checkAttestationApi());
+
+    return checks;
+}
+
+/**
+ * Process exit code for a doctor run: non-zero if any check failed
+ */
+export function doctorExitCode(checks: DoctorCheck[]): number {
+    return checks.every((c) => c.ok) ? 0 : 1;
+}
+
+/**
+ * Lines of the pass/fail table
+ */
+export function formatDoctorReport(checks: DoctorCheck[]): string[] {
+    const chainWidth = Math.max(5, ...checks.map((c) => c.chain.length));
+    const checkWidth = Math.max(5, ...checks.map((c) => c.check.length));
+    const rule = '─'.repeat(chainWidth + checkWidth + 30);
+    const failed = checks.filter((c) => !c.ok).length;
+
+    return [
+        '',
+        `${'CHAIN'.padEnd(chainWidth)}  ${'CHECK'.padEnd(checkWidth)}  RESULT  DETAIL`,
+        rule,
+        ...checks.map((c) =>
+            `${c.chain.padEnd(chainWidth)}  ${c.check.padEnd(checkWidth)}  ${c.ok ? '✅ PASS' : '❌ FAIL'}  ${c.detail}`
+        ),
+        rule,
+        failed === 0
+            ? `✅ All ${checks.length} checks passed`
+            : `❌ ${failed} of ${checks.length} checks failed`,
+    ];
+}
+
+/**
+ * Print checks as a pass/fail table
+ */
+export function printDoctorReport(checks: DoctorCheck[]): void {
+    formatDoctorReport(checks).forEach((line) => logger.info(line));
+}
@@ -3,83 +3,345 @@
  * Calculates deviations and generates rebalancing actions
  */
 
-import { CHAINS } from './config.js';
-import { logger, logDecision } from './logger.js';
 import { ethers } from 'ethers';
+import { getChain } from './config.js';
+import { logger, logDecision } from './logger.js';
+import { effectiveBalance, spendableBalance, spendableTokenValue } from './monitor.js';
+import { minCostFlow, UNIFORM_ROUTES, unitCost } from './optimizer.js';
+import type { RouteWeights } from './optimizer.js';
+import { formatValue, VALUE_DECIMALS } from './tokens.js';
 import type {
+    ActionRationale,
     ChainBalance,
     ChainName,
     Deviation,
     RebalanceAction,
+    PlannerName,
+    RouteAlternative,
+    SizeConstraint,
+    SwapAction,
     TargetAllocation,
+    TransferAction,
+    TransferCost,
+    TransferModePolicy,
 } from './types.js';
 
+// Slippage allowed on swaps to USDC; transfers only count on the guaranteed minimum out
+export const SWAP_SLIPPAGE_BPS = 100;
+
+// =============================================================================
+// Targets & Hard Constraints
+// =============================================================================
+
+function hasConstraints(targets: TargetAllocation[]): boolean {
+    return targets.some((t) => t.min !== undefined || t.max !== undefined || t.reserve !== undefined);
+}
+
+/**
+ * The least a chain must hold: its minimum or its reserve, whichever is larger
+ */
+export function targetFloor(target: TargetAllocation): bigint {
+    const min = target.min ?? 0n;
+    const reserve = target.reserve ?? 0n;
+    return min > reserve ? min : reserve;
+}
+
+/**
+ * Amount each chain gets when `share` is split by percentage: its reserve plus
+ * its share, held between its floor and ceiling
+ */
+function allocate(targets: TargetAllocation[], share: bigint): bigint[] {
+    return targets.map((t) => {
+        const amount = (t.reserve ?? 0n) + (share * BigInt(Math.round(t.percentage * 100))) / 10000n;
+        const floor = targetFloor(t);
+        if (amount < floor) return floor;
+        if (t.max !== undefined && amount > t.max) return t.max;
+        return amount;
+    });
+}
+
+function sumAmounts(amounts: bigint[]): bigint {
+    return amounts.reduce((a, b) => a + b, 0n);
+}
+
+/**
+ * Reasons the targets cannot be met with `total` (value units) in the treasury;
+ * empty if they can
+ */
+export function checkTargetFeasibility(targets: TargetAllocation[], total: bigint): string[] {
+    const problems: string[] = [];
+    for (const t of targets) {
+        if (t.max !== undefined && targetFloor(t) > t.max) {
+            problems.push(`${t.chain}: floor ${formatValue(targetFloor(t))} USDC exceeds its max of ${formatValue(t.max)} USDC`);
+        }
+    }
+
+    const floors = sumAmounts(targets.map(targetFloor));
+    if (floors > total) {
+        problems.push(`floors and reserves need ${formatValue(floors)} USDC but the treasury holds ${formatValue(total)} USDC`);
+    }
+
+    // Allocation grows with the share; once every chain is at its ceiling it stops
+    const capacity = sumAmounts(allocate(targets, total * 10000n));
+    if (total - capacity > BigInt(targets.length)) {
+        problems.push(
+            `ceilings and 0% chains can hold only ${formatValue(capacity)} USDC but the treasury holds ${formatValue(total)} USDC`
+        );
+    }
+    return problems;
+}
+
+/**
+ * Target amount per chain (value units). Floors, ceilings and reserves are
+ * satisfied first; the remainder is split by percentage.
+ */
+export function resolveTargetAmounts(targets: TargetAllocation[], total: bigint): Map<ChainName, bigint> {
+    if (!hasConstraints(targets)) {
+        return new Map(targets.map((t) => [t.chain, (total * BigInt(Math.round(t.percentage * 100))) / 10000n]));
+    }
+
+    const problems = checkTargetFeasibility(targets, total);
+    if (problems.length > 0) {
+        throw new Error(`Infeasible targets: ${problems.join('; ')}`);
+    }
+
+    // Largest share whose allocation still fits in the treasury (allocation is monotone in the share)
+    let low = 0n;
+    let high = total * 10000n;
+    while (low < high) {
+        const mid = (low + high + 1n) / 2n;
+        if (sumAmounts(allocate(targets, mid)) <= total) {
+            low = mid;
+        } else {
+            high = mid - 1n;
+        }
+    }
+
+    const amounts = allocate(targets, low);
+    return new Map(targets.map((t, i) => [t.chain, amounts[i]!]));
+}
+
 /**
- * Calculate deviation from target for each chain
+ * Hard constraint a chain's current amount violates, if any
+ */
+function findBreach(amount: bigint, target: TargetAllocation | undefined): Deviation['breach'] {
+    if (!target) return undefined;
+    if (amount < targetFloor(target)) return 'floor';
+    if (target.max !== undefined && amount > target.max) return 'ceiling';
+    return undefined;
+}
+
+/**
+ * Total the planner distributes: settled + in-transit funds, so pending mints are not re-sent
+ */
+function plannedTotal(balances: ChainBalance[]): bigint {
+    return balances.reduce((total, b) => total + effectiveBalance(b), 0n);
+}
+
+// =============================================================================
+// Deviations
+// =============================================================================
+
+/**
+ * Calculate deviation from target for each chain. With floors, ceilings or
+ * reserves, the target percentage is that of the resolved target amount.
  */
 export function calculateDeviations(
     currentBalances: ChainBalance[],
     targets: TargetAllocation[]
 ): Deviation[] {
+    const total = plannedTotal(currentBalances);
+    const amounts = hasConstraints(targets) && total > 0n ? resolveTargetAmounts(targets, total) : undefined;
+
     return currentBalances.map((balance) => {
         const target = targets.find((t) => t.chain === balance.chain);
-        const targetPct = target?.percentage ?? 0;
+        const targetPct = amounts
+            ? Number(((amounts.get(balance.chain) ?? 0n) * 1000000n) / total) / 10000
+            : target?.percentage ?? 0;
         const deviation = balance.percentage - targetPct;
 
-        return {
+        const result: Deviation = {
             chain: balance.chain,
             current: balance.percentage,
             target: targetPct,
             deviation,
         };
+        const breach = findBreach(effectiveBalance(balance), target);
+        if (breach) result.breach = breach;
+        if (target?.threshold !== undefined) result.threshold = target.threshold;
+        if (target?.band !== undefined) result.band = target.band;
+        return result;
     });
 }
 
 /**
- * Check if rebalancing is needed based on threshold
+ * Check if rebalancing is needed based on threshold (per-chain where overridden)
+ * or a breached hard constraint
  */
 export function needsRebalancing(
     deviations: Deviation[],
     threshold: number
 ): boolean {
-    return deviations.some((d) => Math.abs(d.deviation) > threshold);
+    return deviations.some((d) => Math.abs(d.deviation) > (d.threshold ?? threshold) || d.breach !== undefined);
 }
 
 /**
- * Generate rebalancing actions to move funds from over-allocated to under-allocated chains
+ * Chains whose balance could not be read (stale balances are accepted)
  */
-export function generateActions(
-    currentBalances: ChainBalance[],
-    targets: TargetAllocation[],
-    threshold: number
-): RebalanceAction[] {
-    const deviations = calculateDeviations(currentBalances, targets);
+export function getUnknownBalances(balances: ChainBalance[]): ChainName[] {
+    return balances.filter((b) => b.status === 'failed').map((b) => b.chain);
+}
 
-    // Sort by deviation: positive (over-allocated) first, negative (under-allocated) last
-    const sorted = [...deviations].sort((a, b) => b.deviation - a.deviation);
+// =============================================================================
+// Planning
+// =============================================================================
 
-    const actions: RebalanceAction[] = [];
-    const adjustments = new Map<ChainName, number>();
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
 
-    // Initialize adjustments (how much each chain is over/under by in absolute terms)
-    const totalBalance = currentBalances.reduce((sum, b) => sum + b.balance, 0n);
+// What limited the size of each planned action
+type SizeLimits = Map<RebalanceAction, ActionRationale['limitedBy']>;
 
-    for (const dev of sorted) {
-        if (Math.abs(dev.deviation) > threshold) {
-            // Calculate the amount needed to reach target
-            const balance = currentBalances.find((b) => b.chain === dev.chain);
-            if (balance) {
-                const targetAmount = (totalBalance * BigInt(Math.round(dev.target * 100))) / 10000n;
-                const adjustment = balance.balance - targetAmount;
-                adjustments.set(dev.chain, Number(adjustment));
-            }
-        }
-    }
+/**
+ * Plan swaps of a chain's signer-held tokens to USDC until `needed` (value units)
+ * of extra USDC is guaranteed. Updates the chain's running balances.
+ */
+function planSwaps(balance: ChainBalance, needed: bigint, limits: SizeLimits): SwapAction[] {
+    const swaps: SwapAction[] = [];
+    if (balance.tokenValue === undefined || !balance.tokens) return swaps;
 
-    // Match over-allocated chains with under-allocated chains
-    const overAllocated = sorted.filter((d) => d.deviation > threshold);
-    const underAllocated = sorted.filter((d) => d.deviation < -threshold).reverse();
+    const chain = getChain(balance.chain);
+    let remaining = needed;
+    balance.tokens = balance.tokens.map((token) => {
+        const available = spendableTokenValue(token);
+        const availableOut = (available * BigInt(10000 - SWAP_SLIPPAGE_BPS)) / 10000n;
+        if (remaining <= 0n || availableOut <= 0n) return token;
+
+        // Swap everything if that is not enough, otherwise the matching share (rounded up)
+        const swapAll = availableOut <= remaining;
+        const amountIn = swapAll
+            ? token.spendableAmount
+            : ceilDiv(token.spendableAmount * remaining, availableOut);
+        const valueIn = swapAll ? available : ceilDiv(available * remaining, availableOut);
+        const minOut = swapAll ? availableOut : remaining;
+
+        const swap: SwapAction = {
+            from: chain,
+            token: token.symbol,
+            tokenAddress: token.address,
+            amountIn,
+            amount: minOut,
+            type: 'swap',
+        };
+        swaps.push(swap);
+        limits.set(swap, { chain: balance.chain, constraint: swapAll ? 'token-balance' : 'shortfall' });
+        logDecision('SWAP', `${balance.chain}:${token.symbol}`, `${balance.chain}:USDC`, formatValue(minOut));
+
+        remaining -= minOut;
+        balance.spendable = spendableBalance(balance) + minOut;
+        balance.balance += minOut;
+        balance.tokenValue = balance.tokenValue! - valueIn;
+        return {
+            ...token,
+            amount: token.amount - amountIn,
+            spendableAmount: token.spendableAmount - amountIn,
+            value: token.value! - valueIn,
+        };
+    });
+    return swaps;
+}
+
+export const PLANNERS: PlannerName[] = ['min-cost', 'greedy'];
+
+export interface PlanOptions {
+    planner?: PlannerName;
+    routeWeights?: RouteWeights;
+    band?: number;            // inner band (%) a triggered chain is brought back to; 0 = exact target
+    correction?: number;      // share (0-1] of its gap a triggered chain closes this cycle; 1 = all of it
+}
+
+// Over/under-allocated chain with its running balance and target amount
+interface PlanEntry {
+    balance: ChainBalance;
+    target: bigint;
+    constraint: SizeConstraint;               // what set `target`
+    trigger?: ActionRationale['trigger'];     // set for triggered and breached chains
+}
+
+/**
+ * Emit a transfer and update the running balances of both chains
+ */
+function addTransfer(actions: TransferAction[], from: ChainBalance, to: ChainBalance, amount: bigint): TransferAction {
+    const transfer: TransferAction = {
+        from: getChain(from.chain),
+        to: getChain(to.chain),
+        amount,
+        type: 'transfer',
+    };
+    actions.push(transfer);
+    logDecision('TRANSFER', from.chain, to.chain, formatValue(amount));
 
+    from.balance -= amount;
+    to.balance += amount;
+    if (from.spendable !== undefined) from.spendable -= amount;
+    if (to.spendable !== undefined) to.spendable += amount;
+    return transfer;
+}
+
+/**
+ * Attach a rationale to each planned action: the triggered chain it serves,
+ * what limited its size and the other routes between the same chains, with
+ * what the plan sends over them. A swap serves the first transfer from its chain.
+ */
+function explainActions(
+    plan: { swaps: SwapAction[]; transfers: TransferAction[] },
+    over: PlanEntry[],
+    under: PlanEntry[],
+    limits: SizeLimits,
+    costBps?: (source: number, sink: number) => number
+): void {
+    const sent = (from: ChainName, to: ChainName): bigint => plan.transfers
+        .filter((t) => t.from.name === from && t.to.name === to)
+        .reduce((sum, t) => sum + t.amount, 0n);
+    const route = (source: number, sink: number): RouteAlternative => {
+        const from = over[source]!.balance.chain;
+        const to = under[sink]!.balance.chain;
+        const alternative: RouteAlternative = { from, to, amount: sent(from, to) };
+        if (costBps) alternative.costBps = costBps(source, sink);
+        return alternative;
+    };
+
+    for (const transfer of plan.transfers) {
+        const source = over.findIndex((e) => e.balance.chain === transfer.from.name);
+        const sink = under.findIndex((e) => e.balance.chain === transfer.to.name);
+        transfer.rationale = {
+            trigger: over[source]!.trigger ?? under[sink]!.trigger ?? { chain: transfer.from.name, reason: 'threshold' },
+            limitedBy: limits.get(transfer)!,
+            alternatives: [
+                ...under.flatMap((_, j) => (j === sink ? [] : [route(source, j)])),
+                ...over.flatMap((_, i) => (i === source ? [] : [route(i, sink)])),
+            ],
+        };
+    }
+    for (const swap of plan.swaps) {
+        const fed = plan.transfers.find((t) => t.from.name === swap.from.name);
+        swap.rationale = {
+            trigger: fed?.rationale?.trigger ?? { chain: swap.from.name, reason: 'threshold' },
+            limitedBy: limits.get(swap)!,
+            alternatives: [],
+        };
+    }
+}
+
+/**
+ * Pair over- and under-allocated chains in order of deviation, sending the
+ * smaller of surplus and deficit each time
+ */
+function planGreedy(overAllocated: PlanEntry[], underAllocated: PlanEntry[]): { swaps: SwapAction[]; transfers: TransferAction[] } {
+    const swaps: SwapAction[] = [];
+    const transfers: TransferAction[] = [];
+    const limits: SizeLimits = new Map();
     let overIndex = 0;
     let underIndex = 0;
 
@@ -87,78 +349,439 @@ export function generateActions(
         const from = overAllocated[overIndex]!;
         const to = underAllocated[underIndex]!;
 
-        const fromBalance = currentBalances.find((b) => b.chain === from.chain)!;
-        const toBalance = currentBalances.find((b) => b.chain === to.chain)!;
-
-        // Calculate how much to transfer
-        const targetFrom = (totalBalance * BigInt(Math.round(from.target * 100))) / 10000n;
-        const targetTo = (totalBalance * BigInt(Math.round(to.target * 100))) / 10000n;
-
-        const excessFrom = fromBalance.balance - targetFrom;
-        const deficitTo = targetTo - toBalance.balance;
+        // Only settled, signer-controlled USDC can leave the source chain;
+        // excess held in other tokens is swapped to USDC first
+        const surplusFrom = effectiveBalance(from.balance) - from.target;
+        if (surplusFrom > spendableBalance(from.balance)) {
+            swaps.push(...planSwaps(from.balance, surplusFrom - spendableBalance(from.balance), limits));
+        }
+        const movable = spendableBalance(from.balance);
+        const excessFrom = surplusFrom < movable ? surplusFrom : movable;
+        const deficitTo = to.target - effectiveBalance(to.balance);
 
         // Transfer the minimum of excess and deficit
         const transferAmount = excessFrom < deficitTo ? excessFrom : deficitTo;
-
         if (transferAmount > 0n) {
-            const fromConfig = CHAINS[from.chain];
-            const toConfig = CHAINS[to.chain];
-
-            actions.push({
-                from: fromConfig,
-                to: toConfig,
-                amount: transferAmount,
-                type: 'transfer',
-            });
-
-            logDecision(
-                'TRANSFER',
-                from.chain,
-                to.chain,
-                ethers.formatUnits(transferAmount, 6)
-            );
-
-            // Update running balances for next iteration
-            fromBalance.balance -= transferAmount;
-            toBalance.balance += transferAmount;
+            const transfer = addTransfer(transfers, from.balance, to.balance, transferAmount);
+            limits.set(transfer, excessFrom <= deficitTo
+                ? { chain: from.balance.chain, constraint: movable < surplusFrom ? 'spendable' : from.constraint }
+                : { chain: to.balance.chain, constraint: to.constraint });
         }
 
         // Move to next pair
         if (excessFrom <= deficitTo) overIndex++;
         if (deficitTo <= excessFrom) underIndex++;
     }
+    explainActions({ swaps, transfers }, overAllocated, underAllocated, limits);
+    return { swaps, transfers };
+}
+
+/**
+ * USDC a chain could add by swapping its signer-held tokens (guaranteed minimum)
+ */
+function swappableValue(balance: ChainBalance): bigint {
+    if (balance.tokenValue === undefined || !balance.tokens) return 0n;
+    return balance.tokens.reduce(
+        (sum, token) => sum + (spendableTokenValue(token) * BigInt(10000 - SWAP_SLIPPAGE_BPS)) / 10000n,
+        0n
+    );
+}
+
+/**
+ * Route surplus to deficits as a min-cost flow over the route weights, then
+ * swap just enough other tokens on each source to cover what it sends
+ */
+function planMinCost(
+    overAllocated: PlanEntry[],
+    underAllocated: PlanEntry[],
+    routeWeights: RouteWeights
+): { swaps: SwapAction[]; transfers: TransferAction[] } {
+    // Sources whose movable funds, not their surplus, cap what they can send
+    const spendableBound = new Set<number>();
+    const supply = overAllocated.map(({ balance, target }, i) => {
+        const surplus = effectiveBalance(balance) - target;
+        const movable = spendableBalance(balance) + swappableValue(balance);
+        if (movable < surplus) spendableBound.add(i);
+        const capacity = surplus < movable ? surplus : movable;
+        return capacity > 0n ? capacity : 0n;
+    });
+    const demand = underAllocated.map(({ balance, target }) => {
+        const deficit = target - effectiveBalance(balance);
+        return deficit > 0n ? deficit : 0n;
+    });
+
+    const costs = supply.map((s, i) => demand.map((d, j) =>
+        unitCost(routeWeights(overAllocated[i]!.balance.chain, underAllocated[j]!.balance.chain), s < d ? s : d)));
+    const flows = minCostFlow(supply, demand, (i, j) => costs[i]![j]!);
+    const inflow = demand.map((_, j) => flows.reduce((sum, row) => sum + row[j]!, 0n));
+
+    const swaps: SwapAction[] = [];
+    const transfers: TransferAction[] = [];
+    const limits: SizeLimits = new Map();
+    overAllocated.forEach((entry, i) => {
+        const { balance } = entry;
+        const outflow = flows[i]!.reduce((sum, f) => sum + f, 0n);
+        if (outflow > spendableBalance(balance)) {
+            swaps.push(...planSwaps(balance, outflow - spendableBalance(balance), limits));
+        }
+        flows[i]!.forEach((amount, j) => {
+            if (amount <= 0n) return;
+            const sink = underAllocated[j]!;
+            const transfer = addTransfer(transfers, balance, sink.balance, amount);
+            // An exhausted source limits the transfer unless the sink was filled by it as well
+            const bySource = outflow === supply[i] && (inflow[j] !== demand[j] || amount === supply[i]);
+            limits.set(transfer, bySource
+                ? { chain: balance.chain, constraint: spendableBound.has(i) ? 'spendable' : entry.constraint }
+                : { chain: sink.balance.chain, constraint: sink.constraint });
+        });
+    });
+    explainActions({ swaps, transfers }, overAllocated, underAllocated, limits,
+        (i, j) => Number((costs[i]![j]! * 10000).toFixed(2)));
+    return { swaps, transfers };
+}
+
+/**
+ * Generate rebalancing actions to move funds from over-allocated to under-allocated chains.
+ * With the total value basis, excess held in other tokens is swapped to USDC first;
+ * swap actions come before all transfers.
+ */
+export function generateActions(
+    balances: ChainBalance[],
+    targets: TargetAllocation[],
+    threshold: number,
+    options: PlanOptions = {}
+): RebalanceAction[] {
+    // Never plan against unknown balances: a failed read would look like an empty chain
+    const unknown = getUnknownBalances(balances);
+    if (unknown.length > 0) {
+        logger.warn(`Not planning: balance unknown on ${unknown.join(', ')}`);
+        return [];
+    }
+
+    // Planning runs the balances forward as it adds swaps and transfers; the
+    // caller's balances stay as read, for snapshots and projections
+    const currentBalances = balances.map((b) => ({ ...b }));
+
+    const deviations = calculateDeviations(currentBalances, targets);
+
+    // Sort by deviation: positive (over-allocated) first, negative (under-allocated) last
+    const sorted = [...deviations].sort((a, b) => b.deviation - a.deviation);
+
+    // Hard constraints first: they resolve the target amounts the percentages apply to
+    const totalBalance = plannedTotal(currentBalances);
+    const targetAmounts = resolveTargetAmounts(targets, totalBalance);
+
+    // Outer band triggers, inner band is where a triggered chain is brought back to
+    const triggered = (d: Deviation): boolean => Math.abs(d.deviation) > (d.threshold ?? threshold);
+    const toEntry = (dev: Deviation): PlanEntry => {
+        const target = targets.find((t) => t.chain === dev.chain);
+        let goal = targetAmounts.get(dev.chain) ?? 0n;
+        let constraint: SizeConstraint = 'target';
+        if (triggered(dev)) {
+            const bandPct = dev.band ?? options.band ?? 0;
+            const band = (totalBalance * BigInt(Math.round(bandPct * 100))) / 10000n;
+            goal = dev.deviation > 0 ? goal + band : goal - band;
+            if (bandPct > 0) constraint = 'band';
+            // Partial correction closes only part of the gap to the band edge
+            if (options.correction !== undefined && options.correction < 1) {
+                const current = effectiveBalance(currentBalances.find((b) => b.chain === dev.chain)!);
+                goal = current + ((goal - current) * BigInt(Math.round(options.correction * 10000))) / 10000n;
+                constraint = 'correction';
+            }
+        }
+        // The goal never crosses a hard constraint, and may sit on one
+        if (target && goal <= targetFloor(target) && targetFloor(target) > 0n) {
+            goal = targetFloor(target);
+            constraint = 'floor';
+        } else if (target?.max !== undefined && goal >= target.max) {
+            goal = target.max;
+            constraint = 'ceiling';
+        }
+
+        const entry: PlanEntry = { balance: currentBalances.find((b) => b.chain === dev.chain)!, target: goal, constraint };
+        if (dev.breach) {
+            entry.trigger = { chain: dev.chain, reason: dev.breach, deviation: dev.deviation };
+        } else if (triggered(dev)) {
+            entry.trigger = { chain: dev.chain, reason: 'threshold', deviation: dev.deviation, threshold: dev.threshold ?? threshold };
+        }
+        return entry;
+    };
+
+    // Match over-allocated chains with under-allocated chains. A breached floor
+    // may draw on any chain above target and a breached ceiling may fill any
+    // chain below it, even within threshold.
+    const floorBreached = deviations.some((d) => d.breach === 'floor');
+    const ceilingBreached = deviations.some((d) => d.breach === 'ceiling');
+    const overAllocated = sorted
+        .filter((d) => (d.deviation > 0 && triggered(d)) || d.breach === 'ceiling' || (floorBreached && d.deviation > 0))
+        .map(toEntry);
+    const underAllocated = sorted
+        .filter((d) => (d.deviation < 0 && triggered(d)) || d.breach === 'floor' || (ceilingBreached && d.deviation < 0))
+        .reverse()
+        .map(toEntry);
+
+    const plan = (over: PlanEntry[], under: PlanEntry[]): { swaps: SwapAction[]; transfers: TransferAction[] } =>
+        options.planner === 'greedy'
+            ? planGreedy(over, under)
+            : planMinCost(over, under, options.routeWeights ?? UNIFORM_ROUTES);
+    const { swaps, transfers } = plan(overAllocated, underAllocated);
+
+    // Triggered chains must reach their band even when the other side is short:
+    // spill what is left to (or draw it from) untriggered chains on the other side of target
+    const remaining = (entries: PlanEntry[], sign: bigint): bigint =>
+        entries.reduce((sum, e) => {
+            const gap = (effectiveBalance(e.balance) - e.target) * sign;
+            return gap > 0n ? sum + gap : sum;
+        }, 0n);
+    const included = new Set([...overAllocated, ...underAllocated].map((e) => e.balance.chain));
+    const untriggered = (d: Deviation): boolean => !included.has(d.chain);
+    let spill: { swaps: SwapAction[]; transfers: TransferAction[] } | undefined;
+    if (remaining(overAllocated, 1n) > 0n) {
+        const sinks = sorted.filter((d) => d.deviation < 0 && untriggered(d)).reverse().map(toEntry);
+        spill = plan(overAllocated, sinks);
+    } else if (remaining(underAllocated, -1n) > 0n) {
+        const sources = sorted.filter((d) => d.deviation > 0 && untriggered(d)).map(toEntry);
+        spill = plan(sources, underAllocated);
+    }
+    if (spill) {
+        swaps.push(...spill.swaps);
+        transfers.push(...spill.transfers);
+    }
 
-    if (actions.length === 0) {
+    if (transfers.length === 0) {
         logger.info('No rebalancing needed - all chains within threshold');
-    } else {
-        logger.info(`Generated ${actions.length} rebalancing action(s)`);
+        return [];
     }
 
-    return actions;
+    logger.info(`Generated ${swaps.length + transfers.length} rebalancing action(s)`);
+    return [...swaps, ...transfers];
+}
+
+// =============================================================================
+// Cost Limits
+// =============================================================================
+
+/**
+ * Limits that keep the planner from sending transfers that cost more than they fix
+ */
+export interface CostLimits {
+    minTransfer: bigint;      // value units
+    maxCostPct: number;       // estimated cost as % of the amount
+}
+
+function isEconomic(transfer: TransferAction, limits: CostLimits): boolean {
+    if (transfer.amount < limits.minTransfer) return false;
+    if (!transfer.cost) return true;
+    return transfer.cost.total * 10000n <= transfer.amount * BigInt(Math.round(limits.maxCostPct * 100));
 }
 
+// Gas does not grow with the amount; proportional fees do
+function scaleCost(cost: TransferCost, from: bigint, to: bigint): TransferCost {
+    const protocolFee = from > 0n ? (cost.protocolFee * to) / from : cost.protocolFee;
+    return { ...cost, protocolFee, total: cost.sourceGas + cost.destinationGas + protocolFee };
+}
+
+/**
+ * Drop transfers that are below the minimum size or whose estimated cost is too
+ * high a share of the amount. An uneconomic transfer is merged into a remaining
+ * transfer on the same route, which pays no extra gas for it; otherwise it is
+ * dropped. Swaps feeding no remaining transfer are dropped too.
+ */
+export function applyCostLimits(
+    actions: RebalanceAction[],
+    limits: CostLimits
+): { actions: RebalanceAction[]; dropped: RebalanceAction[] } {
+    const transfers = actions.filter((a): a is TransferAction => a.type === 'transfer');
+    const kept = transfers.filter((t) => isEconomic(t, limits));
+    const dropped: RebalanceAction[] = [];
+
+    for (const transfer of transfers.filter((t) => !kept.includes(t))) {
+        // Funds only ever go where they were planned to; another destination would overshoot
+        const sameRoute = kept.find((k) => k.from.name === transfer.from.name && k.to.name === transfer.to.name);
+        if (!sameRoute) {
+            logDecision('SKIP', transfer.from.name, transfer.to.name, `${formatValue(transfer.amount)} (uneconomic)`);
+            dropped.push(transfer);
+            continue;
+        }
+
+        const amount = sameRoute.amount + transfer.amount;
+        const merged: TransferAction = { ...sameRoute, amount };
+        if (sameRoute.cost) merged.cost = scaleCost(sameRoute.cost, sameRoute.amount, amount);
+        kept[kept.indexOf(sameRoute)] = merged;
+        logDecision('MERGE', `${transfer.from.name}→${transfer.to.name}`, sameRoute.to.name, formatValue(transfer.amount));
+    }
+
+    const sources = new Set(kept.map((k) => k.from.name));
+    const others = actions.filter((a) => a.type !== 'transfer' && (a.type !== 'swap' || sources.has(a.from.name)));
+    dropped.push(...actions.filter((a) => a.type === 'swap' && !sources.has(a.from.name)));
+
+    return { actions: [...others, ...kept], dropped };
+}
+
+// =============================================================================
+// Transfer Modes
+// =============================================================================
+
 /**
- * Parse target allocation string from CLI (e.g., "40,30,30")
+ * Whether a transfer fixes something that should not wait for hard finality:
+ * a breached floor or ceiling, or a chain at least `urgentDeviation`% from target
+ */
+function isUrgent(transfer: TransferAction, urgentDeviation: number): boolean {
+    const trigger = transfer.rationale?.trigger;
+    if (!trigger) return false;
+    if (trigger.reason === 'floor' || trigger.reason === 'ceiling') return true;
+    return trigger.deviation !== undefined && Math.abs(trigger.deviation) >= urgentDeviation;
+}
+
+/**
+ * Pick fast or standard per transfer. In auto mode, urgent transfers up to
+ * `fastMax` go fast; the rest, and everything else, wait for hard finality.
+ */
+export function chooseTransferModes(actions: RebalanceAction[], policy: TransferModePolicy): RebalanceAction[] {
+    return actions.map((action) => {
+        if (action.type !== 'transfer' || policy.mode === 'standard') return action;
+        if (policy.mode === 'auto') {
+            if (!isUrgent(action, policy.urgentDeviation)) return action;
+            if (policy.fastMax !== undefined && action.amount > policy.fastMax) return action;
+        }
+        logDecision('FAST', action.from.name, action.to.name, formatValue(action.amount));
+        return { ...action, mode: 'fast' };
+    });
+}
+
+/**
+ * Total estimated cost of the priced transfers in a plan
+ */
+export function totalCost(actions: RebalanceAction[]): bigint {
+    return actions.reduce((sum, a) => sum + (a.type === 'transfer' ? a.cost?.total ?? 0n : 0n), 0n);
+}
+
+// =============================================================================
+// Target Parsing
+// =============================================================================
+
+const TARGET_BOUNDS = ['min', 'max', 'reserve'] as const;
+const TARGET_BANDS = ['threshold', 'band'] as const;
+
+/**
+ * Parse one target entry: a percentage with optional absolute bounds in USDC
+ * and trigger/inner bands in % (e.g., "40:min=50000:reserve=10000:threshold=8:band=2")
+ */
+function parseTargetEntry(entry: string, chain: ChainName): TargetAllocation {
+    const [percentage, ...modifiers] = entry.split(':').map((s) => s.trim());
+    const target: TargetAllocation = { chain, percentage: parseFloat(percentage!) };
+    if (Number.isNaN(target.percentage)) {
+        throw new Error(`Invalid target percentage for ${chain}: ${percentage}`);
+    }
+
+    for (const modifier of modifiers) {
+        const [key, value] = modifier.split('=').map((s) => s.trim());
+        const tolerance = TARGET_BANDS.find((b) => b === key);
+        if (tolerance && value !== undefined) {
+            const percent = Number(value);
+            if (value === '' || !Number.isFinite(percent) || percent < 0) {
+                throw new Error(`Invalid ${tolerance} for ${chain}: ${value}`);
+            }
+            target[tolerance] = percent;
+            continue;
+        }
+        const bound = TARGET_BOUNDS.find((b) => b === key);
+        if (!bound || value === undefined) {
+            throw new Error(
+                `Unknown target modifier for ${chain}: ${modifier} (expected min=, max=, reserve=, threshold= or band=)`
+            );
+        }
+        try {
+            target[bound] = ethers.parseUnits(value, VALUE_DECIMALS);
+        } catch {
+            throw new Error(`Invalid ${bound} amount for ${chain}: ${value}`);
+        }
+    }
+
+    if (target.max !== undefined && targetFloor(target) > target.max) {
+        throw new Error(`Target for ${chain} has a floor above its max of ${formatValue(target.max)} USDC`);
+    }
+    if (target.threshold !== undefined && target.band !== undefined && target.band >= target.threshold) {
+        throw new Error(`Target for ${chain} has a band of ${target.band}% that is not inside its threshold of ${target.threshold}%`);
+    }
+    return target;
+}
+
+/**
+ * Whether an allocation string names its chains (its first entry starts with "chain=")
+ */
+function isNamedAllocation(targetStr: string): boolean {
+    const first = targetStr.split(',')[0]!.split(':')[0]!;
+    return first.includes('=');
+}
+
+/**
+ * Split named entries ("arc=40:min=50000") into chain and entry, checking each
+ * chain is selected and appears once
+ */
+function parseNamedEntries(entries: string[], chains: ChainName[]): Map<ChainName, string> {
+    const named = new Map<ChainName, string>();
+    for (const entry of entries) {
+        const separator = entry.indexOf('=');
+        const prefix = separator === -1 ? '' : entry.slice(0, separator);
+        if (separator === -1 || prefix.includes(':')) {
+            throw new Error(`Target allocation mixes named and positional entries: ${entry.trim()}`);
+        }
+        const chain = prefix.trim();
+        if (!chains.includes(chain)) {
+            throw new Error(`Unknown chain in target allocation: ${chain} (expected one of ${chains.join(', ')})`);
+        }
+        if (named.has(chain)) {
+            throw new Error(`Duplicate chain in target allocation: ${chain}`);
+        }
+        named.set(chain, entry.slice(separator + 1));
+    }
+
+    const missing = chains.filter((chain) => !named.has(chain));
+    if (missing.length > 0) {
+        throw new Error(`Target allocation is missing ${missing.join(', ')}`);
+    }
+    return named;
+}
+
+/**
+ * Parse target allocation string from CLI, either named (e.g.,
+ * "arc=40,sepolia=30,arbitrumSepolia=30") or positional in chain order
+ * (e.g., "40,30,30"). Each entry may add absolute bounds in USDC: min (floor),
+ * max (ceiling) and reserve (kept on top of the percentage share), e.g.
+ * "arc=40:min=50000,sepolia=30:max=200000,arbitrumSepolia=30:reserve=10000",
+ * and override the trigger threshold and inner band, e.g. "arc=40:threshold=10:band=3"
  */
 export function parseTargetAllocation(
     targetStr: string,
     chains: ChainName[]
 ): TargetAllocation[] {
-    const percentages = targetStr.split(',').map((s) => parseFloat(s.trim()));
+    const entries = targetStr.split(',');
 
-    if (percentages.length !== chains.length) {
-        throw new Error(
-            `Target allocation must have ${chains.length} values, got ${percentages.length}`
-        );
+    let targets: TargetAllocation[];
+    if (isNamedAllocation(targetStr)) {
+        const named = parseNamedEntries(entries, chains);
+        targets = chains.map((chain) => parseTargetEntry(named.get(chain)!, chain));
+    } else {
+        if (entries.length !== chains.length) {
+            throw new Error(
+                `Target allocation must have ${chains.length} values, got ${entries.length}`
+            );
+        }
+        targets = chains.map((chain, i) => parseTargetEntry(entries[i]!, chain));
     }
 
-    const sum = percentages.reduce((a, b) => a + b, 0);
+    const sum = targets.reduce((a, t) => a + t.percentage, 0);
     if (Math.abs(sum - 100) > 0.01) {
         throw new Error(`Target allocation must sum to 100%, got ${sum}%`);
     }
 
-    return chains.map((chain, i) => ({
-        chain,
-        percentage: percentages[i]!,
-    }));
+    return targets;
+}
+
+/**
+ * Build an equal-split allocation string for the given chains (e.g., "sepolia=50,arc=50")
+ */
+export function equalTargetAllocation(chains: ChainName[]): string {
+    return chains.map((chain) => `${chain}=${100 / chains.length}`).join(',');
 }
@@ -10,11 +10,18 @@ import {
     ERC20_ABI,
     TOKEN_MESSENGER_ABI,
     MESSAGE_TRANSMITTER_ABI,
-    ATTESTATION_API_URL,
+    getAttestationApiUrl,
+    getChain,
+    getNetwork,
     getPrivateKey,
 } from '../config.js';
+import { FINALITY_THRESHOLDS, getFeeQuote, maxFeeFor, parseSettledMessage } from '../fees.js';
+import { canResume, getUnfinishedTransfers, openTransfer, updateTransfer } from '../journal.js';
 import { logger, logTransaction, logError } from '../logger.js';
-import type { ChainConfig, RebalanceAction, TransferResult } from '../types.js';
+import { getProvider, withProvider } from '../providers.js';
+import { formatValue, fromValueUnits, getTokenDecimals, toValueUnits } from '../tokens.js';
+import { clearPendingTransfer, recordPendingTransfer } from '../transit.js';
+import type { ChainConfig, JournaledTransfer, TransferAction, TransferMode, TransferResult } from '../types.js';
 
 // =============================================================================
 // Configuration
@@ -34,6 +41,9 @@ const ATTESTATION_CONFIG = {
     fastPollAttempts: 12,    // 1 minute of fast polling
 };
 
+// How long one broadcast of a burn waits to be mined before it is retried
+const BURN_RECEIPT_TIMEOUT_MS = 5 * 60 * 1000;
+
 const GAS_CONFIG = {
     bufferPercent: 20,       // add 20% buffer to estimated gas
     maxGasLimit: 500000n,    // max gas limit for transactions
@@ -43,16 +53,9 @@ const GAS_CONFIG = {
 // Wallet Management
 // =============================================================================
 
-const walletCache = new Map<string, ethers.Wallet>();
-
+// Wallets are connected to the healthiest endpoint of the shared provider pool
 function getWallet(chain: ChainConfig): ethers.Wallet {
-    let wallet = walletCache.get(chain.name);
-    if (!wallet) {
-        const provider = new ethers.JsonRpcProvider(chain.rpcUrl);
-        wallet = new ethers.Wallet(getPrivateKey(), provider);
-        walletCache.set(chain.name, wallet);
-    }
-    return wallet;
+    return new ethers.Wallet(getPrivateKey(), getProvider(chain));
 }
 
 function addressToBytes32(address: string): string {
@@ -260,12 +263,51 @@ async function approveUSDC(
     );
 }
 
-async function burnUSDC(
+interface BurnTerms {
+    mode: TransferMode;
+    maxFee: bigint;           // burn token units
+}
+
+/**
+ * maxFee and finality of a burn. Fast transfers allow the live Iris fee plus
+ * headroom, and fall back to standard when no quote can be had or the fee
+ * would swallow the amount.
+ */
+export async function resolveBurnTerms(
     fromChain: ChainConfig,
     toChain: ChainConfig,
     amount: bigint,
-    recipient: string
-): Promise<{ txHash: string; messageHash: string; messageBytes: string }> {
+    mode: TransferMode
+): Promise<BurnTerms> {
+    if (mode === 'standard') return { mode, maxFee: 0n };
+    try {
+        const quote = await getFeeQuote(fromChain, toChain);
+        const maxFee = maxFeeFor(amount, quote.fastBps);
+        if (maxFee < amount) {
+            logger.info(`Fast transfer fee: ${quote.fastBps} bps`);
+            return { mode, maxFee };
+        }
+        logger.warn(`Fast transfer fee of ${quote.fastBps} bps exceeds the amount; sending standard`);
+    } catch (error) {
+        logger.warn('Could not quote the fast transfer fee; sending standard', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+    return { mode: 'standard', maxFee: 0n };
+}
+
+/**
+ * Sign the depositForBurn of a transfer without sending it. The signed
+ * transaction is journaled before it is broadcast, so a crash can only ever
+ * lead to this same burn being rebroadcast, never to a second one.
+ */
+async function signBurn(
+    fromChain: ChainConfig,
+    toChain: ChainConfig,
+    amount: bigint,
+    recipient: string,
+    terms: BurnTerms
+): Promise<{ burnTx: string; burnTxHash: string }> {
     const wallet = getWallet(fromChain);
     const tokenMessenger = new ethers.Contract(
         fromChain.tokenMessenger,
@@ -273,78 +315,108 @@ async function burnUSDC(
         wallet
     );
 
-    logger.info(`Burning ${ethers.formatUnits(amount, 6)} USDC on ${fromChain.name}...`);
-
-    return withRetry(
-        async () => {
-            // CCTP V2 parameters:
-            // - destinationCaller: bytes32(0) means anyone can call receiveMessage
-            // - maxFee: 0 for standard transfer (no fast transfer fee)
-            // - finalityThreshold: 2000 for standard transfer (1000 for fast)
-            const destinationCaller = ethers.zeroPadValue('0x00', 32);
-            const maxFee = 0n;
-            const finalityThreshold = 2000; // Standard transfer
-
-            const args = [
-                amount,
-                toChain.cctpDomain,
-                addressToBytes32(recipient),
-                fromChain.usdcAddress,
-                destinationCaller,
-                maxFee,
-                finalityThreshold,
-            ];
-            const gasEstimate = await estimateGas(fromChain, tokenMessenger, 'depositForBurn', args);
-
-            const tx = await tokenMessenger.getFunction('depositForBurn')(
-                ...args,
-                { gasLimit: gasEstimate.gasLimit }
-            );
-
-            const receipt = await tx.wait();
-
-            // Extract message hash and bytes from MessageSent event
-            const messageTransmitter = new ethers.Contract(
-                fromChain.messageTransmitter,
-                MESSAGE_TRANSMITTER_ABI,
-                wallet.provider
-            );
-
-            let messageHash = '';
-            let messageBytes = '';
+    const decimals = await getTokenDecimals(fromChain, fromChain.usdcAddress);
+    logger.info(`Burning ${ethers.formatUnits(amount, decimals)} USDC on ${fromChain.name} (${terms.mode})...`);
+
+    // CCTP V2 parameters:
+    // - destinationCaller: bytes32(0) means anyone can call receiveMessage
+    // - maxFee: most the fast transfer fee may take from the mint (0 for standard)
+    // - finalityThreshold: 1000 for fast transfer, 2000 for standard
+    const destinationCaller = ethers.zeroPadValue('0x00', 32);
+    const { maxFee } = terms;
+    const finalityThreshold = FINALITY_THRESHOLDS[terms.mode];
+
+    const args = [
+        amount,
+        toChain.cctpDomain,
+        addressToBytes32(recipient),
+        fromChain.usdcAddress,
+        destinationCaller,
+        maxFee,
+        finalityThreshold,
+    ];
+    const gasEstimate = await withRetry(
+        () => estimateGas(fromChain, tokenMessenger, 'depositForBurn', args),
+        `Burn gas estimate on ${fromChain.name}`
+    );
 
-            // Look for MessageSent event in logs
-            const messageSentTopic = ethers.id('MessageSent(bytes)');
+    const request = await tokenMessenger.getFunction('depositForBurn').populateTransaction(
+        ...args,
+        { gasLimit: gasEstimate.gasLimit }
+    );
+    const burnTx = await wallet.signTransaction(await wallet.populateTransaction(request));
+    return { burnTx, burnTxHash: ethers.keccak256(burnTx) };
+}
 
-            for (const log of receipt.logs) {
-                if (log.topics[0] === messageSentTopic) {
-                    // Decode the message bytes
-                    const abiCoder = new ethers.AbiCoder();
-                    const decoded = abiCoder.decode(['bytes'], log.data);
-                    messageBytes = decoded[0] as string;
-                    messageHash = ethers.keccak256(messageBytes);
-                    break;
+/**
+ * Broadcast a signed burn, or rebroadcast it on resume, and wait for it to be
+ * mined. A burn already in the mempool or on-chain is not sent twice.
+ */
+async function sendBurn(
+    fromChain: ChainConfig,
+    toChain: ChainConfig,
+    burnTx: string,
+    burnTxHash: string
+): Promise<{ messageHash: string; messageBytes: string }> {
+    const receipt = await withRetry(
+        async () => {
+            const provider = getProvider(fromChain);
+            const mined = await provider.getTransactionReceipt(burnTxHash);
+            if (mined) return mined;
+
+            try {
+                await provider.broadcastTransaction(burnTx);
+            } catch (error) {
+                const message = error instanceof Error ? error.message.toLowerCase() : String(error);
+                if (!message.includes('already known') && !message.includes('nonce too low')) throw error;
+                // Either this burn is already pending or mined, or its nonce went to another transaction
+                if (message.includes('nonce too low') && !(await provider.getTransactionReceipt(burnTxHash))) {
+                    throw new Error(`Burn ${burnTxHash} was never mined: nonce too low`);
                 }
             }
 
-            // Fallback: use tx hash as message identifier
-            if (!messageHash) {
-                messageHash = receipt.hash;
-                logger.warn('Could not extract MessageSent event, using tx hash');
-            }
-
-            logTransaction('BURN', fromChain.name, receipt.hash, {
-                amount: ethers.formatUnits(amount, 6),
-                destination: toChain.name,
-                messageHash,
-                gasUsed: receipt.gasUsed?.toString(),
-            });
-
-            return { txHash: receipt.hash as string, messageHash, messageBytes };
+            const included = await provider.waitForTransaction(burnTxHash, 1, BURN_RECEIPT_TIMEOUT_MS);
+            if (!included) throw new Error(`Burn ${burnTxHash} not mined: timeout`);
+            return included;
         },
         `USDC Burn on ${fromChain.name}`,
         { maxAttempts: 3 }
     );
+    if (receipt.status === 0) {
+        throw new Error(`Burn ${burnTxHash} execution reverted`);
+    }
+
+    // Extract message hash and bytes from MessageSent event
+    let messageHash = '';
+    let messageBytes = '';
+
+    // Look for MessageSent event in logs
+    const messageSentTopic = ethers.id('MessageSent(bytes)');
+
+    for (const log of receipt.logs) {
+        if (log.topics[0] === messageSentTopic) {
+            // Decode the message bytes
+            const abiCoder = new ethers.AbiCoder();
+            const decoded = abiCoder.decode(['bytes'], log.data);
+            messageBytes = decoded[0] as string;
+            messageHash = ethers.keccak256(messageBytes);
+            break;
+        }
+    }
+
+    // Fallback: use tx hash as message identifier
+    if (!messageHash) {
+        messageHash = receipt.hash;
+        logger.warn('Could not extract MessageSent event, using tx hash');
+    }
+
+    logTransaction('BURN', fromChain.name, receipt.hash, {
+        destination: toChain.name,
+        messageHash,
+        gasUsed: receipt.gasUsed?.toString(),
+    });
+
+    return { messageHash, messageBytes };
 }
 
 // =============================================================================
@@ -356,7 +428,10 @@ interface AttestationResult {
     message: string;
 }
 
-async function waitForAttestation(
+/**
+ * Poll Iris until the message burned in `txHash` is attested
+ */
+export async function waitForAttestation(
     sourceDomain: number,
     txHash: string,
     options: Partial<typeof ATTESTATION_CONFIG> = {}
@@ -377,7 +452,7 @@ async function waitForAttestation(
 
         try {
             // CCTP V2 API format: /v2/messages/{sourceDomainId}?transactionHash={txHash}
-            const url = `${ATTESTATION_API_URL}/v2/messages/${sourceDomain}?transactionHash=${txHash}`;
+            const url = `${getAttestationApiUrl()}/v2/messages/${sourceDomain}?transactionHash=${txHash}`;
             const response = await fetch(url);
 
             if (!response.ok) {
@@ -483,85 +558,262 @@ async function receiveMessage(
     );
 }
 
+/**
+ * Whether an attested message has already been received on its destination,
+ * by its nonce (bytes 12-44 of a MessageV2, assigned at attestation)
+ */
+async function isMessageReceived(toChain: ChainConfig, message: string): Promise<boolean> {
+    const nonce = ethers.dataSlice(message, 12, 44);
+    return withProvider(toChain, async (provider) => {
+        const messageTransmitter = new ethers.Contract(toChain.messageTransmitter, MESSAGE_TRANSMITTER_ABI, provider);
+        return (await messageTransmitter.getFunction('usedNonces')(nonce) as bigint) !== 0n;
+    }, 'Used nonce read');
+}
+
+// =============================================================================
+// Transfer Steps
+// =============================================================================
+
+/**
+ * Mode and fee (value units) an attested message settled with; the burned mode
+ * and no fee if the message cannot be read
+ */
+function settle(
+    message: string,
+    decimals: number,
+    burned: TransferMode
+): { mode: TransferMode; feePaid?: bigint } {
+    try {
+        const { finalityThresholdExecuted, feeExecuted } = parseSettledMessage(message);
+        return {
+            mode: finalityThresholdExecuted < FINALITY_THRESHOLDS.standard ? 'fast' : 'standard',
+            feePaid: toValueUnits(feeExecuted, decimals),
+        };
+    } catch (error) {
+        logger.warn('Could not read the fee from the attested message', {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return { mode: burned };
+    }
+}
+
+/**
+ * Receive an attested message unless it already was; a mint whose receipt was
+ * lost is recognised by its used nonce rather than sent again
+ */
+async function mintTransfer(
+    to: ChainConfig,
+    message: string,
+    attestation: string
+): Promise<{ mintTxHash?: string }> {
+    if (await isMessageReceived(to, message)) {
+        logger.info(`Message already received on ${to.name}`);
+        return {};
+    }
+    try {
+        return { mintTxHash: await receiveMessage(to, message, attestation) };
+    } catch (error) {
+        if (await isMessageReceived(to, message)) return {};
+        throw error;
+    }
+}
+
+/**
+ * Credit a transfer whose burn has been signed to its destination, so planning
+ * does not send the same deficit twice while the funds are on neither chain
+ */
+function trackInTransit(transfer: JournaledTransfer): void {
+    recordPendingTransfer({
+        network: transfer.network,
+        from: transfer.from,
+        to: transfer.to,
+        amount: transfer.amount,
+        burnTxHash: transfer.burnTxHash!,
+        ...(transfer.messageHash !== undefined && { messageHash: transfer.messageHash }),
+        burnedAt: transfer.burnedAt ?? transfer.updatedAt,
+    });
+}
+
+/**
+ * Carry a journaled transfer through its remaining steps, journaling each one
+ * as it completes. An error before the burn is mined fails the transfer if the
+ * burn can never be mined; from the burn on the transfer stays where it
+ * stopped, to be resumed.
+ */
+async function runTransfer(transfer: JournaledTransfer): Promise<JournaledTransfer> {
+    const from = getChain(transfer.from);
+    const to = getChain(transfer.to);
+
+    try {
+        for (;;) {
+            switch (transfer.state) {
+                case 'pending': {
+                    logger.info('Step 1/4: Approving USDC...');
+                    const approveTxHash = await approveUSDC(from, transfer.tokenAmount);
+                    transfer = updateTransfer(transfer, 'approved', approveTxHash ? { approveTxHash } : {});
+                    break;
+                }
+                case 'approved': {
+                    logger.info('Step 2/4: Burning USDC on source chain...');
+                    if (transfer.burnTx === undefined || transfer.burnTxHash === undefined) {
+                        const signed = await signBurn(from, to, transfer.tokenAmount, getWalletAddress(from), transfer);
+                        transfer = updateTransfer(transfer, 'approved', signed);
+                    }
+                    // The burn may be mined any time from its broadcast, even if its receipt
+                    // times out here; credit the destination until it is minted or cannot be
+                    trackInTransit(transfer);
+                    const burned = await sendBurn(from, to, transfer.burnTx!, transfer.burnTxHash!);
+                    transfer = updateTransfer(transfer, 'burned', { ...burned, burnedAt: Date.now() });
+                    trackInTransit(transfer);
+                    break;
+                }
+                case 'burned': {
+                    trackInTransit(transfer);
+
+                    // Step 3: Wait for attestation (V2 API uses sourceDomain and txHash)
+                    logger.info('Step 3/4: Waiting for Circle attestation...');
+                    const attested = await waitForAttestation(from.cctpDomain, transfer.burnTxHash!);
+                    transfer = updateTransfer(transfer, 'attested', attested);
+                    break;
+                }
+                case 'attested': {
+                    // Step 4: Mint on destination chain
+                    logger.info('Step 4/4: Minting USDC on destination chain...');
+                    const minted = await mintTransfer(to, transfer.message!, transfer.attestation!);
+                    clearPendingTransfer(transfer.burnTxHash!);
+
+                    // What the attestation settled at: a fast burn is attested standard when fast capacity runs out
+                    const decimals = await getTokenDecimals(from, from.usdcAddress);
+                    const settled = settle(transfer.message!, decimals, transfer.mode);
+                    transfer = updateTransfer(transfer, 'minted', { ...minted, ...settled });
+                    break;
+                }
+                case 'minted':
+                case 'failed':
+                    return transfer;
+            }
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Before the burn is signed nothing has left the wallet; a signed burn
+        // that reverted or lost its nonce can never be mined
+        const failed = !canResume(transfer) ||
+            (transfer.state === 'approved' && error instanceof Error && !isRetryableError(error));
+
+        if (failed && transfer.burnTxHash !== undefined) clearPendingTransfer(transfer.burnTxHash);
+
+        logError(failed ? 'Transfer failed' : `Transfer stopped at ${transfer.state}; the next cycle resumes it`, error, {
+            from: from.name,
+            to: to.name,
+            amount: transfer.amount.toString(),
+        });
+        return updateTransfer(transfer, failed ? 'failed' : transfer.state, { error: message });
+    }
+}
+
+function toTransferResult(transfer: JournaledTransfer): TransferResult {
+    const result: TransferResult = { success: transfer.state === 'minted', mode: transfer.mode, transferId: transfer.id };
+    // A failed transfer never burned; an unfinished one may have
+    if (transfer.burnTxHash && transfer.state !== 'failed') result.burnTxHash = transfer.burnTxHash;
+    if (transfer.mintTxHash) result.mintTxHash = transfer.mintTxHash;
+    if (transfer.messageHash) result.messageHash = transfer.messageHash;
+    if (transfer.feePaid !== undefined) result.feePaid = transfer.feePaid;
+    if (transfer.error && transfer.state !== 'minted') result.error = transfer.error;
+    return result;
+}
+
 // =============================================================================
 // Main Transfer Execution
 // =============================================================================
 
+/**
+ * Execute a cross-chain transfer; `action.amount` is in value units (see tokens.ts).
+ * Every step is journaled, so a transfer interrupted after its burn is
+ * finished by `resumeTransfers` at the start of the next cycle.
+ */
 export async function executeTransfer(
-    action: RebalanceAction,
-    dryRun = false
+    action: TransferAction,
+    dryRun = false,
+    cycleId?: string
 ): Promise<TransferResult> {
     const { from, to, amount } = action;
+    const mode = action.mode ?? 'standard';
     const startTime = Date.now();
 
     logger.info(`\n${'='.repeat(60)}`);
     logger.info(`CROSS-CHAIN TRANSFER`);
     logger.info(`${'='.repeat(60)}`);
-    logger.info(`Amount: ${ethers.formatUnits(amount, 6)} USDC`);
+    logger.info(`Amount: ${formatValue(amount)} USDC`);
     logger.info(`Route: ${from.name} → ${to.name}`);
+    logger.info(`Mode: ${mode}`);
     logger.info(`${'='.repeat(60)}\n`);
 
     if (dryRun) {
         logger.info('[DRY RUN] Would execute transfer, skipping...');
-        return { success: true };
+        return { success: true, mode };
     }
 
+    let transfer: JournaledTransfer;
     try {
-        const wallet = getWallet(from);
-
-        // Step 1: Approve
-        logger.info('Step 1/4: Approving USDC...');
-        await approveUSDC(from, amount);
-
-        // Step 2: Burn on source chain
-        logger.info('Step 2/4: Burning USDC on source chain...');
-        const { txHash: burnTxHash, messageHash, messageBytes } = await burnUSDC(
-            from,
-            to,
+        // Action amounts are in value units; approve/burn need the source token's decimals
+        const tokenAmount = fromValueUnits(amount, await getTokenDecimals(from, from.usdcAddress));
+        const terms = await resolveBurnTerms(from, to, tokenAmount, mode);
+        transfer = openTransfer({
+            network: getNetwork(),
+            ...(cycleId !== undefined && { cycleId }),
+            from: from.name,
+            to: to.name,
             amount,
-            wallet.address
-        );
-
-        // Step 3: Wait for attestation (V2 API uses sourceDomain and txHash)
-        logger.info('Step 3/4: Waiting for Circle attestation...');
-        const { attestation, message } = await waitForAttestation(from.cctpDomain, burnTxHash);
-
-        // Step 4: Mint on destination chain
-        logger.info('Step 4/4: Minting USDC on destination chain...');
-        const mintTxHash = await receiveMessage(to, message, attestation);
+            tokenAmount,
+            mode: terms.mode,
+            maxFee: terms.maxFee,
+        });
+    } catch (error) {
+        logError('Transfer failed', error, { from: from.name, to: to.name, amount: amount.toString() });
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
 
-        const elapsedMs = Date.now() - startTime;
-        const elapsedMinutes = (elapsedMs / 1000 / 60).toFixed(1);
+    transfer = await runTransfer(transfer);
+    if (transfer.state === 'minted') {
+        const elapsedMinutes = ((Date.now() - startTime) / 1000 / 60).toFixed(1);
 
         logger.info(`\n${'='.repeat(60)}`);
         logger.info(`✅ TRANSFER COMPLETE`);
         logger.info(`${'='.repeat(60)}`);
         logger.info(`Duration: ${elapsedMinutes} minutes`);
-        logger.info(`Burn TX: ${burnTxHash}`);
-        logger.info(`Mint TX: ${mintTxHash}`);
+        logger.info(`Mode: ${transfer.mode}${transfer.feePaid !== undefined ? `, fee ${formatValue(transfer.feePaid)} USDC` : ''}`);
+        logger.info(`Burn TX: ${transfer.burnTxHash}`);
+        logger.info(`Mint TX: ${transfer.mintTxHash ?? 'already received'}`);
         logger.info(`${'='.repeat(60)}\n`);
+    }
+    return toTransferResult(transfer);
+}
 
-        return {
-            success: true,
-            burnTxHash,
-            mintTxHash,
-            messageHash,
-        };
-    } catch (error) {
-        const elapsedMs = Date.now() - startTime;
-
-        logError('Transfer failed', error, {
-            from: from.name,
-            to: to.name,
-            amount: amount.toString(),
-            elapsedMs,
-        });
+/**
+ * Finish the transfers a previous run left unfinished on the active network:
+ * rebroadcast a signed burn, re-poll the attestation, receive the message.
+ * Transfers interrupted before their burn was signed are marked failed.
+ */
+export async function resumeTransfers(): Promise<{ transfer: JournaledTransfer; result: TransferResult }[]> {
+    const resumed: { transfer: JournaledTransfer; result: TransferResult }[] = [];
+    for (const transfer of getUnfinishedTransfers(getNetwork())) {
+        const route = `${formatValue(transfer.amount)} USDC ${transfer.from} → ${transfer.to}`;
+        if (!canResume(transfer)) {
+            logger.warn(`Dropping ${route}: interrupted before its burn was signed`);
+            const failed = updateTransfer(transfer, 'failed', { error: 'interrupted before the burn was signed' });
+            resumed.push({ transfer: failed, result: toTransferResult(failed) });
+            continue;
+        }
+        if (!CHAINS[transfer.from] || !CHAINS[transfer.to]) {
+            logger.warn(`Cannot resume ${route}: chain not in the ${getNetwork()} profile`);
+            continue;
+        }
 
-        return {
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-        };
+        logger.info(`♻️  Resuming ${route} from ${transfer.state}`);
+        const finished = await runTransfer(transfer);
+        resumed.push({ transfer: finished, result: toTransferResult(finished) });
     }
+    return resumed;
 }
 
 // =============================================================================
@@ -579,8 +831,6 @@ export async function checkBalance(chain: ChainConfig): Promise<bigint> {
 }
 
 export async function getNativeBalance(chain: ChainConfig): Promise<bigint> {
-    const wallet = getWallet(chain);
-    const provider = wallet.provider;
-    if (!provider) throw new Error('No provider');
-    return await provider.getBalance(wallet.address);
+    const address = getWalletAddress(chain);
+    return withProvider(chain, (provider) => provider.getBalance(address), 'Native balance read');
 }
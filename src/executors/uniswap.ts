@@ -5,39 +5,35 @@
  */
 
 import { ethers } from 'ethers';
-import { CHAINS, getPrivateKey } from '../config.js';
+import { CHAINS, getChain, getPrivateKey } from '../config.js';
 import { logger } from '../logger.js';
-import type { ChainConfig, ChainName } from '../types.js';
+import { getProvider } from '../providers.js';
+import { formatTokenAmount } from '../tokens.js';
+import type { ChainConfig, ChainName, UniswapAddresses } from '../types.js';
 
 // =============================================================================
-// Uniswap v4 Contract Addresses (Sepolia Testnet)
+// Uniswap v4 Contract Addresses
 // =============================================================================
 
 // Official Uniswap v4 contract addresses from https://docs.uniswap.org/contracts/v4/deployments
-const UNISWAP_V4_ADDRESSES: Record<string, {
-    poolManager: string;
-    universalRouter: string;
-    permit2: string;
-    quoterV2: string;
-}> = {
-    sepolia: {
-        poolManager: '0x8C4BcBE6b9eF47855f97E675296FA3F6fafa5F1A',
-        universalRouter: '0x3A9D48AB9751398BbFa63ad67599Bb04e4BdF98b',
-        permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
-        quoterV2: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
-    },
-};
+// are configured per chain in the active network profile (presets/<network>.json)
 
-// Supported chains for Uniswap v4 swaps
-const SWAP_SUPPORTED_CHAINS: ChainName[] = ['sepolia'];
+/**
+ * Chains of the active network profile that have Uniswap v4 configured
+ */
+function getSwapSupportedChains(): ChainName[] {
+    return Object.values(CHAINS)
+        .filter((chain) => chain.uniswap !== undefined)
+        .map((chain) => chain.name);
+}
 
-// Common token addresses (Sepolia)
-const TOKENS: Record<string, Record<string, string>> = {
-    sepolia: {
-        USDC: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
-        WETH: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
-    },
-};
+/**
+ * Common token addresses on a chain (USDC plus the profile's extra tokens)
+ */
+function getTokens(chainName: ChainName): Record<string, string> {
+    const chain = getChain(chainName);
+    return { USDC: chain.usdcAddress, ...chain.tokens };
+}
 
 // =============================================================================
 // ABIs (Minimal for our use case)
@@ -56,6 +52,10 @@ const PERMIT2_ABI = [
     'function allowance(address user, address token, address spender) external view returns (uint160 amount, uint48 expiration, uint48 nonce)',
 ];
 
+const WETH_ABI = [
+    'function withdraw(uint256 wad) external',
+];
+
 const ERC20_ABI = [
     'function approve(address spender, uint256 amount) external returns (bool)',
     'function allowance(address owner, address spender) external view returns (uint256)',
@@ -95,16 +95,9 @@ export interface QuoteResult {
 // Wallet Management
 // =============================================================================
 
-const walletCache = new Map<string, ethers.Wallet>();
-
+// Wallets are connected to the healthiest endpoint of the shared provider pool
 function getWallet(chain: ChainConfig): ethers.Wallet {
-    const cached = walletCache.get(chain.name);
-    if (cached) return cached;
-
-    const provider = new ethers.JsonRpcProvider(chain.rpcUrl);
-    const wallet = new ethers.Wallet(getPrivateKey(), provider);
-    walletCache.set(chain.name, wallet);
-    return wallet;
+    return new ethers.Wallet(getPrivateKey(), getProvider(chain));
 }
 
 // =============================================================================
@@ -112,14 +105,15 @@ function getWallet(chain: ChainConfig): ethers.Wallet {
 // =============================================================================
 
 export function isSwapSupported(chainName: ChainName): boolean {
-    return SWAP_SUPPORTED_CHAINS.includes(chainName);
+    return CHAINS[chainName]?.uniswap !== undefined;
 }
 
-export function getUniswapAddresses(chainName: ChainName) {
-    if (!isSwapSupported(chainName)) {
+export function getUniswapAddresses(chainName: ChainName): UniswapAddresses {
+    const addresses = CHAINS[chainName]?.uniswap;
+    if (!addresses) {
         throw new Error(`Uniswap v4 not supported on ${chainName}`);
     }
-    return UNISWAP_V4_ADDRESSES[chainName];
+    return addresses;
 }
 
 // =============================================================================
@@ -141,7 +135,7 @@ export async function getQuote(
     const wallet = getWallet(chain);
 
     const quoter = new ethers.Contract(
-        addresses!.quoterV2,
+        addresses.quoterV2,
         QUOTER_V2_ABI,
         wallet
     );
@@ -235,8 +229,8 @@ export async function executeSwap(
     logger.info('═'.repeat(60));
     logger.info(`Token In: ${params.tokenIn}`);
     logger.info(`Token Out: ${params.tokenOut}`);
-    logger.info(`Amount In: ${ethers.formatUnits(params.amountIn, 6)}`);
-    logger.info(`Min Amount Out: ${ethers.formatUnits(params.minAmountOut, 6)}`);
+    logger.info(`Amount In: ${await formatTokenAmount(chain, params.tokenIn, params.amountIn)}`);
+    logger.info(`Min Amount Out: ${await formatTokenAmount(chain, params.tokenOut, params.minAmountOut)}`);
     logger.info(`Chain: ${chain.name}`);
     logger.info('═'.repeat(60));
 
@@ -254,13 +248,13 @@ export async function executeSwap(
         await ensureApproval(
             chain,
             params.tokenIn,
-            addresses!.permit2,
+            addresses.permit2,
             params.amountIn
         );
 
         // Step 2: Approve Universal Router via Permit2
         const permit2 = new ethers.Contract(
-            addresses!.permit2,
+            addresses.permit2,
             PERMIT2_ABI,
             wallet
         );
@@ -268,7 +262,7 @@ export async function executeSwap(
         const expiration = Math.floor(Date.now() / 1000) + 86400; // 24 hours
         const permit2Tx = await permit2.getFunction('approve')(
             params.tokenIn,
-            addresses!.universalRouter,
+            addresses.universalRouter,
             params.amountIn,
             expiration
         );
@@ -292,7 +286,7 @@ export async function executeSwap(
         );
 
         const router = new ethers.Contract(
-            addresses!.universalRouter,
+            addresses.universalRouter,
             UNIVERSAL_ROUTER_ABI,
             wallet
         );
@@ -354,9 +348,9 @@ export async function getSwapQuoteWithSlippage(
     const minAmountOut = calculateMinAmountOut(quote.amountOut, slippageBps);
 
     logger.info('Quote received', {
-        amountIn: amountIn.toString(),
-        expectedAmountOut: quote.amountOut.toString(),
-        minAmountOut: minAmountOut.toString(),
+        amountIn: await formatTokenAmount(chain, tokenIn, amountIn),
+        expectedAmountOut: await formatTokenAmount(chain, tokenOut, quote.amountOut),
+        minAmountOut: await formatTokenAmount(chain, tokenOut, minAmountOut),
         slippageBps,
     });
 
@@ -408,13 +402,75 @@ export async function swapToUSDC(
     }
 }
 
+/**
+ * Wrapped native token of a chain (the profile's WETH), if configured
+ */
+export function getWrappedNative(chain: ChainConfig): string | undefined {
+    return chain.tokens?.['WETH'];
+}
+
+/**
+ * Buy native gas with USDC: swap USDC to WETH, then unwrap it
+ */
+export async function swapUSDCToNative(
+    chain: ChainConfig,
+    usdcAmount: bigint,
+    slippageBps = 100,
+    dryRun = false
+): Promise<SwapResult> {
+    const weth = getWrappedNative(chain);
+    if (!isSwapSupported(chain.name) || !weth) {
+        return {
+            success: false,
+            error: `Native gas swaps not supported on ${chain.name}`,
+        };
+    }
+
+    try {
+        const { minAmountOut } = await getSwapQuoteWithSlippage(
+            chain,
+            chain.usdcAddress,
+            weth,
+            usdcAmount,
+            slippageBps
+        );
+
+        const result = await executeSwap(chain, {
+            tokenIn: chain.usdcAddress,
+            tokenOut: weth,
+            amountIn: usdcAmount,
+            minAmountOut,
+            fee: 3000,
+        }, dryRun);
+        if (!result.success || dryRun) {
+            return result;
+        }
+
+        // Unwrap the guaranteed amount so it can pay for gas
+        const wrapped = new ethers.Contract(weth, WETH_ABI, getWallet(chain));
+        const tx = await wrapped.getFunction('withdraw')(minAmountOut);
+        await tx.wait();
+        logger.info('⛽ Unwrapped WETH to native gas', {
+            amount: ethers.formatEther(minAmountOut),
+            txHash: tx.hash,
+        });
+
+        return result;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+            success: false,
+            error: errorMessage,
+        };
+    }
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
 
 export {
-    UNISWAP_V4_ADDRESSES,
-    TOKENS,
-    SWAP_SUPPORTED_CHAINS,
+    getTokens,
+    getSwapSupportedChains,
     getWallet as getSwapWallet,
 };
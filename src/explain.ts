@@ -0,0 +1,167 @@
+/**
+ * RebalanceX Plan Explanations
+ * Projected before/after allocation of a cycle and the rationale of each of
+ * its actions, in the log and as JSON for review tools
+ */
+
+import { effectiveBalance } from './monitor.js';
+import { logger } from './logger.js';
+import type { PlanAction } from './plan.js';
+import { appendJsonLine, dataPath } from './store.js';
+import { formatValue } from './tokens.js';
+import type {
+    ActionRationale,
+    ChainBalance,
+    ChainName,
+    Deviation,
+    RebalanceAction,
+    SizeConstraint,
+} from './types.js';
+
+const EXPLANATIONS_FILE = 'explanations.jsonl';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AllocationProjection {
+    chain: ChainName;
+    before: bigint;           // value units counted toward the allocation
+    after: bigint;            // once the actions have run; transfers count from their burn
+    beforePct: number;
+    afterPct: number;
+    targetPct: number;
+}
+
+export interface CycleExplanation {
+    cycleId: string;
+    explainedAt: number;      // epoch ms
+    target: string;
+    projection: AllocationProjection[];
+    actions: PlanAction[];    // with their rationale
+}
+
+const CONSTRAINTS: Record<SizeConstraint, string> = {
+    target: 'target',
+    band: 'inner band',
+    correction: 'partial correction',
+    floor: 'floor',
+    ceiling: 'ceiling',
+    spendable: 'spendable balance',
+    shortfall: 'USDC shortfall',
+    'token-balance': 'token balance',
+    'gas-floor': 'gas floor',
+    'max-transfer': '--max-transfer',
+    'max-cycle': '--max-cycle',
+    'daily-chain': '--max-daily-chain',
+    'daily-route': '--max-daily-route',
+};
+
+// =============================================================================
+// Projection
+// =============================================================================
+
+function percentages(amounts: bigint[]): number[] {
+    const total = amounts.reduce((sum, a) => sum + a, 0n);
+    return amounts.map((a) => (total > 0n ? Number((a * 10000n) / total) / 100 : 0));
+}
+
+/**
+ * Allocation of each chain before and after the actions. Transfers move their
+ * amount less any protocol fee; swaps add USDC unless their tokens were already
+ * counted (total value basis). Gas top-ups are already reserved out of `state`.
+ */
+export function projectAllocations(
+    state: ChainBalance[],
+    deviations: Deviation[],
+    actions: RebalanceAction[]
+): AllocationProjection[] {
+    const before = new Map(state.map((b) => [b.chain, effectiveBalance(b)]));
+    const after = new Map(before);
+    const move = (chain: ChainName, amount: bigint): void => {
+        after.set(chain, (after.get(chain) ?? 0n) + amount);
+    };
+
+    for (const action of actions) {
+        if (action.type === 'transfer') {
+            move(action.from.name, -action.amount);
+            move(action.to.name, action.amount - (action.cost?.protocolFee ?? 0n));
+        } else if (action.type === 'swap' && state.find((b) => b.chain === action.from.name)?.tokenValue === undefined) {
+            move(action.from.name, action.amount);
+        }
+    }
+
+    const chains = state.map((b) => b.chain);
+    const beforePct = percentages(chains.map((c) => before.get(c)!));
+    const afterPct = percentages(chains.map((c) => after.get(c)!));
+    return chains.map((chain, i) => ({
+        chain,
+        before: before.get(chain)!,
+        after: after.get(chain)!,
+        beforePct: beforePct[i]!,
+        afterPct: afterPct[i]!,
+        targetPct: deviations.find((d) => d.chain === chain)?.target ?? 0,
+    }));
+}
+
+// =============================================================================
+// Rationale
+// =============================================================================
+
+/**
+ * One line on why an action was planned, what sized it and what else was considered
+ */
+export function describeRationale(rationale: ActionRationale): string {
+    const { trigger, limitedBy, alternatives } = rationale;
+    let why: string;
+    switch (trigger.reason) {
+        case 'threshold':
+            why = trigger.deviation === undefined
+                ? `${trigger.chain} beyond threshold`
+                : `${trigger.chain} ${trigger.deviation > 0 ? '+' : ''}${trigger.deviation.toFixed(2)}% beyond ±${trigger.threshold}%`;
+            break;
+        case 'floor':
+            why = `${trigger.chain} below its floor`;
+            break;
+        case 'ceiling':
+            why = `${trigger.chain} above its max`;
+            break;
+        case 'gas':
+            why = `${trigger.chain} gas below its floor`;
+            break;
+    }
+
+    const parts = [why, `sized by ${limitedBy.chain} ${CONSTRAINTS[limitedBy.constraint]}`];
+    if (alternatives.length > 0) {
+        parts.push(`also considered ${alternatives.map((a) => {
+            const cost = a.costBps !== undefined ? ` ${a.costBps} bps` : '';
+            const used = a.amount > 0n ? `sends ${formatValue(a.amount)} USDC` : 'unused';
+            return `${a.from} → ${a.to}${cost} (${used})`;
+        }).join(', ')}`);
+    }
+    return parts.join('; ');
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+export function printProjection(projection: AllocationProjection[]): void {
+    const chainWidth = Math.max(5, ...projection.map((p) => p.chain.length));
+    logger.info('\n📐 Projected allocation:');
+    logger.info(`${'CHAIN'.padEnd(chainWidth)}  BEFORE %  AFTER %  TARGET %  ${'BEFORE'.padStart(13)}  ${'AFTER'.padStart(13)}`);
+    logger.info('─'.repeat(chainWidth + 59));
+    for (const p of projection) {
+        logger.info(
+            `${p.chain.padEnd(chainWidth)}  ${p.beforePct.toFixed(2).padStart(8)}  ${p.afterPct.toFixed(2).padStart(7)}  ` +
+            `${p.targetPct.toFixed(2).padStart(8)}  ${formatValue(p.before).padStart(13)}  ${formatValue(p.after).padStart(13)}`
+        );
+    }
+}
+
+/**
+ * Append a cycle's explanation to the explanations history
+ */
+export function recordExplanation(explanation: CycleExplanation): void {
+    appendJsonLine(dataPath(EXPLANATIONS_FILE), explanation);
+}
@@ -0,0 +1,119 @@
+/**
+ * RebalanceX CCTP Fees
+ * Live Fast Transfer fee quotes from Circle's Iris API, the maxFee a burn
+ * allows and the fee a minted message actually charged
+ */
+
+import { ethers } from 'ethers';
+import { getAttestationApiUrl } from './config.js';
+import type { ChainConfig, TransferMode } from './types.js';
+
+export const TRANSFER_MODES: TransferMode[] = ['standard', 'fast'];
+
+// depositForBurn minFinalityThreshold: 1000 attests at soft (confirmed) finality, 2000 waits for hard finality
+export const FINALITY_THRESHOLDS: Record<TransferMode, number> = { fast: 1000, standard: 2000 };
+
+// Fast transfers are attested within seconds of the burn being confirmed
+export const FAST_ATTESTATION_SECONDS = 20;
+
+// Fees change with demand; reuse a quote for this long
+const FEE_QUOTE_TTL_MS = 60 * 1000;
+
+// maxFee headroom over the quoted fee, so a fee rising between quote and burn does not fall back to standard
+const MAX_FEE_BUFFER_PCT = 20;
+
+const QUOTE_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// Minimum fee per finality threshold, in basis points of the amount burned
+export interface FeeQuote {
+    fastBps: number;
+    standardBps: number;
+    quotedAt: number;         // epoch ms
+}
+
+// Fields of an attested CCTP V2 message that say how it was settled
+export interface SettledMessage {
+    finalityThresholdExecuted: number;
+    feeExecuted: bigint;      // burn token units
+}
+
+// Latest quote per route ("fromDomain:toDomain")
+const feeQuotes = new Map<string, FeeQuote>();
+
+// =============================================================================
+// Fee Quotes
+// =============================================================================
+
+/**
+ * Current CCTP fees of a route: GET /v2/burn/USDC/fees/{source}/{destination}
+ * returns the minimum fee for each finality threshold
+ */
+export async function getFeeQuote(from: ChainConfig, to: ChainConfig): Promise<FeeQuote> {
+    const key = `${from.cctpDomain}:${to.cctpDomain}`;
+    const cached = feeQuotes.get(key);
+    if (cached && Date.now() - cached.quotedAt < FEE_QUOTE_TTL_MS) return cached;
+
+    const url = `${getAttestationApiUrl()}/v2/burn/USDC/fees/${from.cctpDomain}/${to.cctpDomain}`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(QUOTE_TIMEOUT_MS) });
+    if (!response.ok) {
+        throw new Error(`Fee quote for ${from.name} → ${to.name} failed: HTTP ${response.status}`);
+    }
+
+    const fees = await response.json() as Array<{ finalityThreshold?: number; minimumFee?: number }>;
+    const feeAt = (threshold: number): number | undefined => {
+        const fee = Array.isArray(fees) ? fees.find((f) => f.finalityThreshold === threshold)?.minimumFee : undefined;
+        return typeof fee === 'number' && fee >= 0 ? fee : undefined;
+    };
+    const fastBps = feeAt(FINALITY_THRESHOLDS.fast);
+    if (fastBps === undefined) {
+        throw new Error(`Fee quote for ${from.name} → ${to.name} has no fast transfer fee`);
+    }
+
+    const quote = { fastBps, standardBps: feeAt(FINALITY_THRESHOLDS.standard) ?? 0, quotedAt: Date.now() };
+    feeQuotes.set(key, quote);
+    return quote;
+}
+
+/**
+ * Fee on `amount` at `bps` basis points (fractional bps allowed), rounded up
+ */
+export function feeFor(amount: bigint, bps: number): bigint {
+    const hundredthsOfBps = BigInt(Math.round(bps * 100));
+    return (amount * hundredthsOfBps + 999_999n) / 1_000_000n;
+}
+
+/**
+ * maxFee for a fast burn of `amount`: the quoted fee with some headroom
+ */
+export function maxFeeFor(amount: bigint, bps: number): bigint {
+    return feeFor(amount, bps * (1 + MAX_FEE_BUFFER_PCT / 100));
+}
+
+// =============================================================================
+// Attested Messages
+// =============================================================================
+
+// MessageV2 header: version, source and destination domains, nonce, sender,
+// recipient, destinationCaller, minFinalityThreshold, finalityThresholdExecuted
+const FINALITY_EXECUTED_OFFSET = 144;
+const MESSAGE_BODY_OFFSET = 148;
+// BurnMessageV2 body: version, burnToken, mintRecipient, amount, messageSender, maxFee, feeExecuted
+const FEE_EXECUTED_OFFSET = MESSAGE_BODY_OFFSET + 164;
+
+/**
+ * Read the finality a message was attested at and the fee deducted from its mint
+ */
+export function parseSettledMessage(message: string): SettledMessage {
+    const bytes = ethers.getBytes(message);
+    if (bytes.length < FEE_EXECUTED_OFFSET + 32) {
+        throw new Error(`Message too short for a CCTP V2 burn message: ${bytes.length} bytes`);
+    }
+    return {
+        finalityThresholdExecuted: Number(ethers.toBigInt(bytes.slice(FINALITY_EXECUTED_OFFSET, MESSAGE_BODY_OFFSET))),
+        feeExecuted: ethers.toBigInt(bytes.slice(FEE_EXECUTED_OFFSET, FEE_EXECUTED_OFFSET + 32)),
+    };
+}
@@ -0,0 +1,218 @@
+/**
+ * RebalanceX Gas Monitor
+ * Native gas balances, floors and runway of the rebalancer wallet,
+ * with USDC → native top-ups where Uniswap is available
+ */
+
+import { ethers } from 'ethers';
+import { getChain } from './config.js';
+import { getNativeBalance } from './executors/arc.js';
+import { getQuote, getWrappedNative, isSwapSupported } from './executors/uniswap.js';
+import { logger } from './logger.js';
+import { spendableBalance } from './monitor.js';
+import { withProvider } from './providers.js';
+import { getTokenDecimals, toValueUnits } from './tokens.js';
+import type {
+    ChainBalance,
+    ChainConfig,
+    ChainName,
+    GasStatus,
+    GasTopUpAction,
+    RebalanceAction,
+} from './types.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Typical gas units of each step of a CCTP transfer
+export const APPROVE_GAS_UNITS = 60_000n;
+export const BURN_GAS_UNITS = 200_000n;
+export const MINT_GAS_UNITS = 250_000n;
+
+// Gas units of one transfer touching a chain: approve + depositForBurn + receiveMessage
+export const TRANSFER_GAS_UNITS = APPROVE_GAS_UNITS + BURN_GAS_UNITS + MINT_GAS_UNITS;
+
+// Gas units of a top-up: Permit2 approvals, the swap and the WETH unwrap
+export const TOP_UP_GAS_UNITS = 450_000n;
+
+// Without a configured gasFloor, keep enough gas for this many transfers
+export const DEFAULT_FLOOR_TRANSFERS = 3n;
+
+// Top-ups refill the balance to this multiple of the floor
+export const TOP_UP_MULTIPLIER = 2n;
+
+// Slippage allowed when buying gas; the USDC spent is sized for the worst case
+export const TOP_UP_SLIPPAGE_BPS = 100;
+
+// =============================================================================
+// Gas Status
+// =============================================================================
+
+/**
+ * Evaluate a chain's gas balance against its floor and estimate its runway
+ */
+export function evaluateGas(
+    chain: ChainConfig,
+    balance: bigint,
+    gasPrice: bigint
+): GasStatus {
+    const transferCost = TRANSFER_GAS_UNITS * gasPrice;
+    const floor = chain.gasFloor ?? DEFAULT_FLOOR_TRANSFERS * transferCost;
+    return {
+        chain: chain.name,
+        balance,
+        floor,
+        gasPrice,
+        runway: transferCost > 0n ? Number(balance / transferCost) : Infinity,
+        belowFloor: balance < floor,
+    };
+}
+
+/**
+ * Read the wallet's native balance and the gas price on each chain
+ */
+export async function checkGas(chains: ChainName[]): Promise<GasStatus[]> {
+    return Promise.all(chains.map(async (chainName) => {
+        const chain = getChain(chainName);
+        try {
+            const [balance, feeData] = await Promise.all([
+                getNativeBalance(chain),
+                withProvider(chain, (provider) => provider.getFeeData(), 'Fee data read'),
+            ]);
+            return evaluateGas(chain, balance, feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn(`Could not read gas balance on ${chainName}`, { error: message });
+            return {
+                chain: chainName,
+                balance: 0n,
+                floor: chain.gasFloor ?? 0n,
+                gasPrice: 0n,
+                runway: 0,
+                belowFloor: false,
+                error: message,
+            };
+        }
+    }));
+}
+
+// =============================================================================
+// Top-Ups & Blocking
+// =============================================================================
+
+/**
+ * Plan USDC → native top-ups for chains below their gas floor. Chains that
+ * cannot be topped up (no Uniswap/WETH, too little gas to swap, too little
+ * USDC) are returned as blocked, and so are chains whose gas balance is unknown.
+ */
+export async function planGasTopUps(
+    statuses: GasStatus[],
+    balances: ChainBalance[]
+): Promise<{ topUps: GasTopUpAction[]; blocked: ChainName[] }> {
+    const topUps: GasTopUpAction[] = [];
+    const blocked: ChainName[] = [];
+
+    // An unread balance may well be empty: nothing that needs gas there runs this cycle
+    for (const status of statuses.filter((s) => s.error !== undefined)) {
+        logger.warn(`⛽ ${status.chain}: gas balance unknown; actions that need gas there are blocked`);
+        blocked.push(status.chain);
+    }
+
+    for (const status of statuses.filter((s) => s.belowFloor)) {
+        const chain = getChain(status.chain);
+        const weth = getWrappedNative(chain);
+        if (!isSwapSupported(chain.name) || !weth) {
+            logger.warn(`⛽ ${chain.name} is below its gas floor and cannot be topped up automatically`);
+            blocked.push(chain.name);
+            continue;
+        }
+        if (status.balance < TOP_UP_GAS_UNITS * status.gasPrice) {
+            logger.warn(`⛽ ${chain.name} does not have enough gas left to swap for more`);
+            blocked.push(chain.name);
+            continue;
+        }
+
+        try {
+            const nativeAmount = status.floor * TOP_UP_MULTIPLIER - status.balance;
+            // Price the native amount in USDC, then allow for slippage on the way back
+            const quote = await getQuote(chain, weth, chain.usdcAddress, nativeAmount);
+            const usdcValue = toValueUnits(quote.amountOut, await getTokenDecimals(chain, chain.usdcAddress));
+            const amount = (usdcValue * 10000n) / BigInt(10000 - TOP_UP_SLIPPAGE_BPS) + 1n;
+
+            const balance = balances.find((b) => b.chain === chain.name);
+            if (!balance || spendableBalance(balance) < amount) {
+                logger.warn(`⛽ ${chain.name} does not hold enough USDC to buy gas`);
+                blocked.push(chain.name);
+                continue;
+            }
+            topUps.push({
+                from: chain,
+                amount,
+                nativeAmount,
+                type: 'gasTopUp',
+                rationale: {
+                    trigger: { chain: chain.name, reason: 'gas' },
+                    limitedBy: { chain: chain.name, constraint: 'gas-floor' },
+                    alternatives: [],
+                },
+            });
+        } catch (error) {
+            logger.warn(`⛽ Could not price a gas top-up on ${chain.name}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            blocked.push(chain.name);
+        }
+    }
+
+    return { topUps, blocked };
+}
+
+/**
+ * Chains an action spends gas on
+ */
+export function chainsNeedingGas(action: RebalanceAction): ChainName[] {
+    return action.type === 'transfer'
+        ? [action.from.name, action.to.name]
+        : [action.from.name];
+}
+
+/**
+ * Split actions into those that can run and those that need gas on a blocked chain
+ */
+export function blockActionsWithoutGas<T extends RebalanceAction>(
+    actions: T[],
+    blocked: ChainName[]
+): { allowed: T[]; blockedActions: T[] } {
+    const allowed: T[] = [];
+    const blockedActions: T[] = [];
+    for (const action of actions) {
+        const needsBlockedChain = chainsNeedingGas(action).some((c) => blocked.includes(c));
+        (needsBlockedChain ? blockedActions : allowed).push(action);
+    }
+    return { allowed, blockedActions };
+}
+
+/**
+ * Reserve the USDC spent on top-ups so transfers planned in the same cycle do not count on it
+ */
+export function reserveTopUps(balances: ChainBalance[], topUps: GasTopUpAction[]): ChainBalance[] {
+    return balances.map((b) => {
+        const spent = topUps
+            .filter((t) => t.from.name === b.chain)
+            .reduce((sum, t) => sum + t.amount, 0n);
+        return spent === 0n ? b : { ...b, spendable: spendableBalance(b) - spent };
+    });
+}
+
+/**
+ * One-line gas summary for a chain
+ */
+export function formatGasStatus(status: GasStatus): string {
+    if (status.error !== undefined) {
+        return `${status.chain}: gas balance unknown (${status.error})`;
+    }
+    const flag = status.belowFloor ? '⚠️ below floor' : 'ok';
+    return `${status.chain}: ${ethers.formatEther(status.balance)} native, ` +
+        `runway ~${status.runway} transfer(s), floor ${ethers.formatEther(status.floor)} [${flag}]`;
+}
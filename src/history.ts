@@ -0,0 +1,397 @@
+/**
+ * RebalanceX History Store
+ * Append-only JSONL record of every balance snapshot and the actions each cycle produced
+ */
+
+import { randomUUID } from 'node:crypto';
+import { writeFileSync } from 'node:fs';
+import { logger } from './logger.js';
+import { appendJsonLine, dataPath, readJsonFile, readJsonLines, writeJsonFile } from './store.js';
+import { formatValue } from './tokens.js';
+import type {
+    BalanceStatus,
+    ChainBalance,
+    ChainName,
+    Deviation,
+    NetworkName,
+    RebalanceAction,
+    TransferMode,
+} from './types.js';
+
+const SNAPSHOTS_FILE = 'snapshots.jsonl';
+const ACTIONS_FILE = 'actions.jsonl';
+const PERIODIC_FILE = 'periodic.json';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChainSnapshot {
+    chain: ChainName;
+    balance: bigint;          // settled USDC (value units)
+    inTransit: bigint;
+    tokenValue: bigint;       // other tokens counted toward the allocation
+    percentage: number;
+    target: number;
+    deviation: number;
+    status: BalanceStatus;
+    blockNumber?: number;
+    blockTimestamp?: number;
+}
+
+export interface Snapshot {
+    cycleId: string;
+    takenAt: number;          // epoch ms
+    network: NetworkName;
+    chains: ChainSnapshot[];
+}
+
+export type ActionOutcome = 'executed' | 'failed' | 'skipped' | 'blocked' | 'deferred' | 'dry-run';
+
+export interface ActionRecord {
+    cycleId: string;
+    recordedAt: number;       // epoch ms
+    network: NetworkName;
+    type: RebalanceAction['type'];
+    from: ChainName;
+    to?: ChainName;
+    token?: string;
+    amount: bigint;           // value units
+    outcome: ActionOutcome;
+    txHash?: string;
+    mode?: TransferMode;      // transfers: as planned, or as burned once executed
+    feePaid?: bigint;         // transfers: CCTP fee deducted from the mint (value units)
+    transferId?: string;      // transfers: journal id; a resume records the same transfer again
+    error?: string;
+}
+
+export interface ChainDrift {
+    chain: ChainName;
+    firstPercentage: number;
+    lastPercentage: number;
+    maxAbsDeviation: number;
+    avgAbsDeviation: number;
+    samples: number;
+}
+
+export interface HistoryRange {
+    since?: number;           // epoch ms, inclusive
+    until?: number;           // epoch ms, inclusive
+    network?: NetworkName;    // only records of this network
+}
+
+export type Stored<T> = { [K in keyof T]: T[K] extends bigint ? string : T[K] };
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Identifier tying a cycle's snapshot to the actions it produced
+ */
+export function newCycleId(): string {
+    return randomUUID();
+}
+
+/**
+ * Capture balances and their deviations from target as a snapshot
+ */
+export function buildSnapshot(
+    cycleId: string,
+    network: NetworkName,
+    balances: ChainBalance[],
+    deviations: Deviation[],
+    takenAt = Date.now()
+): Snapshot {
+    return {
+        cycleId,
+        takenAt,
+        network,
+        chains: balances.map((b) => {
+            const dev = deviations.find((d) => d.chain === b.chain);
+            const chain: ChainSnapshot = {
+                chain: b.chain,
+                balance: b.balance,
+                inTransit: b.inTransit ?? 0n,
+                tokenValue: b.tokenValue ?? 0n,
+                percentage: b.percentage,
+                target: dev?.target ?? 0,
+                deviation: dev?.deviation ?? 0,
+                status: b.status ?? 'ok',
+            };
+            if (b.blockNumber !== undefined) chain.blockNumber = b.blockNumber;
+            if (b.blockTimestamp !== undefined) chain.blockTimestamp = b.blockTimestamp;
+            return chain;
+        }),
+    };
+}
+
+/**
+ * Persist the state a cycle planned against
+ */
+export function recordSnapshot(
+    cycleId: string,
+    network: NetworkName,
+    balances: ChainBalance[],
+    deviations: Deviation[],
+    takenAt = Date.now()
+): Snapshot {
+    const snapshot = buildSnapshot(cycleId, network, balances, deviations, takenAt);
+    appendJsonLine(dataPath(SNAPSHOTS_FILE), snapshot);
+    return snapshot;
+}
+
+/**
+ * Build the history record of an action and its outcome
+ */
+export function toActionRecord(
+    cycleId: string,
+    action: RebalanceAction,
+    outcome: ActionOutcome,
+    detail: {
+        txHash?: string | undefined;
+        error?: string | undefined;
+        mode?: TransferMode | undefined;
+        feePaid?: bigint | undefined;
+        transferId?: string | undefined;
+    } = {}
+): ActionRecord {
+    const record: ActionRecord = {
+        cycleId,
+        recordedAt: Date.now(),
+        network: action.from.network,
+        type: action.type,
+        from: action.from.name,
+        amount: action.amount,
+        outcome,
+    };
+    if (action.type === 'transfer') record.to = action.to.name;
+    if (action.type === 'swap') record.token = action.token;
+    if (detail.txHash !== undefined) record.txHash = detail.txHash;
+    const mode = detail.mode ?? (action.type === 'transfer' ? action.mode : undefined);
+    if (mode !== undefined) record.mode = mode;
+    if (detail.feePaid !== undefined) record.feePaid = detail.feePaid;
+    if (detail.transferId !== undefined) record.transferId = detail.transferId;
+    if (detail.error !== undefined) record.error = detail.error;
+    return record;
+}
+
+export function recordActions(records: ActionRecord[]): void {
+    for (const record of records) {
+        appendJsonLine(dataPath(ACTIONS_FILE), record);
+    }
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function inRange(timestamp: number, network: NetworkName, range: HistoryRange): boolean {
+    return (range.since === undefined || timestamp >= range.since) &&
+        (range.until === undefined || timestamp <= range.until) &&
+        (range.network === undefined || network === range.network);
+}
+
+export type StoredSnapshot = Omit<Snapshot, 'chains'> & { chains: Stored<ChainSnapshot>[] };
+
+/**
+ * Convert a snapshot read from JSON back to bigint balances
+ */
+export function fromStoredSnapshot(stored: StoredSnapshot): Snapshot {
+    return {
+        ...stored,
+        chains: stored.chains.map((c) => ({
+            ...c,
+            balance: BigInt(c.balance),
+            inTransit: BigInt(c.inTransit),
+            tokenValue: BigInt(c.tokenValue),
+        })),
+    };
+}
+
+export function getSnapshots(range: HistoryRange = {}): Snapshot[] {
+    return readJsonLines<StoredSnapshot>(dataPath(SNAPSHOTS_FILE))
+        .filter((s) => inRange(s.takenAt, s.network, range))
+        .map(fromStoredSnapshot);
+}
+
+/**
+ * Recorded actions, oldest first. A transfer recorded again when it was resumed
+ * appears once: the latest outcome, at the place and time of its first record.
+ */
+export function getActionRecords(range: HistoryRange = {}): ActionRecord[] {
+    const records: ActionRecord[] = [];
+    const byTransfer = new Map<string, number>();
+    for (const stored of readJsonLines<Stored<ActionRecord>>(dataPath(ACTIONS_FILE))) {
+        const record: ActionRecord = {
+            ...stored,
+            amount: BigInt(stored.amount),
+            ...(stored.feePaid !== undefined && { feePaid: BigInt(stored.feePaid) }),
+        };
+        const index = record.transferId === undefined ? undefined : byTransfer.get(record.transferId);
+        if (index === undefined) {
+            if (record.transferId !== undefined) byTransfer.set(record.transferId, records.length);
+            records.push(record);
+        } else {
+            records[index] = { ...record, cycleId: records[index]!.cycleId, recordedAt: records[index]!.recordedAt };
+        }
+    }
+    return records.filter((a) => inRange(a.recordedAt, a.network, range));
+}
+
+/**
+ * When funds were last moved: the latest transfer with one of the given outcomes
+ */
+export function getLastTransferAt(outcomes: ActionOutcome[] = ['executed']): number | undefined {
+    return getActionRecords()
+        .filter((a) => a.type === 'transfer' && outcomes.includes(a.outcome))
+        .reduce<number | undefined>((last, a) => (last === undefined || a.recordedAt > last ? a.recordedAt : last), undefined);
+}
+
+// Last full periodic evaluation per network; dry runs are kept apart so they never delay a live run
+function periodicKey(network: NetworkName, dryRun: boolean): string {
+    return dryRun ? `${network}:dry-run` : network;
+}
+
+/**
+ * Remember when the periodic strategy last evaluated a full period, so a period
+ * with nothing worth sending still starts the next one
+ */
+export function recordPeriodicEvaluation(network: NetworkName, dryRun: boolean, at = Date.now()): void {
+    const path = dataPath(PERIODIC_FILE);
+    writeJsonFile(path, { ...readJsonFile<Record<string, number>>(path, {}), [periodicKey(network, dryRun)]: at });
+}
+
+/**
+ * When the periodic strategy last evaluated a full period; a dry run also sees live evaluations
+ */
+export function getLastPeriodicEvaluation(network: NetworkName, dryRun: boolean): number | undefined {
+    const stored = readJsonFile<Record<string, number>>(dataPath(PERIODIC_FILE), {});
+    const times = [stored[periodicKey(network, false)], ...(dryRun ? [stored[periodicKey(network, true)]] : [])]
+        .filter((t): t is number => t !== undefined);
+    return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Parse a history time bound: an ISO date/time or a relative age like "36h" or "7d"
+ */
+export function parseTimeBound(value: string, now = Date.now()): number {
+    const relative = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(value.trim());
+    if (relative) {
+        const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2] as 'm' | 'h' | 'd' | 'w'];
+        return now - parseFloat(relative[1]!) * unitMs;
+    }
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`Invalid time: ${value} (use an ISO date or an age like 24h / 7d)`);
+    }
+    return timestamp;
+}
+
+// =============================================================================
+// Analysis & Export
+// =============================================================================
+
+/**
+ * Allocation drift per chain over a series of snapshots (oldest first)
+ */
+export function summarizeDrift(snapshots: Snapshot[]): ChainDrift[] {
+    const byChain = new Map<ChainName, ChainSnapshot[]>();
+    for (const snapshot of snapshots) {
+        for (const chain of snapshot.chains) {
+            byChain.set(chain.chain, [...(byChain.get(chain.chain) ?? []), chain]);
+        }
+    }
+
+    return [...byChain.entries()].map(([chain, samples]) => {
+        const absDeviations = samples.map((s) => Math.abs(s.deviation));
+        return {
+            chain,
+            firstPercentage: samples[0]!.percentage,
+            lastPercentage: samples[samples.length - 1]!.percentage,
+            maxAbsDeviation: Math.max(...absDeviations),
+            avgAbsDeviation: absDeviations.reduce((a, b) => a + b, 0) / samples.length,
+            samples: samples.length,
+        };
+    });
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV row per chain per snapshot, with the actions of each cycle summarised
+ */
+export function toCsv(snapshots: Snapshot[], actions: ActionRecord[] = []): string {
+    const header = [
+        'taken_at', 'cycle_id', 'network', 'chain', 'status', 'balance_usdc', 'in_transit_usdc',
+        'token_value_usdc', 'percentage', 'target', 'deviation', 'block_number', 'block_timestamp', 'actions',
+    ];
+    const rows = snapshots.flatMap((s) => {
+        const cycleActions = actions
+            .filter((a) => a.cycleId === s.cycleId)
+            .map((a) => `${a.type}:${a.from}${a.to ? `->${a.to}` : ''}:${formatValue(a.amount)}:${a.outcome}`)
+            .join(' ');
+        return s.chains.map((c) => [
+            new Date(s.takenAt).toISOString(),
+            s.cycleId,
+            s.network,
+            c.chain,
+            c.status,
+            formatValue(c.balance),
+            formatValue(c.inTransit),
+            formatValue(c.tokenValue),
+            c.percentage,
+            c.target,
+            c.deviation.toFixed(2),
+            c.blockNumber,
+            c.blockTimestamp,
+            cycleActions,
+        ].map(csvField).join(','));
+    });
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function exportCsv(path: string, snapshots: Snapshot[], actions: ActionRecord[]): void {
+    writeFileSync(path, toCsv(snapshots, actions));
+    logger.info(`📄 Exported ${snapshots.length} snapshot(s) to ${path}`);
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+export function printSnapshots(snapshots: Snapshot[], actions: ActionRecord[]): void {
+    if (snapshots.length === 0) {
+        logger.info('No snapshots recorded in this range.');
+        return;
+    }
+    for (const s of snapshots) {
+        const allocation = s.chains
+            .map((c) => `${c.chain} ${c.percentage.toFixed(2)}% (${c.deviation > 0 ? '+' : ''}${c.deviation.toFixed(2)})`)
+            .join(', ');
+        logger.info(`${new Date(s.takenAt).toISOString()}  ${allocation}`);
+        for (const a of actions.filter((r) => r.cycleId === s.cycleId)) {
+            const route = a.to ? `${a.from} → ${a.to}` : a.from;
+            const token = a.token ? ` ${a.token}` : '';
+            const fee = a.feePaid ? `, fee ${formatValue(a.feePaid)} USDC` : '';
+            const mode = a.mode === 'fast' ? ` (fast${fee})` : '';
+            logger.info(`    ${a.outcome.padEnd(8)} ${a.type}${token} ${formatValue(a.amount)} USDC ${route}${mode}`);
+        }
+    }
+}
+
+export function printDrift(drift: ChainDrift[]): void {
+    const chainWidth = Math.max(5, ...drift.map((d) => d.chain.length));
+    logger.info('');
+    logger.info(`${'CHAIN'.padEnd(chainWidth)}  FIRST %   LAST %    MAX |DEV|  AVG |DEV|  SAMPLES`);
+    logger.info('─'.repeat(chainWidth + 50));
+    for (const d of drift) {
+        logger.info(
+            `${d.chain.padEnd(chainWidth)}  ${d.firstPercentage.toFixed(2).padStart(7)}  ${d.lastPercentage.toFixed(2).padStart(7)}  ` +
+            `${d.maxAbsDeviation.toFixed(2).padStart(9)}  ${d.avgAbsDeviation.toFixed(2).padStart(9)}  ${String(d.samples).padStart(7)}`
+        );
+    }
+}
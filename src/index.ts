@@ -5,12 +5,80 @@
 
 import { Command } from 'commander';
 import { ethers } from 'ethers';
-import { CHAINS, DEFAULT_THRESHOLD, DEFAULT_INTERVAL } from './config.js';
-import { getCurrentState } from './monitor.js';
-import { generateActions, parseTargetAllocation, needsRebalancing, calculateDeviations } from './engine.js';
-import { executeTransfer, getWalletAddress } from './executors/arc.js';
+import { CHAINS, DEFAULT_THRESHOLD, DEFAULT_INTERVAL, getChain, getNetwork, useNetwork } from './config.js';
+import { effectiveBalance, getCurrentState } from './monitor.js';
+import {
+    parseTargetAllocation,
+    calculateDeviations,
+    equalTargetAllocation,
+    getUnknownBalances,
+    SWAP_SLIPPAGE_BPS,
+    applyCostLimits,
+    checkTargetFeasibility,
+    totalCost,
+    PLANNERS,
+    chooseTransferModes,
+} from './engine.js';
+import { DEFAULT_ATTESTATION_SECONDS, estimateRouteWeights, priceTransfers } from './costs.js';
+import { executeTransfer, getWalletAddress, resumeTransfers } from './executors/arc.js';
+import { FAST_ATTESTATION_SECONDS, TRANSFER_MODES } from './fees.js';
+import { getUnfinishedTransfers } from './journal.js';
+import { swapToUSDC, swapUSDCToNative } from './executors/uniswap.js';
+import { doctorExitCode, runDoctor, printDoctorReport } from './doctor.js';
+import {
+    blockActionsWithoutGas,
+    chainsNeedingGas,
+    checkGas,
+    formatGasStatus,
+    planGasTopUps,
+    reserveTopUps,
+    TOP_UP_SLIPPAGE_BPS,
+} from './gas.js';
 import { logger } from './logger.js';
-import type { ChainName, AgentOptions } from './types.js';
+import { formatTokenAmount, formatValue, fromValueUnits, getTokenDecimals, VALUE_DECIMALS } from './tokens.js';
+import { findChainIdMismatches } from './providers.js';
+import { watchTransfers } from './watcher.js';
+import { applyRiskLimits, getLimitUsage, parseLimit, parseLimitTable, printLimitUsage } from './limits.js';
+import { loadTargetProfiles, selectProfile } from './profiles.js';
+import { createStrategy, STRATEGIES } from './strategies.js';
+import { checkPlanDrift, createPlan, fromPlanAction, readPlan, toPlanAction, writePlan } from './plan.js';
+import type { RebalancePlan } from './plan.js';
+import { describeRationale, printProjection, projectAllocations, recordExplanation } from './explain.js';
+import type { AllocationProjection } from './explain.js';
+import { backtestRoutes, loadSeries, printBacktestReport, runBacktest, syntheticSeries } from './backtest.js';
+import type { BacktestReport, BalancePoint } from './backtest.js';
+import {
+    buildSnapshot,
+    exportCsv,
+    getActionRecords,
+    getLastPeriodicEvaluation,
+    getLastTransferAt,
+    getSnapshots,
+    newCycleId,
+    parseTimeBound,
+    printDrift,
+    printSnapshots,
+    recordActions,
+    recordPeriodicEvaluation,
+    recordSnapshot,
+    summarizeDrift,
+    toActionRecord,
+} from './history.js';
+import type { ActionRecord, HistoryRange } from './history.js';
+import type {
+    ChainBalance,
+    ChainName,
+    ChainRegistry,
+    Deviation,
+    AgentOptions,
+    NetworkName,
+    RebalanceAction,
+    PlannerName,
+    StrategyName,
+    TransferAction,
+    TransferModePolicy,
+    ValueBasis,
+} from './types.js';
 
 const program = new Command();
 
@@ -19,12 +87,58 @@ program
     .name('rebalancex')
     .description('Autonomous multi-chain USDC treasury rebalancer')
     .version('1.0.0')
-    .option('-t, --target <allocation>', 'Target allocation percentages (e.g., "25,25,25,25")', '25,25,25,25')
+    .option('-t, --target <allocation>', 'Target allocation percentages by chain, each optionally with :min=, :max= or :reserve= in USDC (e.g., "arc=40:min=50000,sepolia=30,arbitrumSepolia=30:max=200000"), defaults to an equal split')
+    .option('--profiles <path>', 'JSON file of named target allocations and a cron schedule (UTC) choosing between them')
+    .option('--profile <name>', 'Always use this profile from --profiles instead of the schedule')
     .option('-T, --threshold <percent>', 'Rebalance threshold in %', String(DEFAULT_THRESHOLD))
+    .option('--band <percent>', 'Inner band in %: triggered chains are only brought back to this distance from target', '0')
     .option('-i, --interval <seconds>', 'Check interval in seconds', String(DEFAULT_INTERVAL))
+    .option('--max-balance-age <minutes>', 'Use the last known good balance for failed reads up to this age (0 = never)', '0')
+    .option('--value-basis <basis>', 'Apply targets to "usdc" balances or "total" value including other tokens', 'usdc')
+    .option('--planner <name>', 'Transfer planner: "min-cost" (route-aware) or "greedy"', 'min-cost')
+    .option('--strategy <name>', 'When to rebalance: "threshold", "periodic" or "proportional"', 'threshold')
+    .option('--period <hours>', 'Hours between rebalances with the periodic strategy', '24')
+    .option('--correction <percent>', 'Share of the deviation the proportional strategy corrects per cycle', '50')
+    .option('--min-transfer <usdc>', 'Smallest transfer worth sending', '1')
+    .option('--max-cost <percent>', 'Skip transfers whose estimated gas and fees exceed this % of the amount', '1')
+    .option('--max-transfer <usdc>', 'Largest single transfer')
+    .option('--max-cycle <usdc>', 'Most that one cycle may transfer in total')
+    .option('--max-daily-chain <limits>', 'Rolling 24h cap on transfers out of a chain: default and/or chain=usdc overrides (e.g., "100000,arc=50000")')
+    .option('--max-daily-route <limits>', 'Rolling 24h cap per route: default and/or from:to=usdc overrides (e.g., "50000,sepolia:arc=10000")')
+    .option('--transfer-mode <mode>', 'CCTP transfer speed: "standard", "fast" (soft finality, for a fee) or "auto" (fast when urgent)', 'standard')
+    .option('--urgent-deviation <percent>', 'Auto mode: deviation from target that makes a transfer urgent (default: twice --threshold)')
+    .option('--fast-max <usdc>', 'Auto mode: largest transfer sent fast')
     .option('-d, --dry-run', 'Simulate without executing transfers', false)
-    .option('-c, --chains <chains>', 'Comma-separated chain names', 'sepolia,polygonAmoy,arbitrumSepolia,arc')
-    .option('-o, --once', 'Run once and exit', false);
+    .option('-n, --network <network>', 'Network profile: testnet or mainnet', process.env['REBALANCEX_NETWORK'] ?? 'testnet')
+    .option('-c, --chains <chains>', 'Comma-separated chain names from the network profile (default: all)')
+    .option('-o, --once', 'Run once and exit', false)
+    .option('-w, --watch', 'Rebalance on USDC Transfer events; --interval becomes the heartbeat', false)
+    .option('--poll <seconds>', 'Transfer log polling interval in watch mode', '15')
+    .option('--debounce <seconds>', 'Quiet time after a material transfer before rebalancing', '15')
+    .option('--min-change <usdc>', 'Net USDC change on a chain that triggers a watch-mode cycle', '100');
+
+/**
+ * Strategy with its settings, for the banner
+ */
+function describeStrategy(options: AgentOptions): string {
+    switch (options.strategy) {
+        case 'periodic':
+            return `periodic (every ${options.period}h)`;
+        case 'proportional':
+            return `proportional (${options.correction}% per cycle)`;
+        default:
+            return options.strategy;
+    }
+}
+
+/**
+ * Transfer mode with its settings, for the banner
+ */
+function describeTransferMode(policy: TransferModePolicy): string {
+    if (policy.mode !== 'auto') return policy.mode;
+    const fastMax = policy.fastMax !== undefined ? ` up to ${formatValue(policy.fastMax)} USDC` : '';
+    return `auto (fast at ≥ ${policy.urgentDeviation}% from target or a breached floor/max${fastMax})`;
+}
 
 /**
  * Sleep helper
@@ -33,94 +147,373 @@ function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// What a cycle decided to do, before anything runs
+interface CyclePlan {
+    cycleId: string;
+    target: string;
+    balances: ChainBalance[];     // as read, before planning
+    deviations: Deviation[];
+    actions: RebalanceAction[];   // top-ups first
+    heldBack: ActionRecord[];     // blocked, uneconomic and deferred actions
+    projection: AllocationProjection[];
+    periodic: boolean;            // the periodic strategy evaluated a full period
+}
+
 /**
- * Main rebalancing cycle
+ * Read balances, report them and plan the cycle's actions. Undefined if the
+ * cycle has to be skipped.
  */
-async function rebalanceCycle(
+async function planCycle(
     walletAddress: string,
     chains: ChainName[],
     options: AgentOptions
-): Promise<boolean> {
+): Promise<CyclePlan | undefined> {
     logger.info('\n' + '─'.repeat(60));
     logger.info(`🔍 Checking balances at ${new Date().toISOString()}`);
     logger.info('─'.repeat(60));
 
     // Get current state
-    const currentState = await getCurrentState(walletAddress, chains);
+    const currentState = await getCurrentState(walletAddress, chains, {
+        maxBalanceAgeMs: options.maxBalanceAge * 60 * 1000,
+        valueBasis: options.valueBasis,
+    });
 
-    // Parse targets
-    const targets = parseTargetAllocation(options.target, chains);
+    // Gate on data quality: never rebalance while any chain's balance is unknown
+    const unknown = getUnknownBalances(currentState);
+    if (unknown.length > 0) {
+        logger.error(`\n❓ Balance unknown on ${unknown.join(', ')}; skipping this cycle.`);
+        return undefined;
+    }
+    for (const balance of currentState.filter((b) => b.status === 'stale')) {
+        logger.warn(`🕒 ${balance.chain}: using balance from ${new Date(balance.fetchedAt!).toISOString()}`);
+    }
+
+    // Gas: report runway, plan top-ups below the floor, block chains that cannot be topped up
+    const gas = await checkGas(chains);
+    logger.info('\n⛽ Gas:');
+    for (const status of gas) {
+        logger.info(`  ${formatGasStatus(status)}`);
+    }
+    const { topUps, blocked } = await planGasTopUps(gas, currentState);
+    const state = reserveTopUps(currentState, topUps);
+
+    // Risk limits: what has been sent over the last 24h, from the action history
+    const usage = getLimitUsage();
+    printLimitUsage(options.limits, usage, chains);
+
+    // Parse targets; floors, ceilings and reserves must fit the treasury
+    let target = options.target;
+    if (options.profiles) {
+        const scheduled = selectProfile(options.profiles);
+        logger.info(`\n🗓️  Profile: ${scheduled.name} (${scheduled.target})`);
+        target = scheduled.target;
+    }
+    const targets = parseTargetAllocation(target, chains);
+    const problems = checkTargetFeasibility(targets, state.reduce((sum, b) => sum + effectiveBalance(b), 0n));
+    if (problems.length > 0) {
+        logger.error('\n🚫 Targets cannot be met; skipping this cycle:');
+        problems.forEach((problem) => logger.error(`  • ${problem}`));
+        return undefined;
+    }
 
     // Calculate deviations
-    const deviations = calculateDeviations(currentState, targets);
+    const deviations = calculateDeviations(state, targets);
+    const cycleId = newCycleId();
 
     // Log current vs target
     logger.info('\n📊 Current vs Target Allocation:');
     for (const dev of deviations) {
-        const status = Math.abs(dev.deviation) > options.threshold ? '⚠️' : '✅';
+        const status = Math.abs(dev.deviation) > (dev.threshold ?? options.threshold) || dev.breach ? '⚠️' : '✅';
+        const breach = dev.breach ? ` ⛔ ${dev.breach === 'floor' ? 'below its floor' : 'above its max'}` : '';
+        const balance = state.find((b) => b.chain === dev.chain);
+        const settled = balance ? `${formatValue(balance.balance)} USDC settled` : '';
+        const inTransit = balance?.inTransit ? `, ${formatValue(balance.inTransit)} USDC in transit` : '';
+        const block = balance?.blockNumber !== undefined ? ` @ block ${balance.blockNumber}` : '';
         logger.info(
-            `  ${status} ${dev.chain}: ${dev.current.toFixed(2)}% → ${dev.target}% (${dev.deviation > 0 ? '+' : ''}${dev.deviation.toFixed(2)}%)`
+            `  ${status} ${dev.chain}: ${dev.current.toFixed(2)}% → ${Number(dev.target.toFixed(2))}% (${dev.deviation > 0 ? '+' : ''}${dev.deviation.toFixed(2)}%) [${settled}${inTransit}${block}]${breach}`
         );
+        // Per-address breakdown when the chain has more than the signer's address
+        if (balance?.holdings && balance.holdings.length > 1) {
+            for (const holding of balance.holdings) {
+                const name = holding.label ? `${holding.label} ${holding.address}` : holding.address;
+                const watchOnly = holding.watchOnly ? ' (watch-only)' : '';
+                logger.info(`      • ${name}: ${formatValue(holding.balance)} USDC${watchOnly}`);
+            }
+        }
+        for (const token of balance?.tokens ?? []) {
+            const amount = await formatTokenAmount(getChain(dev.chain), token.address, token.amount);
+            const value = token.value !== undefined ? `≈ ${formatValue(token.value)} USDC` : 'not valued';
+            const counted = balance?.tokenValue !== undefined ? '' : ', not in allocation';
+            logger.info(`      ◦ ${amount} ${token.symbol} (${value}${counted})`);
+        }
     }
 
-    // Check if rebalancing needed
-    if (!needsRebalancing(deviations, options.threshold)) {
-        logger.info('\n✅ Portfolio is balanced. No action needed.');
-        return false;
-    }
+    // The strategy decides whether to rebalance and plans the actions
+    const strategy = createStrategy(options.strategy, {
+        periodHours: options.period,
+        correction: options.correction / 100,
+    });
+    const lastRebalanceAt = getLastTransferAt(options.dryRun ? ['executed', 'dry-run'] : ['executed']);
+    const lastPeriodicAt = getLastPeriodicEvaluation(getNetwork(), options.dryRun);
+    const decision = await strategy.evaluate(state, targets, {
+        threshold: options.threshold,
+        band: options.band,
+        planner: options.planner,
+        now: Date.now(),
+        ...(lastRebalanceAt !== undefined && { lastRebalanceAt }),
+        ...(lastPeriodicAt !== undefined && { lastPeriodicAt }),
+        // Auto mode picks fast per transfer after planning; plan on standard routes
+        routeWeights: () => estimateRouteWeights(
+            chains.map(getChain),
+            options.transferMode.mode === 'fast' ? 'fast' : 'standard'
+        ),
+    });
+    let planned = decision.actions;
+    let uneconomic: RebalanceAction[] = [];
+    let deferred: RebalanceAction[] = [];
+    if (planned.length === 0) {
+        logger.info(`\n✅ No action needed (${strategy.name}: ${decision.reason}).`);
+    } else {
+        logger.info(`\n🔧 Rebalancing (${strategy.name}): ${decision.reason}`);
 
-    // Generate actions
-    logger.info('\n🔧 Generating rebalancing actions...');
-    const actions = generateActions(currentState, targets, options.threshold);
+        // Fast or standard per transfer, before pricing so fast fees count toward the cost
+        planned = chooseTransferModes(planned, options.transferMode);
 
-    if (actions.length === 0) {
-        logger.info('No actions generated.');
-        return false;
+        // Skip or merge transfers that cost more than they fix
+        ({ actions: planned, dropped: uneconomic } = applyCostLimits(await priceTransfers(planned), {
+            minTransfer: options.minTransfer,
+            maxCostPct: options.maxCostPct,
+        }));
+        if (uneconomic.length > 0) {
+            logger.info(`💸 Skipped ${uneconomic.length} action(s) below ${formatValue(options.minTransfer)} USDC or costing over ${options.maxCostPct}%`);
+        }
+
+        // Truncate or defer what would exceed the risk limits
+        const limited = applyRiskLimits(planned, options.limits, usage);
+        planned = limited.actions;
+        deferred = limited.deferred;
+        if (limited.truncated.length > 0 || deferred.length > 0) {
+            logger.warn(`🛡️  Risk limits: truncated ${limited.truncated.length}, deferred ${deferred.length} action(s)`);
+        }
+    }
+
+    // Never start actions that would run out of gas on the way
+    const { allowed, blockedActions } = blockActionsWithoutGas(planned, blocked);
+    for (const action of blockedActions) {
+        logger.warn(`⛽ Blocked ${action.type} on ${chainsNeedingGas(action).join(' → ')}: gas below floor or unknown`);
     }
 
-    // Log actions
+    const heldBack = [
+        ...blockedActions.map((action) => toActionRecord(cycleId, action, 'blocked')),
+        ...uneconomic.map((action) => toActionRecord(cycleId, action, 'skipped', { error: 'uneconomic' })),
+        ...deferred.map((action) => toActionRecord(cycleId, action, 'deferred', { error: 'risk limit' })),
+    ];
+
+    // Top-ups go first so the gas is there for everything after them
+    const actions = [...topUps, ...allowed];
+    return {
+        cycleId,
+        target,
+        balances: currentState,
+        deviations,
+        actions,
+        heldBack,
+        projection: projectAllocations(state, deviations, actions),
+        periodic: decision.periodic ?? false,
+    };
+}
+
+/**
+ * List the actions about to run
+ */
+async function logActions(actions: RebalanceAction[]): Promise<void> {
     logger.info(`\n📋 ${actions.length} action(s) to execute:`);
     for (const action of actions) {
-        logger.info(
-            `  • Transfer ${ethers.formatUnits(action.amount, 6)} USDC: ${action.from.name} → ${action.to.name}`
-        );
+        if (action.type === 'gasTopUp') {
+            logger.info(
+                `  • Top up gas: ${formatValue(action.amount)} USDC → ${ethers.formatEther(action.nativeAmount)} native on ${action.from.name}`
+            );
+        } else if (action.type === 'swap') {
+            const amountIn = await formatTokenAmount(action.from, action.tokenAddress, action.amountIn);
+            logger.info(
+                `  • Swap ${amountIn} ${action.token} → ≥ ${formatValue(action.amount)} USDC on ${action.from.name}`
+            );
+        } else {
+            const cost = action.cost ? `est. cost ${formatValue(action.cost.total)} USDC` : 'cost unknown';
+            logger.info(
+                `  • Transfer ${formatValue(action.amount)} USDC: ${action.from.name} → ${action.to.name} (${action.mode ?? 'standard'}, ${cost})`
+            );
+        }
+        if (action.rationale) {
+            logger.info(`      ↳ ${describeRationale(action.rationale)}`);
+        }
     }
+    if (actions.some((a) => a.type === 'transfer')) {
+        logger.info(`💸 Estimated transfer cost: ${formatValue(totalCost(actions))} USDC`);
+    }
+}
 
-    // Execute actions
-    if (options.dryRun) {
+/**
+ * Execute actions in order and record their outcomes, after the already
+ * decided `records`. Returns false if any action failed.
+ */
+async function executeActions(
+    cycleId: string,
+    actions: RebalanceAction[],
+    records: ActionRecord[],
+    dryRun: boolean
+): Promise<boolean> {
+    if (dryRun) {
         logger.info('\n🏃 [DRY RUN] Simulating execution...');
     } else {
         logger.info('\n🚀 Executing transfers...');
     }
 
     let hasError = false;
+    const failedSwapChains = new Set<ChainName>();
+    const failedTopUpChains = new Set<ChainName>();
+    const succeeded = dryRun ? 'dry-run' : 'executed';
     for (const action of actions) {
-        const result = await executeTransfer(action, options.dryRun);
+        if (chainsNeedingGas(action).some((c) => failedTopUpChains.has(c))) {
+            logger.warn(`⏭️  Skipping ${action.type} on ${action.from.name}: gas top-up failed`);
+            records.push(toActionRecord(cycleId, action, 'skipped', { error: 'gas top-up failed' }));
+            continue;
+        }
+
+        if (action.type === 'gasTopUp') {
+            const usdcAmount = fromValueUnits(
+                action.amount,
+                await getTokenDecimals(action.from, action.from.usdcAddress)
+            );
+            const result = await swapUSDCToNative(action.from, usdcAmount, TOP_UP_SLIPPAGE_BPS, dryRun);
+            if (!result.success) {
+                logger.error(`❌ Gas top-up on ${action.from.name} failed: ${result.error}`);
+                failedTopUpChains.add(action.from.name);
+                hasError = true;
+            }
+            records.push(toActionRecord(cycleId, action, result.success ? succeeded : 'failed', result));
+            continue;
+        }
+
+        if (action.type === 'swap') {
+            const result = await swapToUSDC(
+                action.from,
+                action.tokenAddress,
+                action.amountIn,
+                SWAP_SLIPPAGE_BPS,
+                dryRun
+            );
+            if (!result.success) {
+                logger.error(`❌ Swap of ${action.token} on ${action.from.name} failed: ${result.error}`);
+                failedSwapChains.add(action.from.name);
+                hasError = true;
+            }
+            records.push(toActionRecord(cycleId, action, result.success ? succeeded : 'failed', result));
+            continue;
+        }
+
+        // Transfers from a chain rely on its swaps having produced the USDC
+        if (failedSwapChains.has(action.from.name)) {
+            logger.warn(`⏭️  Skipping transfer from ${action.from.name}: swap to USDC failed`);
+            records.push(toActionRecord(cycleId, action, 'skipped', { error: 'swap to USDC failed' }));
+            continue;
+        }
+        const result = await executeTransfer(action, dryRun, cycleId);
         if (!result.success) {
             logger.error(`❌ Transfer failed: ${result.error}`);
             hasError = true;
         }
+        records.push(toActionRecord(cycleId, action, result.success ? succeeded : 'failed', {
+            txHash: result.mintTxHash ?? result.burnTxHash,
+            error: result.error,
+            mode: result.mode,
+            feePaid: result.feePaid,
+            transferId: result.transferId,
+        }));
     }
+    recordActions(records);
 
     return !hasError;
 }
 
 /**
- * Main entry point
+ * Finish transfers a previous run or cycle left between burn and mint before
+ * planning anything new, and record the outcome of those that finished
  */
-async function main(): Promise<void> {
-    program.parse();
-    const opts = program.opts();
+async function resumeInterruptedTransfers(dryRun: boolean): Promise<void> {
+    const unfinished = getUnfinishedTransfers(getNetwork());
+    if (unfinished.length === 0) return;
+    if (dryRun) {
+        logger.warn(`\n♻️  ${unfinished.length} unfinished transfer(s) from a previous run; a live run or the resume command finishes them`);
+        return;
+    }
 
-    const options: AgentOptions = {
-        target: opts['target'] as string,
-        threshold: parseFloat(opts['threshold'] as string),
-        interval: parseInt(opts['interval'] as string, 10),
-        dryRun: opts['dryRun'] as boolean,
-    };
+    logger.info(`\n♻️  Resuming ${unfinished.length} unfinished transfer(s)...`);
+    const records: ActionRecord[] = [];
+    for (const { transfer, result } of await resumeTransfers()) {
+        if (transfer.state !== 'minted' && transfer.state !== 'failed') continue;
+        const action: TransferAction = {
+            from: getChain(transfer.from),
+            to: getChain(transfer.to),
+            amount: transfer.amount,
+            type: 'transfer',
+            mode: transfer.mode,
+        };
+        records.push(toActionRecord(transfer.cycleId ?? 'resume', action, result.success ? 'executed' : 'failed', {
+            txHash: result.mintTxHash ?? result.burnTxHash,
+            error: result.error,
+            mode: result.mode,
+            feePaid: result.feePaid,
+            transferId: result.transferId,
+        }));
+    }
+    recordActions(records);
+}
 
-    const chainNames = (opts['chains'] as string).split(',') as ChainName[];
-    const runOnce = opts['once'] as boolean;
+/**
+ * Main rebalancing cycle
+ */
+async function rebalanceCycle(
+    walletAddress: string,
+    chains: ChainName[],
+    options: AgentOptions
+): Promise<boolean> {
+    // A transfer left unfinished, by a crash or a timed-out step, goes before anything new
+    await resumeInterruptedTransfers(options.dryRun);
+
+    const plan = await planCycle(walletAddress, chains, options);
+    if (!plan) return false;
+    recordSnapshot(plan.cycleId, getNetwork(), plan.balances, plan.deviations);
+    // The period restarts whether or not anything was worth sending
+    if (plan.periodic) recordPeriodicEvaluation(getNetwork(), options.dryRun);
+
+    if (plan.actions.length === 0) {
+        logger.info('No actions generated.');
+        recordActions(plan.heldBack);
+        return false;
+    }
+
+    await logActions(plan.actions);
+    printProjection(plan.projection);
+    recordExplanation({
+        cycleId: plan.cycleId,
+        explainedAt: Date.now(),
+        target: plan.target,
+        projection: plan.projection,
+        actions: plan.actions.map(toPlanAction),
+    });
+    return executeActions(plan.cycleId, plan.actions, [...plan.heldBack], options.dryRun);
+}
+
+/**
+ * Activate the network profile and resolve the selected chain names
+ */
+function resolveChains(opts: Record<string, unknown>): { profile: ChainRegistry; chainNames: ChainName[] } {
+    const profile = useNetwork(opts['network'] as NetworkName);
+
+    const chainNames = ((opts['chains'] as string | undefined) ?? Object.keys(CHAINS).join(','))
+        .split(',')
+        .map((c) => c.trim()) as ChainName[];
 
     // Validate chains
     for (const chain of chainNames) {
@@ -130,18 +523,352 @@ async function main(): Promise<void> {
         }
     }
 
+    return { profile, chainNames };
+}
+
+/**
+ * Exit unless every RPC endpoint of the chains serves the chain the registry names
+ */
+async function verifyChainIds(chainNames: ChainName[]): Promise<void> {
+    const mismatches = await findChainIdMismatches(chainNames.map(getChain));
+    if (mismatches.length > 0) {
+        logger.error('🚫 Refusing to run against RPC endpoints on the wrong chain:');
+        mismatches.forEach((mismatch) => logger.error(`  • ${mismatch}`));
+        process.exit(1);
+    }
+}
+
+/**
+ * Transfer mode policy from --transfer-mode, --urgent-deviation and --fast-max
+ */
+function resolveTransferMode(opts: Record<string, unknown>, threshold: number): TransferModePolicy {
+    const mode = opts['transferMode'] as TransferModePolicy['mode'];
+    if (mode !== 'auto' && !TRANSFER_MODES.includes(mode)) {
+        logger.error(`Unknown transfer mode: ${mode} (expected ${TRANSFER_MODES.join(', ')} or auto)`);
+        process.exit(1);
+    }
+    const urgent = opts['urgentDeviation'] as string | undefined;
+    const policy: TransferModePolicy = {
+        mode,
+        urgentDeviation: urgent === undefined ? 2 * threshold : parseFloat(urgent),
+    };
+    if (!(policy.urgentDeviation > 0)) {
+        logger.error(`--urgent-deviation must be above 0%, got ${urgent}`);
+        process.exit(1);
+    }
+    const fastMax = parseLimit(opts['fastMax'] as string | undefined, '--fast-max');
+    if (fastMax !== undefined) policy.fastMax = fastMax;
+    return policy;
+}
+
+/**
+ * Build and validate the agent options shared by the agent, plan and apply
+ */
+function resolveAgentOptions(opts: Record<string, unknown>, chainNames: ChainName[]): AgentOptions {
+    const options: AgentOptions = {
+        target: (opts['target'] as string | undefined) ?? equalTargetAllocation(chainNames),
+        threshold: parseFloat(opts['threshold'] as string),
+        band: parseFloat(opts['band'] as string),
+        interval: parseInt(opts['interval'] as string, 10),
+        dryRun: opts['dryRun'] as boolean,
+        maxBalanceAge: parseFloat(opts['maxBalanceAge'] as string),
+        valueBasis: opts['valueBasis'] as ValueBasis,
+        minTransfer: ethers.parseUnits(opts['minTransfer'] as string, VALUE_DECIMALS),
+        maxCostPct: parseFloat(opts['maxCost'] as string),
+        planner: opts['planner'] as PlannerName,
+        strategy: opts['strategy'] as StrategyName,
+        period: parseFloat(opts['period'] as string),
+        correction: parseFloat(opts['correction'] as string),
+        limits: {
+            dailyChain: parseLimitTable(opts['maxDailyChain'] as string | undefined, '--max-daily-chain', chainNames),
+            dailyRoute: parseLimitTable(opts['maxDailyRoute'] as string | undefined, '--max-daily-route', chainNames, true),
+        },
+        transferMode: resolveTransferMode(opts, parseFloat(opts['threshold'] as string)),
+    };
+    const maxTransfer = parseLimit(opts['maxTransfer'] as string | undefined, '--max-transfer');
+    const maxCycle = parseLimit(opts['maxCycle'] as string | undefined, '--max-cycle');
+    if (maxTransfer !== undefined) options.limits.maxTransfer = maxTransfer;
+    if (maxCycle !== undefined) options.limits.maxCycle = maxCycle;
+    if (options.valueBasis !== 'usdc' && options.valueBasis !== 'total') {
+        logger.error(`Unknown value basis: ${options.valueBasis} (expected usdc or total)`);
+        process.exit(1);
+    }
+    if (!(options.band >= 0 && options.band < options.threshold)) {
+        logger.error(`--band must be at least 0 and below --threshold (${options.threshold}%), got ${options.band}`);
+        process.exit(1);
+    }
+    if (!PLANNERS.includes(options.planner)) {
+        logger.error(`Unknown planner: ${options.planner} (expected ${PLANNERS.join(' or ')})`);
+        process.exit(1);
+    }
+    if (!STRATEGIES.includes(options.strategy)) {
+        logger.error(`Unknown strategy: ${options.strategy} (expected ${STRATEGIES.join(', ')})`);
+        process.exit(1);
+    }
+    if (!(options.period > 0)) {
+        logger.error(`--period must be above 0 hours, got ${options.period}`);
+        process.exit(1);
+    }
+    if (!(options.correction > 0 && options.correction <= 100)) {
+        logger.error(`--correction must be above 0 and at most 100%, got ${options.correction}`);
+        process.exit(1);
+    }
+    if (opts['profiles']) {
+        if (opts['target']) {
+            logger.error('Use either --target or --profiles, not both');
+            process.exit(1);
+        }
+        try {
+            const profiles = loadTargetProfiles(opts['profiles'] as string, chainNames);
+            const pinned = opts['profile'] as string | undefined;
+            if (pinned === undefined) {
+                options.profiles = profiles;
+            } else if (profiles.profiles[pinned] !== undefined) {
+                options.target = profiles.profiles[pinned];
+            } else {
+                logger.error(`Unknown profile: ${pinned} (expected ${Object.keys(profiles.profiles).join(', ')})`);
+                process.exit(1);
+            }
+        } catch (error) {
+            logger.error(error instanceof Error ? error.message : String(error));
+            process.exit(1);
+        }
+    } else if (opts['profile']) {
+        logger.error('--profile needs a --profiles file');
+        process.exit(1);
+    }
+
+    return options;
+}
+
+/**
+ * Doctor command: preflight checks before starting the daemon
+ */
+async function runDoctorCommand(): Promise<void> {
+    const { profile, chainNames } = resolveChains(program.opts());
+
+    logger.info(`🩺 RebalanceX doctor (${profile.network}): checking ${chainNames.join(', ')}`);
+
+    const checks = await runDoctor(chainNames.map(getChain));
+    printDoctorReport(checks);
+
+    process.exitCode = doctorExitCode(checks);
+}
+
+/**
+ * Resume command: finish interrupted transfers without starting the agent
+ */
+async function runResumeCommand(): Promise<void> {
+    const { profile, chainNames } = resolveChains(program.opts());
+    logger.info(`♻️  RebalanceX resume (${profile.network})`);
+    await verifyChainIds(chainNames);
+
+    await resumeInterruptedTransfers(false);
+
+    const remaining = getUnfinishedTransfers(profile.network);
+    if (remaining.length === 0) {
+        logger.info('No unfinished transfers.');
+        return;
+    }
+    for (const transfer of remaining) {
+        logger.warn(`  • ${formatValue(transfer.amount)} USDC ${transfer.from} → ${transfer.to}: ${transfer.state}${transfer.error ? ` (${transfer.error})` : ''}`);
+    }
+    process.exitCode = 1;
+}
+
+/**
+ * History command: list snapshots, show drift over a range, export CSV
+ */
+async function runHistoryCommand(cmdOpts: Record<string, unknown>): Promise<void> {
+    // Only the active network's history: testnet and mainnet share the data directory
+    const { profile } = resolveChains(program.opts());
+    const range: HistoryRange = { network: profile.network };
+    if (cmdOpts['since']) range.since = parseTimeBound(cmdOpts['since'] as string);
+    if (cmdOpts['until']) range.until = parseTimeBound(cmdOpts['until'] as string);
+
+    const chainFilter = (cmdOpts['chain'] as string | undefined)?.split(',').map((c) => c.trim());
+    const snapshots = getSnapshots(range).map((s) => chainFilter
+        ? { ...s, chains: s.chains.filter((c) => chainFilter.includes(c.chain)) }
+        : s);
+    const actions = getActionRecords(range);
+
+    if (cmdOpts['csv']) {
+        exportCsv(cmdOpts['csv'] as string, snapshots, actions);
+        return;
+    }
+    if (cmdOpts['drift']) {
+        logger.info(`📈 Drift over ${snapshots.length} snapshot(s)`);
+        printDrift(summarizeDrift(snapshots));
+        return;
+    }
+
+    const limit = parseInt(cmdOpts['limit'] as string, 10);
+    printSnapshots(snapshots.slice(-limit), actions);
+}
+
+/**
+ * Plan command: plan one cycle and write it to a file for review instead of executing it
+ */
+async function runPlanCommand(cmdOpts: Record<string, unknown>): Promise<void> {
+    const opts = program.opts();
+    const { profile, chainNames } = resolveChains(opts);
+    const options = resolveAgentOptions(opts, chainNames);
+    const walletAddress = getWalletAddress(getChain(chainNames[0]!));
+    await verifyChainIds(chainNames);
+
+    const cycle = await planCycle(walletAddress, chainNames, options);
+    if (!cycle) {
+        process.exitCode = 1;
+        return;
+    }
+    if (cycle.actions.length === 0) {
+        logger.info('\nNo actions to plan; nothing written.');
+        return;
+    }
+    await logActions(cycle.actions);
+    printProjection(cycle.projection);
+
+    const path = cmdOpts['out'] as string;
+    const plan = createPlan({
+        wallet: walletAddress,
+        target: cycle.target,
+        valueBasis: options.valueBasis,
+        snapshot: buildSnapshot(cycle.cycleId, profile.network, cycle.balances, cycle.deviations),
+        deviations: cycle.deviations,
+        actions: cycle.actions.map(toPlanAction),
+        projection: cycle.projection,
+    });
+    writePlan(path, plan);
+    logger.info(`\n📝 Plan written to ${path}`);
+    logger.info(`🔑 Hash: ${plan.hash}`);
+    logger.info(`Once approved: rebalancex apply ${path} --hash ${plan.hash}`);
+}
+
+/**
+ * Apply command: execute a reviewed plan if balances still match its snapshot
+ */
+async function runApplyCommand(path: string, cmdOpts: Record<string, unknown>): Promise<void> {
+    const opts = program.opts();
+    const { profile } = resolveChains(opts);
+    const refuse = (problems: string[]): void => {
+        logger.error(`🚫 Refusing to apply ${path}:`);
+        problems.forEach((problem) => logger.error(`  • ${problem}`));
+        process.exitCode = 1;
+    };
+
+    let plan: RebalancePlan;
+    try {
+        plan = readPlan(path);
+    } catch (error) {
+        refuse([error instanceof Error ? error.message : String(error)]);
+        return;
+    }
+    logger.info(`📝 Plan ${path} (${plan.hash}), made ${new Date(plan.snapshot.takenAt).toISOString()}`);
+
+    // The plan must be the approved one, for this network and wallet, and recent
+    const chains = plan.snapshot.chains.map((c) => c.chain);
+    const problems: string[] = [];
+    // The file's own hash only proves it is intact; the approver's copy proves it is the approved plan
+    const approved = cmdOpts['hash'] as string;
+    if (approved.toLowerCase() !== plan.hash) {
+        problems.push(`its hash is ${plan.hash}, not the approved ${approved}`);
+    }
+    if (plan.snapshot.network !== profile.network) {
+        problems.push(`it is for ${plan.snapshot.network}, not ${profile.network}`);
+    }
+    const unknownChains = chains.filter((c) => !CHAINS[c]);
+    if (unknownChains.length > 0) {
+        problems.push(`unknown chains: ${unknownChains.join(', ')}`);
+    } else if (getWalletAddress(getChain(chains[0]!)).toLowerCase() !== plan.wallet.toLowerCase()) {
+        problems.push(`it was made for wallet ${plan.wallet}`);
+    }
+    const maxAge = parseFloat(cmdOpts['maxAge'] as string);
+    const ageMinutes = (Date.now() - plan.snapshot.takenAt) / 60_000;
+    if (ageMinutes > maxAge) {
+        problems.push(`it is ${Math.floor(ageMinutes)} minutes old (--max-age ${maxAge})`);
+    }
+    if (unknownChains.length === 0) {
+        problems.push(...await findChainIdMismatches(chains.map(getChain)));
+    }
+    if (problems.length > 0) {
+        refuse(problems);
+        return;
+    }
+
+    // Balances must not have drifted from the snapshot beyond tolerance
+    const options = resolveAgentOptions(opts, chains);
+    const current = await getCurrentState(plan.wallet, chains, {
+        maxBalanceAgeMs: options.maxBalanceAge * 60 * 1000,
+        valueBasis: plan.valueBasis,
+    });
+    const unknown = getUnknownBalances(current);
+    if (unknown.length > 0) {
+        refuse([`balance unknown on ${unknown.join(', ')}`]);
+        return;
+    }
+    const cycleId = plan.snapshot.cycleId;
+    const drift = checkPlanDrift(
+        plan,
+        buildSnapshot(cycleId, profile.network, current, plan.deviations),
+        parseFloat(cmdOpts['tolerance'] as string)
+    );
+    if (drift.length > 0) {
+        refuse(drift.map((d) => `balance changed since planning: ${d}`));
+        return;
+    }
+
+    // Risk limits apply to the plan as a whole: refuse rather than run part of it
+    const actions = plan.actions.map(fromPlanAction);
+    const limited = applyRiskLimits(actions, options.limits, getLimitUsage());
+    if (limited.truncated.length > 0 || limited.deferred.length > 0) {
+        refuse([`risk limits would truncate ${limited.truncated.length} and defer ${limited.deferred.length} action(s)`]);
+        return;
+    }
+
+    recordSnapshot(cycleId, profile.network, current, plan.deviations);
+    await logActions(actions);
+    printProjection(plan.projection);
+    const ok = await executeActions(cycleId, actions, [], options.dryRun);
+    process.exitCode = ok ? 0 : 1;
+}
+
+/**
+ * Agent command: main rebalancing loop
+ */
+async function runAgent(): Promise<void> {
+    const opts = program.opts();
+    const { profile, chainNames } = resolveChains(opts);
+    const runOnce = opts['once'] as boolean;
+    const watch = (opts['watch'] as boolean) && !runOnce;
+
+    const options = resolveAgentOptions(opts, chainNames);
+
     // Get wallet address (assumes same address across all chains)
-    const walletAddress = getWalletAddress(CHAINS[chainNames[0]!]!);
+    const walletAddress = getWalletAddress(getChain(chainNames[0]!));
+    await verifyChainIds(chainNames);
 
     logger.info('═'.repeat(60));
     logger.info('🔄 RebalanceX - Multi-Chain Treasury Rebalancer');
     logger.info('═'.repeat(60));
+    logger.info(`🌐 Network: ${profile.network}`);
     logger.info(`📍 Wallet: ${walletAddress}`);
-    logger.info(`🎯 Target: ${options.target}`);
-    logger.info(`📏 Threshold: ${options.threshold}%`);
+    if (options.profiles) {
+        const names = Object.keys(options.profiles.profiles);
+        logger.info(`🎯 Target: profiles ${names.join(', ')} from ${opts['profiles']} (default ${options.profiles.default}, ${options.profiles.schedule.length} scheduled)`);
+    } else {
+        logger.info(`🎯 Target: ${options.target}`);
+    }
+    logger.info(`📏 Threshold: ${options.threshold}% (rebalance back to within ${options.band}%)`);
+    logger.info(`💱 Value basis: ${options.valueBasis}`);
+    logger.info(`🧭 Strategy: ${describeStrategy(options)}, planner: ${options.planner}`);
+    logger.info(`💸 Costs: transfers ≥ ${formatValue(options.minTransfer)} USDC, ≤ ${options.maxCostPct}% of the amount`);
+    logger.info(`⚡ Transfer mode: ${describeTransferMode(options.transferMode)}`);
     logger.info(`⏱️  Interval: ${options.interval}s`);
     logger.info(`🔗 Chains: ${chainNames.join(', ')}`);
     logger.info(`🏃 Dry Run: ${options.dryRun}`);
+    if (watch) {
+        logger.info(`👀 Watch: USDC transfers ≥ ${opts['minChange']} USDC, debounce ${opts['debounce']}s, heartbeat ${options.interval}s`);
+    }
     logger.info('═'.repeat(60));
 
     // Handle graceful shutdown
@@ -151,13 +878,40 @@ async function main(): Promise<void> {
         running = false;
     });
 
-    // Main loop
-    while (running) {
+    const runCycle = async (): Promise<void> => {
         try {
             await rebalanceCycle(walletAddress, chainNames, options);
         } catch (error) {
             logger.error('Rebalance cycle failed:', error);
         }
+    };
+
+    // Watch mode: event-driven cycles, with the interval as a heartbeat
+    if (watch) {
+        await runCycle();
+        await watchTransfers(
+            chainNames,
+            walletAddress,
+            {
+                pollIntervalMs: parseFloat(opts['poll'] as string) * 1000,
+                debounceMs: parseFloat(opts['debounce'] as string) * 1000,
+                heartbeatMs: options.interval * 1000,
+                minChange: ethers.parseUnits(opts['minChange'] as string, VALUE_DECIMALS),
+            },
+            async (trigger, changedChains) => {
+                logger.info(trigger === 'activity'
+                    ? `\n⚡ Triggered by USDC movement on ${changedChains.join(', ')}`
+                    : '\n💓 Heartbeat check');
+                await runCycle();
+            },
+            () => running
+        );
+        return;
+    }
+
+    // Main loop
+    while (running) {
+        await runCycle();
 
         if (runOnce) {
             logger.info('\n👋 Single run complete. Exiting.');
@@ -169,6 +923,136 @@ async function main(): Promise<void> {
     }
 }
 
+/**
+ * Backtest command: replay recorded or synthetic balances through the strategy, offline
+ */
+async function runBacktestCommand(cmdOpts: Record<string, unknown>): Promise<void> {
+    const opts = program.opts();
+    let { chainNames } = resolveChains(opts);
+
+    let series: BalancePoint[];
+    try {
+        if (cmdOpts['input']) {
+            series = loadSeries(cmdOpts['input'] as string);
+            chainNames = Object.keys(series[0]?.balances ?? {});
+            const unknown = chainNames.filter((chain) => !CHAINS[chain]);
+            if (unknown.length > 0) throw new Error(`Series has chains outside the network profile: ${unknown.join(', ')}`);
+        } else {
+            series = syntheticSeries({
+                chains: chainNames,
+                steps: parseInt(cmdOpts['steps'] as string, 10),
+                stepMinutes: parseFloat(cmdOpts['step'] as string),
+                initial: ethers.parseUnits(cmdOpts['initial'] as string, VALUE_DECIMALS),
+                volatility: parseFloat(cmdOpts['volatility'] as string),
+                seed: parseInt(cmdOpts['seed'] as string, 10),
+            });
+        }
+    } catch (error) {
+        logger.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+    }
+    if (series.length === 0) {
+        logger.error('Backtest series is empty');
+        process.exit(1);
+    }
+
+    const options = resolveAgentOptions(opts, chainNames);
+    const latency = cmdOpts['latency'] as string | undefined;
+    const routes = backtestRoutes({
+        gasCost: parseLimitTable(cmdOpts['gasCost'] as string, '--gas-cost', chainNames, true),
+        feeBps: parseFloat(cmdOpts['feeBps'] as string),
+        ...(latency !== undefined
+            ? { latencySeconds: parseFloat(latency) * 60 }
+            : options.transferMode.mode === 'fast' && { latencySeconds: FAST_ATTESTATION_SECONDS }),
+    }, DEFAULT_ATTESTATION_SECONDS);
+    const profiles = options.profiles;
+
+    logger.info(`🧪 Backtesting ${series.length} point(s) on ${chainNames.join(', ')}`);
+    logger.info(`🧭 Strategy: ${describeStrategy(options)}, planner: ${options.planner}`);
+    logger.info(`🎯 Target: ${profiles ? `profiles (default ${profiles.default})` : options.target}`);
+
+    // Per-point balance and decision logs would drown the report
+    const level = logger.level;
+    logger.level = 'warn';
+    let report: BacktestReport;
+    try {
+        report = await runBacktest(series, {
+            strategy: createStrategy(options.strategy, {
+                periodHours: options.period,
+                correction: options.correction / 100,
+            }),
+            target: profiles ? (at) => selectProfile(profiles, new Date(at)).target : () => options.target,
+            threshold: options.threshold,
+            band: options.band,
+            planner: options.planner,
+            minTransfer: options.minTransfer,
+            maxCostPct: options.maxCostPct,
+            routes,
+        });
+    } finally {
+        logger.level = level;
+    }
+    printBacktestReport(report);
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+    program.action(runAgent);
+
+    program
+        .command('doctor')
+        .description('Check RPCs, contracts, gas and the attestation API for every configured chain')
+        .action(runDoctorCommand);
+
+    program
+        .command('plan')
+        .description('Plan one cycle and write the snapshot, deviations and actions to a file for review')
+        .option('--out <path>', 'Plan file to write', 'rebalance-plan.json')
+        .action(runPlanCommand);
+
+    program
+        .command('apply <plan>')
+        .description('Execute a reviewed plan, refusing if balances drifted since it was made')
+        .requiredOption('--hash <hash>', 'Hash of the approved plan; anyone can edit a plan file and recompute its own hash')
+        .option('--tolerance <percent>', 'Most any chain\'s balance may have changed since planning, in % of the treasury', '1')
+        .option('--max-age <minutes>', 'Refuse plans older than this', '60')
+        .action(runApplyCommand);
+
+    program
+        .command('resume')
+        .description('Finish transfers interrupted between burn and mint, from the transfer journal')
+        .action(runResumeCommand);
+
+    program
+        .command('history')
+        .description('List recorded balance snapshots and actions, show drift, or export CSV')
+        .option('--since <time>', 'Start of the range: ISO date or age like 24h / 7d')
+        .option('--until <time>', 'End of the range: ISO date or age')
+        .option('--chain <chains>', 'Only these chains (comma-separated)')
+        .option('--limit <n>', 'Show at most this many recent snapshots', '20')
+        .option('--drift', 'Summarise allocation drift per chain over the range', false)
+        .option('--csv <path>', 'Export the range as CSV to this file')
+        .action(runHistoryCommand);
+
+    program
+        .command('backtest')
+        .description('Replay recorded or synthetic balances through the strategy offline and report turnover, fees and drift')
+        .option('--input <path>', 'Balance series: snapshots JSONL or CSV as written by history --csv (default: synthetic flows)')
+        .option('--steps <n>', 'Synthetic points to generate', '720')
+        .option('--step <minutes>', 'Minutes between synthetic points', '60')
+        .option('--initial <usdc>', 'Starting synthetic balance of each chain', '100000')
+        .option('--volatility <percent>', 'Typical synthetic net flow per point, in % of a chain\'s balance', '1')
+        .option('--seed <n>', 'Seed for the synthetic flows', '1')
+        .option('--gas-cost <usdc>', 'Gas per transfer: default and/or from:to=usdc overrides (e.g., "0.5,sepolia:arc=2")', '0.5')
+        .option('--fee-bps <bps>', 'Protocol fee per transfer in basis points', '0')
+        .option('--latency <minutes>', 'Transfer latency (default: each source chain\'s attestation time, or fast attestation with --transfer-mode fast)')
+        .action(runBacktestCommand);
+
+    await program.parseAsync();
+}
+
 // Run
 main().catch((error) => {
     logger.error('Fatal error:', error);
@@ -0,0 +1,109 @@
+/**
+ * RebalanceX Transfer Journal
+ * Every CCTP transfer's progress (approved, burned, attested, minted, failed)
+ * with its tx hashes and message bytes, so a transfer interrupted by a crash
+ * or stopped by a timeout can be finished by the next cycle
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, writeJsonFile } from './store.js';
+import type { JournaledTransfer, NetworkName, TransferState } from './types.js';
+
+const JOURNAL_FILE = 'transfers.json';
+
+// Finished transfers are kept this long for inspection, then pruned
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+type StoredTransfer = Omit<JournaledTransfer, 'amount' | 'tokenAmount' | 'maxFee' | 'feePaid'> & {
+    amount: string;
+    tokenAmount: string;
+    maxFee: string;
+    feePaid?: string;
+};
+
+// =============================================================================
+// Reading & Writing
+// =============================================================================
+
+/**
+ * All journaled transfers, oldest first
+ */
+export function getJournal(): JournaledTransfer[] {
+    return readJsonFile<StoredTransfer[]>(dataPath(JOURNAL_FILE), []).map(({ feePaid, ...t }) => ({
+        ...t,
+        amount: BigInt(t.amount),
+        tokenAmount: BigInt(t.tokenAmount),
+        maxFee: BigInt(t.maxFee),
+        ...(feePaid !== undefined && { feePaid: BigInt(feePaid) }),
+    }));
+}
+
+function isFinished(transfer: JournaledTransfer): boolean {
+    return transfer.state === 'minted' || transfer.state === 'failed';
+}
+
+/**
+ * Insert or replace a transfer, pruning finished transfers past retention
+ */
+function saveTransfer(transfer: JournaledTransfer): void {
+    const cutoff = Date.now() - FINISHED_RETENTION_MS;
+    const transfers = getJournal().filter((t) => !(isFinished(t) && t.updatedAt < cutoff));
+    const index = transfers.findIndex((t) => t.id === transfer.id);
+    if (index === -1) {
+        transfers.push(transfer);
+    } else {
+        transfers[index] = transfer;
+    }
+    writeJsonFile(dataPath(JOURNAL_FILE), transfers);
+}
+
+/**
+ * Journal a transfer before anything is sent on-chain
+ */
+export function openTransfer(
+    fields: Omit<JournaledTransfer, 'id' | 'state' | 'createdAt' | 'updatedAt'>
+): JournaledTransfer {
+    const now = Date.now();
+    const transfer: JournaledTransfer = { ...fields, id: randomUUID(), state: 'pending', createdAt: now, updatedAt: now };
+    saveTransfer(transfer);
+    return transfer;
+}
+
+/**
+ * Persist a transfer's progress: a new state and/or the hashes and bytes of the step
+ */
+export function updateTransfer(
+    transfer: JournaledTransfer,
+    state: TransferState,
+    fields: Partial<Omit<JournaledTransfer, 'id' | 'state' | 'createdAt' | 'updatedAt'>> = {}
+): JournaledTransfer {
+    const updated: JournaledTransfer = { ...transfer, ...fields, state, updatedAt: Date.now() };
+    if (fields.error === undefined && state !== transfer.state) delete updated.error;
+    saveTransfer(updated);
+    if (state !== transfer.state) {
+        logger.debug(`Transfer ${transfer.id}: ${transfer.state} → ${state}`, { from: transfer.from, to: transfer.to });
+    }
+    return updated;
+}
+
+// =============================================================================
+// Recovery
+// =============================================================================
+
+/**
+ * Transfers on `network` that neither minted nor failed
+ */
+export function getUnfinishedTransfers(network: NetworkName): JournaledTransfer[] {
+    return getJournal().filter((t) => t.network === network && !isFinished(t));
+}
+
+/**
+ * Whether an unfinished transfer has to be carried on. Before its burn was
+ * signed nothing has left the wallet, and the next cycle plans afresh; from
+ * then on the journaled burn is the only one it may ever send.
+ */
+export function canResume(transfer: JournaledTransfer): boolean {
+    if (isFinished(transfer)) return false;
+    return transfer.burnTx !== undefined || transfer.state === 'burned' || transfer.state === 'attested';
+}
@@ -0,0 +1,251 @@
+/**
+ * RebalanceX Risk Limits
+ * Caps on single transfers, whole cycles and rolling 24h volume per chain and
+ * per route. Usage is derived from the persisted action history, so it
+ * survives restarts.
+ */
+
+import { ethers } from 'ethers';
+import { getActionRecords } from './history.js';
+import { logDecision, logger } from './logger.js';
+import { formatValue, VALUE_DECIMALS } from './tokens.js';
+import type {
+    ChainName,
+    LimitTable,
+    RebalanceAction,
+    RiskLimits,
+    SizeConstraint,
+    TransferAction,
+} from './types.js';
+
+export const LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// Volume sent over the rolling window (value units)
+export interface LimitUsage {
+    chain: Record<ChainName, bigint>;
+    route: Record<string, bigint>;    // keyed by routeKey()
+}
+
+export interface LimitedPlan {
+    actions: RebalanceAction[];
+    truncated: TransferAction[];      // as planned, before truncation
+    deferred: RebalanceAction[];
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export function routeKey(from: ChainName, to: ChainName): string {
+    return `${from}:${to}`;
+}
+
+function parseAmount(value: string, what: string): bigint {
+    try {
+        const amount = ethers.parseUnits(value.trim(), VALUE_DECIMALS);
+        if (amount < 0n) throw new Error('negative');
+        return amount;
+    } catch {
+        throw new Error(`Invalid ${what}: ${value}`);
+    }
+}
+
+/**
+ * Parse a single cap in USDC; empty or undefined means unlimited
+ */
+export function parseLimit(value: string | undefined, what: string): bigint | undefined {
+    return value === undefined || value.trim() === '' ? undefined : parseAmount(value, what);
+}
+
+/**
+ * Parse a limit table: a default and/or per-key overrides, comma-separated
+ * (e.g., "100000,arc=50000" for chains or "50000,sepolia:arc=10000" for routes).
+ * Overrides must name `chains`, so a typo cannot silently fall back to the default.
+ */
+export function parseLimitTable(
+    value: string | undefined,
+    what: string,
+    chains: ChainName[],
+    routes = false
+): LimitTable {
+    const checkChain = (chain: string): void => {
+        if (!chains.includes(chain)) {
+            throw new Error(`Unknown chain in ${what}: ${chain} (expected one of ${chains.join(', ')})`);
+        }
+    };
+
+    const table: LimitTable = { overrides: {} };
+    for (const entry of (value ?? '').split(',').map((e) => e.trim()).filter(Boolean)) {
+        const separator = entry.lastIndexOf('=');
+        if (separator === -1) {
+            table.default = parseAmount(entry, what);
+        } else {
+            const key = entry.slice(0, separator).trim();
+            if (routes) {
+                const [from, to, ...rest] = key.split(':').map((c) => c.trim());
+                if (!from || !to || rest.length > 0) {
+                    throw new Error(`Invalid route in ${what}: ${key} (expected from:to)`);
+                }
+                checkChain(from);
+                checkChain(to);
+                if (from === to) {
+                    throw new Error(`Invalid route in ${what}: ${key} (from and to are the same chain)`);
+                }
+                table.overrides[routeKey(from, to)] = parseAmount(entry.slice(separator + 1), what);
+            } else {
+                checkChain(key);
+                table.overrides[key] = parseAmount(entry.slice(separator + 1), what);
+            }
+        }
+    }
+    return table;
+}
+
+export function limitFor(table: LimitTable, key: string): bigint | undefined {
+    return table.overrides[key] ?? table.default;
+}
+
+// =============================================================================
+// Usage
+// =============================================================================
+
+/**
+ * Volume sent per chain and per route over the rolling window, from the action
+ * history. Failed transfers that got as far as a burn count too.
+ */
+export function getLimitUsage(now = Date.now()): LimitUsage {
+    const usage: LimitUsage = { chain: {}, route: {} };
+    const sent = getActionRecords({ since: now - LIMIT_WINDOW_MS }).filter((r) =>
+        r.type === 'transfer' && r.to !== undefined &&
+        (r.outcome === 'executed' || (r.outcome === 'failed' && r.txHash !== undefined))
+    );
+    for (const record of sent) {
+        const route = routeKey(record.from, record.to!);
+        usage.chain[record.from] = (usage.chain[record.from] ?? 0n) + record.amount;
+        usage.route[route] = (usage.route[route] ?? 0n) + record.amount;
+    }
+    return usage;
+}
+
+// =============================================================================
+// Enforcement
+// =============================================================================
+
+// Tightest of the caps that apply, and which one it is
+function smallest(caps: [SizeConstraint, bigint | undefined][]): [SizeConstraint, bigint] | undefined {
+    return caps.reduce<[SizeConstraint, bigint] | undefined>(
+        (min, [constraint, cap]) => (cap !== undefined && (min === undefined || cap < min[1]) ? [constraint, cap] : min),
+        undefined
+    );
+}
+
+/**
+ * Truncate transfers to what the limits still allow and defer those with no
+ * allowance left. Swaps only feed transfers from their chain and are deferred
+ * with them.
+ */
+export function applyRiskLimits(
+    actions: RebalanceAction[],
+    limits: RiskLimits,
+    usage: LimitUsage
+): LimitedPlan {
+    const chainUsed = { ...usage.chain };
+    const routeUsed = { ...usage.route };
+    let cycleUsed = 0n;
+
+    const allowed: RebalanceAction[] = [];
+    const truncated: TransferAction[] = [];
+    const deferred: RebalanceAction[] = [];
+
+    for (const action of actions) {
+        if (action.type !== 'transfer') {
+            allowed.push(action);
+            continue;
+        }
+
+        const from = action.from.name;
+        const route = routeKey(from, action.to.name);
+        const chainCap = limitFor(limits.dailyChain, from);
+        const routeCap = limitFor(limits.dailyRoute, route);
+        const binding = smallest([
+            ['max-transfer', limits.maxTransfer],
+            ['max-cycle', limits.maxCycle !== undefined ? limits.maxCycle - cycleUsed : undefined],
+            ['daily-chain', chainCap !== undefined ? chainCap - (chainUsed[from] ?? 0n) : undefined],
+            ['daily-route', routeCap !== undefined ? routeCap - (routeUsed[route] ?? 0n) : undefined],
+        ]);
+
+        if (binding !== undefined && binding[1] <= 0n) {
+            logDecision('DEFER', from, action.to.name, `${formatValue(action.amount)} (limit reached)`);
+            deferred.push(action);
+            continue;
+        }
+
+        let amount = action.amount;
+        if (binding !== undefined && binding[1] < amount) {
+            const [constraint, allowance] = binding;
+            logDecision('TRUNCATE', from, action.to.name, `${formatValue(action.amount)} → ${formatValue(allowance)}`);
+            truncated.push(action);
+            amount = allowance;
+            allowed.push({
+                ...action,
+                amount,
+                ...(action.rationale && { rationale: { ...action.rationale, limitedBy: { chain: from, constraint } } }),
+            });
+        } else {
+            allowed.push(action);
+        }
+
+        cycleUsed += amount;
+        chainUsed[from] = (chainUsed[from] ?? 0n) + amount;
+        routeUsed[route] = (routeUsed[route] ?? 0n) + amount;
+    }
+
+    // A swap is only worth doing if a transfer from its chain is still going
+    const sources = new Set(allowed.filter((a) => a.type === 'transfer').map((a) => a.from.name));
+    const orphans = allowed.filter((a) => a.type === 'swap' && !sources.has(a.from.name));
+    return {
+        actions: allowed.filter((a) => !orphans.includes(a)),
+        truncated,
+        deferred: [...deferred, ...orphans],
+    };
+}
+
+// =============================================================================
+// Reporting
+// =============================================================================
+
+function describeUsage(used: bigint, cap: bigint | undefined): string {
+    return cap === undefined
+        ? `${formatValue(used)} USDC (no limit)`
+        : `${formatValue(used)} / ${formatValue(cap)} USDC`;
+}
+
+/**
+ * Log 24h usage against the limits for each chain, and for each route that
+ * was used or has its own limit
+ */
+export function printLimitUsage(limits: RiskLimits, usage: LimitUsage, chains: ChainName[]): void {
+    logger.info('\n🛡️  Limits (rolling 24h):');
+    const perCycle = [
+        limits.maxTransfer !== undefined ? `${formatValue(limits.maxTransfer)} USDC per transfer` : undefined,
+        limits.maxCycle !== undefined ? `${formatValue(limits.maxCycle)} USDC per cycle` : undefined,
+    ].filter(Boolean);
+    if (perCycle.length > 0) {
+        logger.info(`  ${perCycle.join(', ')}`);
+    }
+    for (const chain of chains) {
+        logger.info(`  ${chain}: ${describeUsage(usage.chain[chain] ?? 0n, limitFor(limits.dailyChain, chain))} sent`);
+    }
+    if (limits.dailyRoute.default !== undefined) {
+        logger.info(`  routes: ${formatValue(limits.dailyRoute.default)} USDC each unless listed`);
+    }
+    for (const route of new Set([...Object.keys(usage.route), ...Object.keys(limits.dailyRoute.overrides)])) {
+        const [from, to] = route.split(':');
+        if (!chains.includes(from!) || !chains.includes(to!)) continue;
+        logger.info(`  ${from} → ${to}: ${describeUsage(usage.route[route] ?? 0n, limitFor(limits.dailyRoute, route))}`);
+    }
+}
@@ -33,6 +33,13 @@ export const logger = winston.createLogger({
     ],
 });
 
+// Network profile stamped on every logged transaction
+let logNetwork: string | undefined;
+
+export function setLogNetwork(network: string): void {
+    logNetwork = network;
+}
+
 // Log transaction with hash
 export function logTransaction(
     action: string,
@@ -41,6 +48,7 @@ export function logTransaction(
     details?: Record<string, unknown>
 ): void {
     logger.info(`Transaction: ${action}`, {
+        network: logNetwork,
         chain,
         txHash,
         ...details,
@@ -51,10 +59,12 @@ export function logTransaction(
 export function logBalance(
     chain: string,
     balance: string,
-    percentage: number
+    percentage: number,
+    inTransit?: string
 ): void {
     logger.info(`Balance: ${chain}`, {
         balance,
+        ...(inTransit !== undefined && { inTransit }),
         percentage: `${percentage.toFixed(2)}%`,
     });
 }
@@ -1,72 +1,334 @@
 /**
  * RebalanceX Balance Monitor
- * Fetches USDC balances across multiple chains
+ * Fetches USDC balances (and other configured tokens, valued in USDC) across multiple chains
  */
 
 import { ethers } from 'ethers';
-import { CHAINS, ERC20_ABI } from './config.js';
+import { CHAINS, ERC20_ABI, getChain, getNetwork } from './config.js';
 import { logger, logBalance } from './logger.js';
-import type { ChainBalance, ChainName, ChainConfig } from './types.js';
+import { getQuote, isSwapSupported } from './executors/uniswap.js';
+import { batchCalls } from './multicall.js';
+import { quorumRead, withProvider } from './providers.js';
+import { formatValue, getTokenDecimals, toValueUnits } from './tokens.js';
+import { creditInTransit, getPendingTransfers } from './transit.js';
+import type {
+    AddressHolding,
+    BalanceRead,
+    ChainBalance,
+    ChainName,
+    ChainConfig,
+    TokenHolding,
+    ValueBasis,
+} from './types.js';
 
-// Cache providers to avoid recreating
-const providerCache = new Map<ChainName, ethers.JsonRpcProvider>();
+export interface BalanceReadOptions {
+    maxBalanceAgeMs?: number;  // accept a last known good balance this old when a read fails
+    valueBasis?: ValueBasis;   // 'total' counts valued non-USDC tokens toward allocations
+}
+
+export interface BalanceQuery {
+    token: string;
+    owner: string;
+}
+
+export interface BalanceSnapshot {
+    blockNumber: number;
+    blockTimestamp: number;  // unix seconds
+    balances: bigint[];      // in query order, in each token's own decimals
+}
+
+type LastGoodBalance = Pick<
+    BalanceRead,
+    'balance' | 'fetchedAt' | 'blockNumber' | 'blockTimestamp' | 'holdings' | 'tokens'
+>;
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+// Last known good balance per chain + wallet (value units)
+const lastGoodBalances = new Map<string, LastGoodBalance>();
 
 /**
- * Get or create a provider for a chain
+ * Read several token balances on one chain in a single batch, all at the same block.
+ * The block is pinned first so every quorum endpoint answers for the same state.
  */
-function getProvider(chain: ChainConfig): ethers.JsonRpcProvider {
-    let provider = providerCache.get(chain.name);
-    if (!provider) {
-        provider = new ethers.JsonRpcProvider(chain.rpcUrl);
-        providerCache.set(chain.name, provider);
+export async function readBalances(
+    chain: ChainConfig,
+    queries: BalanceQuery[]
+): Promise<BalanceSnapshot> {
+    const blockNumber = await withProvider(chain, (provider) => provider.getBlockNumber(), 'Block number read');
+    const calls = queries.map((q) => ({
+        target: q.token,
+        callData: erc20Interface.encodeFunctionData('balanceOf', [q.owner]),
+    }));
+
+    return quorumRead(
+        chain,
+        async (provider) => {
+            const batch = await batchCalls(chain, provider, calls, blockNumber);
+            const balances = batch.returnData.map((data, i) => {
+                if (data === null) {
+                    throw new Error(`balanceOf(${queries[i]!.owner}) reverted on token ${queries[i]!.token}`);
+                }
+                return erc20Interface.decodeFunctionResult('balanceOf', data)[0] as bigint;
+            });
+            return { blockNumber, blockTimestamp: batch.blockTimestamp, balances };
+        },
+        chain.rpcQuorum,
+        'Balance read',
+        (snapshot) => `${snapshot.blockNumber}:${snapshot.balances.join(',')}`
+    );
+}
+
+/**
+ * Treasury addresses on a chain: the signer first, then its watch-only addresses
+ */
+export function getTreasuryAddresses(chain: ChainConfig, walletAddress: string): Omit<AddressHolding, 'balance'>[] {
+    const addresses: Omit<AddressHolding, 'balance'>[] = [{ address: walletAddress, label: 'signer', watchOnly: false }];
+    for (const watched of chain.watch ?? []) {
+        if (addresses.some((a) => a.address.toLowerCase() === watched.address.toLowerCase())) {
+            continue;
+        }
+        addresses.push({ ...watched, watchOnly: true });
     }
-    return provider;
+    return addresses;
 }
 
 /**
- * Fetch USDC balance for a single chain
+ * Fetch the USDC and extra token balances of all treasury addresses on a chain
+ * (in each token's own decimals). Extra tokens are returned unvalued.
+ * Failed reads are reported as such rather than as a zero balance
  */
 export async function getBalance(
     chain: ChainConfig,
     walletAddress: string
-): Promise<bigint> {
-    const provider = getProvider(chain);
-    const usdc = new ethers.Contract(chain.usdcAddress, ERC20_ABI, provider);
-
+): Promise<BalanceRead> {
     try {
-        const balance = await usdc.getFunction('balanceOf')(walletAddress) as bigint;
-        return balance;
+        const addresses = getTreasuryAddresses(chain, walletAddress);
+        const tokens = Object.entries(chain.tokens ?? {});
+        const perAddress = [chain.usdcAddress, ...tokens.map(([, address]) => address)];
+
+        // One batch: USDC then each extra token, for every address
+        const snapshot = await readBalances(
+            chain,
+            addresses.flatMap((a) => perAddress.map((token) => ({ token, owner: a.address })))
+        );
+        const balanceAt = (addressIndex: number, tokenIndex: number): bigint =>
+            snapshot.balances[addressIndex * perAddress.length + tokenIndex]!;
+
+        const holdings = addresses.map((a, i) => ({ ...a, balance: balanceAt(i, 0) }));
+        const read: BalanceRead = {
+            status: 'ok',
+            balance: holdings.reduce((sum, h) => sum + h.balance, 0n),
+            fetchedAt: Date.now(),
+            blockNumber: snapshot.blockNumber,
+            blockTimestamp: snapshot.blockTimestamp,
+            holdings,
+        };
+        if (tokens.length > 0) {
+            read.tokens = tokens.map(([symbol, address], j) => ({
+                symbol,
+                address,
+                amount: addresses.reduce((sum, _a, i) => sum + balanceAt(i, j + 1), 0n),
+                spendableAmount: addresses.reduce(
+                    (sum, a, i) => (a.watchOnly ? sum : sum + balanceAt(i, j + 1)),
+                    0n
+                ),
+            }));
+        }
+        return read;
     } catch (error) {
-        logger.error(`Failed to fetch balance on ${chain.name}`, { error });
-        return 0n;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to fetch balance on ${chain.name}`, { error: message });
+        return { status: 'failed', balance: 0n, fetchedAt: Date.now(), error: message };
     }
 }
 
 /**
- * Fetch USDC balances from all configured chains
+ * Resolve a read into a chain balance, falling back to the last known good
+ * balance when the read failed and the cached value is recent enough
+ */
+export function resolveBalanceRead(
+    chainName: ChainName,
+    read: BalanceRead,
+    lastGood: LastGoodBalance | undefined,
+    maxBalanceAgeMs = 0,
+    now = Date.now()
+): ChainBalance {
+    if (read.status === 'ok') {
+        return withSnapshotDetails({
+            chain: chainName,
+            balance: read.balance,
+            percentage: 0,
+            status: 'ok',
+            fetchedAt: read.fetchedAt,
+        }, read);
+    }
+
+    const result: ChainBalance = {
+        chain: chainName,
+        balance: 0n,
+        percentage: 0,
+        status: 'failed',
+        fetchedAt: read.fetchedAt,
+    };
+    if (read.error !== undefined) {
+        result.error = read.error;
+    }
+
+    if (lastGood && now - lastGood.fetchedAt <= maxBalanceAgeMs) {
+        result.status = 'stale';
+        result.balance = lastGood.balance;
+        result.fetchedAt = lastGood.fetchedAt;
+        return withSnapshotDetails(result, lastGood);
+    }
+    return result;
+}
+
+function withSnapshotDetails(balance: ChainBalance, source: LastGoodBalance): ChainBalance {
+    if (source.blockNumber !== undefined) {
+        balance.blockNumber = source.blockNumber;
+    }
+    if (source.blockTimestamp !== undefined) {
+        balance.blockTimestamp = source.blockTimestamp;
+    }
+    if (source.tokens !== undefined) {
+        balance.tokens = source.tokens;
+    }
+    if (source.holdings !== undefined) {
+        balance.holdings = source.holdings;
+        balance.spendable = source.holdings
+            .filter((h) => !h.watchOnly)
+            .reduce((sum, h) => sum + h.balance, 0n);
+    }
+    return balance;
+}
+
+/**
+ * Value non-USDC holdings in USDC (value units) using Uniswap quotes.
+ * Tokens that cannot be quoted are left unvalued rather than counted as zero.
+ */
+export async function valueTokenHoldings(
+    chain: ChainConfig,
+    tokens: TokenHolding[]
+): Promise<TokenHolding[]> {
+    if (tokens.length === 0) return tokens;
+    if (!isSwapSupported(chain.name)) {
+        logger.warn(`Cannot value ${tokens.map((t) => t.symbol).join(', ')} on ${chain.name}: no Uniswap configured`);
+        return tokens;
+    }
+
+    const usdcDecimals = await getTokenDecimals(chain, chain.usdcAddress);
+    return Promise.all(tokens.map(async (token) => {
+        if (token.amount === 0n) {
+            return { ...token, value: 0n };
+        }
+        try {
+            const quote = await getQuote(chain, token.address, chain.usdcAddress, token.amount);
+            return { ...token, value: toValueUnits(quote.amountOut, usdcDecimals) };
+        } catch (error) {
+            logger.warn(`Could not value ${token.symbol} on ${chain.name}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return token;
+        }
+    }));
+}
+
+/**
+ * USDC value of the signer's share of a token holding (value units)
+ */
+export function spendableTokenValue(token: TokenHolding): bigint {
+    if (token.value === undefined || token.amount === 0n) return 0n;
+    return (token.value * token.spendableAmount) / token.amount;
+}
+
+/**
+ * Count valued non-USDC holdings toward each chain's allocation when targets
+ * apply to total value; with the USDC basis they are only reported
+ */
+export function applyValueBasis(balances: ChainBalance[], basis: ValueBasis = 'usdc'): ChainBalance[] {
+    if (basis === 'usdc') return balances;
+    return balances.map((b) => {
+        const tokenValue = (b.tokens ?? []).reduce((sum, t) => sum + (t.value ?? 0n), 0n);
+        return { ...b, tokenValue };
+    });
+}
+
+/**
+ * Fetch USDC balances from all configured chains, normalised to value units
  */
 export async function getAllBalances(
     walletAddress: string,
-    chains: ChainName[] = ['sepolia', 'polygonAmoy', 'arbitrumSepolia']
+    chains: ChainName[] = Object.keys(CHAINS),
+    options: BalanceReadOptions = {}
 ): Promise<ChainBalance[]> {
     logger.info('Fetching balances from all chains...');
 
     const balancePromises = chains.map(async (chainName) => {
-        const chain = CHAINS[chainName];
-        const balance = await getBalance(chain, walletAddress);
-        return { chain: chainName, balance };
+        const chain = getChain(chainName);
+        const read = await getBalance(chain, walletAddress);
+        if (read.status === 'ok') {
+            // Normalise so chains whose USDC uses different decimals compare directly
+            const decimals = await getTokenDecimals(chain, chain.usdcAddress);
+            read.balance = toValueUnits(read.balance, decimals);
+            if (read.holdings) {
+                // Keep the total equal to the sum of the (rounded) per-address holdings
+                read.holdings = read.holdings.map((h) => ({ ...h, balance: toValueUnits(h.balance, decimals) }));
+                read.balance = read.holdings.reduce((sum, h) => sum + h.balance, 0n);
+            }
+            if (read.tokens) {
+                read.tokens = await valueTokenHoldings(chain, read.tokens);
+            }
+        }
+
+        const cacheKey = `${chainName}:${walletAddress.toLowerCase()}`;
+        const result = resolveBalanceRead(
+            chainName,
+            read,
+            lastGoodBalances.get(cacheKey),
+            options.maxBalanceAgeMs
+        );
+
+        if (result.status === 'ok') {
+            lastGoodBalances.set(cacheKey, {
+                balance: result.balance,
+                fetchedAt: read.fetchedAt,
+                ...(read.blockNumber !== undefined && { blockNumber: read.blockNumber }),
+                ...(read.blockTimestamp !== undefined && { blockTimestamp: read.blockTimestamp }),
+                ...(read.holdings !== undefined && { holdings: read.holdings }),
+                ...(read.tokens !== undefined && { tokens: read.tokens }),
+            });
+        } else if (result.status === 'stale') {
+            const ageMinutes = ((Date.now() - result.fetchedAt!) / 60000).toFixed(1);
+            logger.warn(`Using last known good balance on ${chainName} (${ageMinutes} min old)`);
+        }
+        return result;
     });
 
-    const results = await Promise.all(balancePromises);
-    // Return with placeholder percentage (calculated by calculateAllocations)
-    return results.map(r => ({ ...r, percentage: 0 }));
+    // Percentages are placeholders here (calculated by calculateAllocations)
+    return Promise.all(balancePromises);
+}
+
+/**
+ * Settled plus in-transit balance of a chain, plus its other tokens' value
+ * when targets apply to total value
+ */
+export function effectiveBalance(balance: ChainBalance): bigint {
+    return balance.balance + (balance.inTransit ?? 0n) + (balance.tokenValue ?? 0n);
+}
+
+/**
+ * Part of a chain's settled balance the signer can move (watch-only holdings excluded)
+ */
+export function spendableBalance(balance: ChainBalance): bigint {
+    return balance.spendable ?? balance.balance;
 }
 
 /**
- * Calculate allocation percentages from balances
+ * Calculate allocation percentages from balances (settled + in transit)
  */
 export function calculateAllocations(balances: ChainBalance[]): ChainBalance[] {
-    const total = balances.reduce((sum, b) => sum + b.balance, 0n);
+    const total = balances.reduce((sum, b) => sum + effectiveBalance(b), 0n);
 
     if (total === 0n) {
         return balances.map((b) => ({ ...b, percentage: 0 }));
@@ -74,19 +336,27 @@ export function calculateAllocations(balances: ChainBalance[]): ChainBalance[] {
 
     return balances.map((b) => {
         // Calculate percentage with 2 decimal precision
-        const percentage = Number((b.balance * 10000n) / total) / 100;
-        logBalance(b.chain, ethers.formatUnits(b.balance, 6), percentage);
+        const percentage = Number((effectiveBalance(b) * 10000n) / total) / 100;
+        logBalance(
+            b.chain,
+            formatValue(b.balance),
+            percentage,
+            b.inTransit !== undefined ? formatValue(b.inTransit) : undefined
+        );
         return { ...b, percentage };
     });
 }
 
 /**
- * Get current state: balances with allocation percentages
+ * Get current state: balances (with in-transit transfers credited to their
+ * destination) and allocation percentages
  */
 export async function getCurrentState(
     walletAddress: string,
-    chains?: ChainName[]
+    chains?: ChainName[],
+    options: BalanceReadOptions = {}
 ): Promise<ChainBalance[]> {
-    const balances = await getAllBalances(walletAddress, chains);
-    return calculateAllocations(balances);
+    const balances = await getAllBalances(walletAddress, chains, options);
+    const valued = applyValueBasis(balances, options.valueBasis);
+    return calculateAllocations(creditInTransit(valued, getPendingTransfers(getNetwork())));
 }
@@ -0,0 +1,116 @@
+/**
+ * RebalanceX Multicall
+ * Batches contract reads through Multicall3, pinned to a single block,
+ * with a fallback to individual calls on chains without Multicall3
+ */
+
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from './config.js';
+import { logger } from './logger.js';
+import type { ChainConfig } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ContractCall {
+    target: string;
+    callData: string;
+}
+
+export interface BatchResult {
+    blockNumber: number;
+    blockTimestamp: number;       // unix seconds
+    returnData: (string | null)[]; // null where the individual call reverted
+}
+
+// The subset of a provider the batcher needs (lets tests pass a stub)
+export type CallProvider = Pick<ethers.Provider, 'call' | 'getCode' | 'getBlock'>;
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+// Whether Multicall3 is deployed, per chain + address
+const multicallAvailable = new Map<string, boolean>();
+
+// =============================================================================
+// Batching
+// =============================================================================
+
+export function getMulticallAddress(chain: ChainConfig): string {
+    return chain.multicall3 ?? MULTICALL3_ADDRESS;
+}
+
+async function hasMulticall3(chain: ChainConfig, provider: CallProvider): Promise<boolean> {
+    const address = getMulticallAddress(chain);
+    const key = `${chain.name}:${address.toLowerCase()}`;
+    const cached = multicallAvailable.get(key);
+    if (cached !== undefined) return cached;
+
+    const available = (await provider.getCode(address)) !== '0x';
+    if (!available) {
+        logger.info(`Multicall3 not deployed on ${chain.name}, falling back to individual calls`);
+    }
+    multicallAvailable.set(key, available);
+    return available;
+}
+
+/**
+ * Execute read calls at `blockNumber`, batched into a single Multicall3
+ * aggregate3 call when available. The block timestamp is read in the same batch.
+ */
+export async function batchCalls(
+    chain: ChainConfig,
+    provider: CallProvider,
+    calls: ContractCall[],
+    blockNumber: number
+): Promise<BatchResult> {
+    if (await hasMulticall3(chain, provider)) {
+        const multicall = getMulticallAddress(chain);
+        const batch = [
+            ...calls.map((c) => ({ target: c.target, allowFailure: true, callData: c.callData })),
+            {
+                target: multicall,
+                allowFailure: false,
+                callData: multicallInterface.encodeFunctionData('getCurrentBlockTimestamp'),
+            },
+        ];
+
+        const raw = await provider.call({
+            to: multicall,
+            data: multicallInterface.encodeFunctionData('aggregate3', [batch]),
+            blockTag: blockNumber,
+        });
+        const [results] = multicallInterface.decodeFunctionResult('aggregate3', raw) as unknown as [
+            { success: boolean; returnData: string }[],
+        ];
+
+        const timestampResult = results[results.length - 1]!;
+        const [timestamp] = multicallInterface.decodeFunctionResult(
+            'getCurrentBlockTimestamp',
+            timestampResult.returnData
+        ) as unknown as [bigint];
+
+        return {
+            blockNumber,
+            blockTimestamp: Number(timestamp),
+            returnData: results.slice(0, -1).map((r) => (r.success ? r.returnData : null)),
+        };
+    }
+
+    const [block, returnData] = await Promise.all([
+        provider.getBlock(blockNumber),
+        Promise.all(calls.map((c) =>
+            provider.call({ to: c.target, data: c.callData, blockTag: blockNumber })
+                .catch((error: unknown) => {
+                    // A revert only fails that call; transport errors fail the whole batch
+                    if (ethers.isError(error, 'CALL_EXCEPTION')) return null;
+                    throw error;
+                })
+        )),
+    ]);
+    if (!block) {
+        throw new Error(`Block ${blockNumber} not found on ${chain.name}`);
+    }
+
+    return { blockNumber, blockTimestamp: block.timestamp, returnData };
+}
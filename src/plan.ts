@@ -0,0 +1,198 @@
+/**
+ * RebalanceX Rebalance Plans
+ * Serializes a cycle's snapshot, deviations and actions to a reviewable JSON
+ * file with a content hash, and checks a plan against current balances
+ * before it is applied
+ */
+
+import { readFileSync } from 'node:fs';
+import { ethers } from 'ethers';
+import { getChain } from './config.js';
+import type { AllocationProjection } from './explain.js';
+import { fromStoredSnapshot } from './history.js';
+import type { ChainSnapshot, Snapshot, Stored, StoredSnapshot } from './history.js';
+import { toJson, writeJsonFile } from './store.js';
+import { formatValue } from './tokens.js';
+import type {
+    ActionRationale,
+    ChainName,
+    Deviation,
+    GasTopUpAction,
+    RebalanceAction,
+    SwapAction,
+    TransferAction,
+    TransferCost,
+    ValueBasis,
+} from './types.js';
+
+export const PLAN_VERSION = 2;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+// Actions with chain names in place of chain configs
+export type PlanAction =
+    | (Omit<TransferAction, 'from' | 'to'> & { from: ChainName; to: ChainName })
+    | (Omit<SwapAction, 'from'> & { from: ChainName })
+    | (Omit<GasTopUpAction, 'from'> & { from: ChainName });
+
+export interface RebalancePlan {
+    version: number;
+    wallet: string;
+    target: string;           // allocation the plan was made for
+    valueBasis: ValueBasis;
+    snapshot: Snapshot;       // balances as read when planning
+    deviations: Deviation[];
+    actions: PlanAction[];    // with their rationale
+    projection: AllocationProjection[];   // allocation before and after the actions
+    hash: string;             // keccak256 of everything above
+}
+
+type StoredPlan = Omit<RebalancePlan, 'snapshot' | 'actions' | 'projection'> & {
+    snapshot: StoredSnapshot;
+    actions: Record<string, unknown>[];
+    projection: Stored<AllocationProjection>[];
+};
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+export function toPlanAction(action: RebalanceAction): PlanAction {
+    if (action.type === 'transfer') {
+        return { ...action, from: action.from.name, to: action.to.name };
+    }
+    return { ...action, from: action.from.name };
+}
+
+/**
+ * Resolve a plan action's chains against the active network
+ */
+export function fromPlanAction(action: PlanAction): RebalanceAction {
+    if (action.type === 'transfer') {
+        return { ...action, from: getChain(action.from), to: getChain(action.to) };
+    }
+    return { ...action, from: getChain(action.from) };
+}
+
+function fromStoredAction(stored: Record<string, unknown>): PlanAction {
+    const rationale = stored['rationale'] as ActionRationale | undefined;
+    const action = {
+        ...stored,
+        amount: BigInt(stored['amount'] as string),
+        ...(rationale && {
+            rationale: {
+                ...rationale,
+                alternatives: rationale.alternatives.map((a) => ({ ...a, amount: BigInt(a.amount) })),
+            },
+        }),
+    };
+    switch (stored['type']) {
+        case 'transfer': {
+            const cost = stored['cost'] as Stored<TransferCost> | undefined;
+            return cost === undefined ? action as PlanAction : {
+                ...action,
+                cost: {
+                    sourceGas: BigInt(cost.sourceGas),
+                    destinationGas: BigInt(cost.destinationGas),
+                    protocolFee: BigInt(cost.protocolFee),
+                    total: BigInt(cost.total),
+                },
+            } as PlanAction;
+        }
+        case 'swap':
+            return { ...action, amountIn: BigInt(stored['amountIn'] as string) } as PlanAction;
+        case 'gasTopUp':
+            return { ...action, nativeAmount: BigInt(stored['nativeAmount'] as string) } as PlanAction;
+        default:
+            throw new Error(`Unknown action type in plan: ${String(stored['type'])}`);
+    }
+}
+
+// JSON with object keys sorted, so the hash does not depend on key order
+function canonicalJson(value: unknown): string {
+    return toJson(JSON.parse(toJson(value), (_key, v: unknown) =>
+        typeof v === 'object' && v !== null && !Array.isArray(v)
+            ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+            : v
+    ));
+}
+
+/**
+ * Content hash of a plan, ignoring any hash it already carries
+ */
+export function hashPlan(plan: Omit<RebalancePlan, 'hash'>): string {
+    return ethers.id(canonicalJson({ ...plan, hash: undefined }));
+}
+
+export function createPlan(plan: Omit<RebalancePlan, 'version' | 'hash'>): RebalancePlan {
+    const body = { version: PLAN_VERSION, ...plan };
+    return { ...body, hash: hashPlan(body) };
+}
+
+export function writePlan(path: string, plan: RebalancePlan): void {
+    writeJsonFile(path, plan);
+}
+
+/**
+ * Read a plan file, refusing it if its contents no longer match its hash
+ */
+export function readPlan(path: string): RebalancePlan {
+    let stored: StoredPlan;
+    try {
+        stored = JSON.parse(readFileSync(path, 'utf8')) as StoredPlan;
+    } catch (error) {
+        throw new Error(`Failed to read plan ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (stored.version !== PLAN_VERSION) {
+        throw new Error(`Unsupported plan version in ${path}: ${stored.version} (expected ${PLAN_VERSION})`);
+    }
+
+    const plan: RebalancePlan = {
+        ...stored,
+        snapshot: fromStoredSnapshot(stored.snapshot),
+        actions: stored.actions.map(fromStoredAction),
+        projection: stored.projection.map((p) => ({ ...p, before: BigInt(p.before), after: BigInt(p.after) })),
+    };
+    if (hashPlan(plan) !== plan.hash) {
+        throw new Error(`Plan ${path} was modified after it was created (hash mismatch)`);
+    }
+    return plan;
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+// Value of a chain counted toward the allocation
+function chainValue(chain: ChainSnapshot): bigint {
+    return chain.balance + chain.inTransit + chain.tokenValue;
+}
+
+/**
+ * Compare current balances with the plan's snapshot. Each chain may have moved
+ * by at most `tolerancePct` of the treasury; returns one message per chain
+ * that moved further.
+ */
+export function checkPlanDrift(plan: RebalancePlan, current: Snapshot, tolerancePct: number): string[] {
+    const total = plan.snapshot.chains.reduce((sum, c) => sum + chainValue(c), 0n);
+    const problems: string[] = [];
+    for (const planned of plan.snapshot.chains) {
+        const now = current.chains.find((c) => c.chain === planned.chain);
+        if (!now) {
+            problems.push(`${planned.chain}: no current balance`);
+            continue;
+        }
+        const before = chainValue(planned);
+        const after = chainValue(now);
+        const moved = after > before ? after - before : before - after;
+        const movedPct = total > 0n ? Number((moved * 1_000_000n) / total) / 10_000 : 0;
+        if (movedPct > tolerancePct) {
+            problems.push(
+                `${planned.chain}: ${formatValue(before)} → ${formatValue(after)} USDC (${movedPct.toFixed(2)}% of the treasury, tolerance ${tolerancePct}%)`
+            );
+        }
+    }
+    return problems;
+}
@@ -0,0 +1,181 @@
+/**
+ * RebalanceX Target Profiles
+ * Named target allocations loaded from a JSON file, with a cron schedule that
+ * picks the profile in force for each cycle
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseTargetAllocation } from './engine.js';
+import type { ChainName, ProfileSchedule, TargetProfiles } from './types.js';
+
+// =============================================================================
+// Cron Expressions
+// =============================================================================
+
+// Standard five-field cron: minute hour day-of-month month day-of-week
+const CRON_FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 },   // 0 and 7 are both Sunday
+] as const;
+
+export interface CronExpression {
+    values: Set<number>[];    // allowed values per field
+    anyDay: boolean;          // day of month is "*"
+    anyWeekday: boolean;      // day of week is "*"
+}
+
+function parseCronNumber(text: string, expression: string): number {
+    if (!/^\d+$/.test(text)) {
+        throw new Error(`Invalid cron expression "${expression}": ${text} is not a number`);
+    }
+    return parseInt(text, 10);
+}
+
+function parseCronField(text: string, field: typeof CRON_FIELDS[number], expression: string): Set<number> {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : parseCronNumber(stepText, expression);
+        let low: number = field.min;
+        let high: number = field.max;
+        if (range !== '*') {
+            const [from, to] = range!.split('-');
+            low = parseCronNumber(from!, expression);
+            // "5/15" steps from 5 to the end of the range, like cron
+            high = to !== undefined ? parseCronNumber(to, expression) : stepText !== undefined ? field.max : low;
+        }
+        if (step < 1 || low < field.min || high > field.max || low > high) {
+            throw new Error(
+                `Invalid cron expression "${expression}": ${part} is outside the ${field.name} range ${field.min}-${field.max}`
+            );
+        }
+        for (let value = low; value <= high; value += step) {
+            values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Parse a five-field cron expression (e.g., "0-59 9-17 * * 1-5"). Supports
+ * "*", numbers, ranges, lists and steps.
+ */
+export function parseCron(expression: string): CronExpression {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== CRON_FIELDS.length) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+    return {
+        values: CRON_FIELDS.map((field, i) => parseCronField(parts[i]!, field, expression)),
+        anyDay: parts[2] === '*',
+        anyWeekday: parts[4] === '*',
+    };
+}
+
+/**
+ * Whether a cron expression matches the minute containing `date` (UTC). As in
+ * cron, a restricted day of month and day of week match if either does.
+ */
+export function cronMatches(cron: CronExpression, date: Date): boolean {
+    const [minutes, hours, days, months, weekdays] = cron.values;
+    if (!minutes!.has(date.getUTCMinutes()) || !hours!.has(date.getUTCHours()) ||
+        !months!.has(date.getUTCMonth() + 1)) {
+        return false;
+    }
+    const day = days!.has(date.getUTCDate());
+    const weekday = weekdays!.has(date.getUTCDay());
+    return cron.anyDay || cron.anyWeekday ? day && weekday : day || weekday;
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+function fail(source: string, path: string, message: string): never {
+    throw new Error(`Invalid target profiles ${source}: ${path} ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readSchedule(raw: unknown, names: string[], source: string): ProfileSchedule[] {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) fail(source, 'schedule', 'must be an array');
+
+    return raw.map((entry: unknown, i) => {
+        const path = `schedule[${i}]`;
+        if (!isRecord(entry)) fail(source, path, 'must be an object');
+        const { cron, profile } = entry;
+        if (typeof cron !== 'string') fail(source, `${path}.cron`, 'must be a string');
+        try {
+            parseCron(cron);
+        } catch (error) {
+            fail(source, `${path}.cron`, error instanceof Error ? error.message : String(error));
+        }
+        if (typeof profile !== 'string' || !names.includes(profile)) {
+            fail(source, `${path}.profile`, `must name a profile (${names.join(', ')})`);
+        }
+        return { cron, profile };
+    });
+}
+
+/**
+ * Validate parsed target profiles. Every allocation must parse for `chains`.
+ */
+export function validateTargetProfiles(
+    raw: unknown,
+    chains: ChainName[],
+    source = '<inline>'
+): TargetProfiles {
+    if (!isRecord(raw) || !isRecord(raw['profiles']) || Object.keys(raw['profiles']).length === 0) {
+        fail(source, 'profiles', 'must be an object of named target allocations');
+    }
+
+    const profiles: Record<string, string> = {};
+    for (const [name, target] of Object.entries(raw['profiles'])) {
+        if (typeof target !== 'string') fail(source, `profiles.${name}`, 'must be a target allocation string');
+        try {
+            parseTargetAllocation(target, chains);
+        } catch (error) {
+            fail(source, `profiles.${name}`, error instanceof Error ? error.message : String(error));
+        }
+        profiles[name] = target;
+    }
+
+    const names = Object.keys(profiles);
+    const fallback = raw['default'];
+    if (typeof fallback !== 'string' || !names.includes(fallback)) {
+        fail(source, 'default', `must name a profile (${names.join(', ')})`);
+    }
+
+    return { profiles, schedule: readSchedule(raw['schedule'], names, source), default: fallback };
+}
+
+/**
+ * Read and validate a target profiles file
+ */
+export function loadTargetProfiles(path: string, chains: ChainName[]): TargetProfiles {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+        throw new Error(
+            `Failed to read target profiles ${path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    return validateTargetProfiles(raw, chains, path);
+}
+
+/**
+ * The profile in force at `now`: the first schedule entry matching the
+ * current minute, otherwise the default
+ */
+export function selectProfile(profiles: TargetProfiles, now = new Date()): { name: string; target: string } {
+    const entry = profiles.schedule.find((e) => cronMatches(parseCron(e.cron), now));
+    const name = entry?.profile ?? profiles.default;
+    return { name, target: profiles.profiles[name]! };
+}
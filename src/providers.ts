@@ -0,0 +1,278 @@
+/**
+ * RebalanceX Provider Pool
+ * Shared multi-RPC provider layer with health tracking, latency scoring,
+ * automatic failover and quorum reads. Used by the monitor and all executors.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from './logger.js';
+import type { ChainConfig, ChainName } from './types.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const HEALTH_CONFIG = {
+    latencySmoothing: 0.3,          // EWMA weight of the newest latency sample
+    initialLatencyMs: 500,          // assumed latency before the first sample
+    failurePenalty: 4,              // score multiplier per unit of failure rate
+    cooldownAfterFailures: 3,       // consecutive failures before cooling down
+    cooldownBaseMs: 30000,
+    maxCooldownMs: 300000,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface EndpointHealth {
+    url: string;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    latencyMs: number;              // smoothed (EWMA) latency of successful calls
+    cooldownUntil: number;          // epoch ms; endpoint is deprioritised until then
+    lastError?: string;
+}
+
+interface Endpoint {
+    health: EndpointHealth;
+    provider: ethers.JsonRpcProvider;
+}
+
+interface Pool {
+    key: string;
+    endpoints: Endpoint[];
+}
+
+// =============================================================================
+// Health Scoring
+// =============================================================================
+
+/**
+ * Score an endpoint (lower is better). Cooling-down endpoints score Infinity
+ * so they are only used as a last resort.
+ */
+export function scoreEndpoint(health: EndpointHealth, now = Date.now()): number {
+    if (health.cooldownUntil > now) {
+        return Infinity;
+    }
+    const calls = health.successes + health.failures;
+    const failureRate = calls === 0 ? 0 : health.failures / calls;
+    return health.latencyMs * (1 + failureRate * HEALTH_CONFIG.failurePenalty);
+}
+
+/**
+ * Order endpoints from healthiest to least healthy (stable for equal scores)
+ */
+export function rankEndpoints<T extends { health: EndpointHealth }>(endpoints: T[], now = Date.now()): T[] {
+    return endpoints
+        .map((endpoint, index) => ({ endpoint, index, score: scoreEndpoint(endpoint.health, now) }))
+        .sort((a, b) => (a.score === b.score ? a.index - b.index : a.score - b.score))
+        .map(({ endpoint }) => endpoint);
+}
+
+export function recordSuccess(health: EndpointHealth, latencyMs: number): void {
+    const alpha = HEALTH_CONFIG.latencySmoothing;
+    health.latencyMs = health.successes === 0
+        ? latencyMs
+        : alpha * latencyMs + (1 - alpha) * health.latencyMs;
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.cooldownUntil = 0;
+}
+
+export function recordFailure(health: EndpointHealth, error: unknown, now = Date.now()): void {
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
+
+    const excess = health.consecutiveFailures - HEALTH_CONFIG.cooldownAfterFailures;
+    if (excess >= 0) {
+        const cooldownMs = Math.min(
+            HEALTH_CONFIG.cooldownBaseMs * 2 ** excess,
+            HEALTH_CONFIG.maxCooldownMs
+        );
+        health.cooldownUntil = now + cooldownMs;
+    }
+}
+
+// =============================================================================
+// Pool Management
+// =============================================================================
+
+const pools = new Map<ChainName, Pool>();
+
+function getPool(chain: ChainConfig): Pool {
+    // Rebuild the pool if the chain's endpoints changed (e.g., after switching network profile)
+    const key = `${chain.chainId}|${chain.rpcUrls.join(',')}`;
+    let pool = pools.get(chain.name);
+    if (!pool || pool.key !== key) {
+        pool = {
+            key,
+            endpoints: chain.rpcUrls.map((url) => ({
+                health: {
+                    url,
+                    successes: 0,
+                    failures: 0,
+                    consecutiveFailures: 0,
+                    latencyMs: HEALTH_CONFIG.initialLatencyMs,
+                    cooldownUntil: 0,
+                },
+                // Static network avoids a detection round-trip and endless retries on dead endpoints
+                provider: new ethers.JsonRpcProvider(url, chain.chainId, { staticNetwork: true }),
+            })),
+        };
+        pools.set(chain.name, pool);
+    }
+    return pool;
+}
+
+/**
+ * Get the currently healthiest provider for a chain
+ */
+export function getProvider(chain: ChainConfig): ethers.JsonRpcProvider {
+    return rankEndpoints(getPool(chain).endpoints)[0]!.provider;
+}
+
+/**
+ * Snapshot of endpoint health for a chain, healthiest first
+ */
+export function getPoolHealth(chain: ChainConfig): EndpointHealth[] {
+    return rankEndpoints(getPool(chain).endpoints).map((e) => ({ ...e.health }));
+}
+
+async function timed<T>(endpoint: Endpoint, operation: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+        const result = await operation(endpoint.provider);
+        recordSuccess(endpoint.health, Date.now() - start);
+        return result;
+    } catch (error) {
+        recordFailure(endpoint.health, error);
+        throw error;
+    }
+}
+
+/**
+ * Run a read operation against the healthiest endpoint, failing over to the
+ * next endpoint on error until all endpoints have been tried
+ */
+export async function withProvider<T>(
+    chain: ChainConfig,
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    operationName = 'RPC call'
+): Promise<T> {
+    const ranked = rankEndpoints(getPool(chain).endpoints);
+    let lastError: unknown;
+
+    for (const endpoint of ranked) {
+        try {
+            return await timed(endpoint, operation);
+        } catch (error) {
+            lastError = error;
+            logger.warn(`${operationName} failed on ${chain.name} via ${endpoint.health.url}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    throw new Error(
+        `${operationName} failed on all ${ranked.length} RPC endpoint(s) for ${chain.name}: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+}
+
+/**
+ * Read a value from several endpoints and return it once `quorum` of them agree.
+ * Starts with the healthiest `quorum` endpoints and adds more on failure or disagreement.
+ * The quorum is capped at the number of configured endpoints. `keyOf` decides which
+ * results count as agreeing.
+ */
+export async function quorumRead<T>(
+    chain: ChainConfig,
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    quorum = chain.rpcQuorum ?? 1,
+    operationName = 'Quorum read',
+    keyOf: (value: T) => string = String
+): Promise<T> {
+    const ranked = rankEndpoints(getPool(chain).endpoints);
+    const required = Math.max(1, Math.min(quorum, ranked.length));
+    const votes = new Map<string, { value: T; count: number }>();
+    const errors: string[] = [];
+
+    let next = 0;
+    while (next < ranked.length) {
+        // Query as many endpoints as are still needed to possibly reach quorum
+        const best = Math.max(0, ...[...votes.values()].map((v) => v.count));
+        const batch = ranked.slice(next, next + (required - best));
+        next += batch.length;
+
+        const results = await Promise.allSettled(batch.map((endpoint) => timed(endpoint, operation)));
+        results.forEach((result, i) => {
+            if (result.status === 'fulfilled') {
+                const key = keyOf(result.value);
+                const vote = votes.get(key) ?? { value: result.value, count: 0 };
+                vote.count++;
+                votes.set(key, vote);
+            } else {
+                const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+                errors.push(`${batch[i]!.health.url}: ${reason}`);
+            }
+        });
+
+        for (const vote of votes.values()) {
+            if (vote.count >= required) {
+                return vote.value;
+            }
+        }
+    }
+
+    throw new Error(
+        `${operationName} on ${chain.name} did not reach quorum ${required}/${ranked.length}` +
+        (votes.size > 1 ? ` (endpoints disagree: ${[...votes.keys()].join(' vs ')})` : '') +
+        (errors.length > 0 ? ` (${errors.join('; ')})` : '')
+    );
+}
+
+// =============================================================================
+// Network Verification
+// =============================================================================
+
+// A dead endpoint must not hold up startup
+const CHAIN_ID_TIMEOUT_MS = 15000;
+
+async function readChainId(provider: ethers.JsonRpcProvider): Promise<number> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`eth_chainId timed out after ${CHAIN_ID_TIMEOUT_MS}ms`)), CHAIN_ID_TIMEOUT_MS);
+    });
+    try {
+        // Ask the endpoint directly; pooled providers use a static network
+        return Number(await Promise.race([provider.send('eth_chainId', []) as Promise<string>, timeout]));
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Check that every RPC endpoint reports the registry's chainId. Any endpoint
+ * may be failed over to, so all of them are asked; unreachable ones are warned
+ * about and checked again at the next start.
+ * Returns a list of problems (empty when consistent)
+ */
+export async function findChainIdMismatches(chains: ChainConfig[]): Promise<string[]> {
+    const problems = await Promise.all(chains.flatMap((chain) => getPool(chain).endpoints.map(async (endpoint) => {
+        try {
+            const actual = await timed(endpoint, readChainId);
+            return actual === chain.chainId
+                ? undefined
+                : `${chain.name} RPC ${endpoint.health.url} reports chainId ${actual}, registry says ${chain.chainId}`;
+        } catch (error) {
+            logger.warn(`Could not verify the chainId of ${chain.name} via ${endpoint.health.url}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return undefined;
+        }
+    })));
+    return problems.filter((p): p is string => p !== undefined);
+}
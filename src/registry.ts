@@ -0,0 +1,317 @@
+/**
+ * RebalanceX Chain Registry
+ * Loads and validates the JSON chain registry / network profile that defines supported chains
+ */
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { ethers } from 'ethers';
+import type {
+    ChainConfig,
+    ChainName,
+    ChainRegistry,
+    NetworkName,
+    UniswapAddresses,
+    WatchedAddress,
+} from './types.js';
+
+export const NETWORKS: readonly NetworkName[] = ['testnet', 'mainnet'];
+
+/**
+ * Path of the built-in registry preset for a network (presets/<network>.json)
+ */
+export function presetPath(network: NetworkName): string {
+    return fileURLToPath(new URL(`../presets/${network}.json`, import.meta.url));
+}
+
+export const DEFAULT_REGISTRY_PATH = presetPath('testnet');
+
+const CHAIN_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+
+/**
+ * Derive the environment variable prefix for a chain (e.g., polygonAmoy → POLYGON_AMOY)
+ */
+export function toEnvPrefix(chainName: ChainName): string {
+    return chainName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function fail(source: string, path: string, message: string): never {
+    throw new Error(`Invalid chain registry ${source}: ${path} ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readInteger(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string,
+    min = 0
+): number {
+    const value = entry[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+        fail(source, `${path}.${key}`, `must be an integer >= ${min}`);
+    }
+    return value;
+}
+
+function readAddress(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string
+): string {
+    const value = entry[key];
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        fail(source, `${path}.${key}`, 'must be a valid address');
+    }
+    return value;
+}
+
+function readNetwork(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string
+): NetworkName {
+    const value = entry[key];
+    if (!NETWORKS.includes(value as NetworkName)) {
+        fail(source, `${path}.${key}`, `must be one of ${NETWORKS.join(', ')}`);
+    }
+    return value as NetworkName;
+}
+
+function readUniswap(
+    entry: Record<string, unknown>,
+    path: string,
+    source: string
+): UniswapAddresses {
+    if (!isRecord(entry['uniswap'])) {
+        fail(source, `${path}.uniswap`, 'must be an object');
+    }
+    const uniswap = entry['uniswap'];
+    const uniswapPath = `${path}.uniswap`;
+    return {
+        poolManager: readAddress(uniswap, 'poolManager', uniswapPath, source),
+        universalRouter: readAddress(uniswap, 'universalRouter', uniswapPath, source),
+        permit2: readAddress(uniswap, 'permit2', uniswapPath, source),
+        quoterV2: readAddress(uniswap, 'quoterV2', uniswapPath, source),
+    };
+}
+
+function readTokens(
+    entry: Record<string, unknown>,
+    path: string,
+    source: string
+): Record<string, string> {
+    if (!isRecord(entry['tokens'])) {
+        fail(source, `${path}.tokens`, 'must be an object of symbol → address');
+    }
+    const tokens: Record<string, string> = {};
+    for (const symbol of Object.keys(entry['tokens'])) {
+        tokens[symbol] = readAddress(entry['tokens'], symbol, `${path}.tokens`, source);
+    }
+    return tokens;
+}
+
+function readWatch(
+    entry: Record<string, unknown>,
+    path: string,
+    source: string
+): WatchedAddress[] {
+    const value = entry['watch'];
+    if (!Array.isArray(value)) {
+        fail(source, `${path}.watch`, 'must be an array of { address, label? }');
+    }
+    return value.map((item, i) => {
+        const itemPath = `${path}.watch[${i}]`;
+        if (!isRecord(item)) {
+            fail(source, itemPath, 'must be an object with an address');
+        }
+        const watched: WatchedAddress = { address: readAddress(item, 'address', itemPath, source) };
+        if (item['label'] !== undefined) {
+            if (typeof item['label'] !== 'string') {
+                fail(source, `${itemPath}.label`, 'must be a string');
+            }
+            watched.label = item['label'];
+        }
+        return watched;
+    });
+}
+
+function readNativeAmount(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string
+): bigint {
+    const value = entry[key];
+    if (typeof value !== 'string' || !/^\d+(\.\d{1,18})?$/.test(value)) {
+        fail(source, `${path}.${key}`, 'must be a decimal string in native units (e.g., "0.05")');
+    }
+    return ethers.parseEther(value);
+}
+
+// USDC amount in value units (6 decimals, see tokens.ts)
+function readUsdcAmount(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string
+): bigint {
+    const value = entry[key];
+    if (typeof value !== 'string' || !/^\d+(\.\d{1,6})?$/.test(value)) {
+        fail(source, `${path}.${key}`, 'must be a decimal string in USDC (e.g., "2500")');
+    }
+    return ethers.parseUnits(value, 6);
+}
+
+function readUrls(
+    entry: Record<string, unknown>,
+    key: string,
+    path: string,
+    source: string
+): string[] {
+    const value = entry[key];
+    if (!Array.isArray(value) || value.length === 0) {
+        fail(source, `${path}.${key}`, 'must be a non-empty array of URLs');
+    }
+    return value.map((url, i) => {
+        if (typeof url !== 'string' || !/^(https?|wss?):\/\//.test(url)) {
+            fail(source, `${path}.${key}[${i}]`, 'must be an http(s) or ws(s) URL');
+        }
+        return url;
+    });
+}
+
+/**
+ * Validate a parsed registry document and return the network profile it describes
+ */
+export function validateRegistry(
+    raw: unknown,
+    source = '<inline>'
+): ChainRegistry {
+    if (!isRecord(raw) || !isRecord(raw['chains'])) {
+        fail(source, 'chains', 'must be an object keyed by chain name');
+    }
+    const network = readNetwork(raw, 'network', 'registry', source);
+    const attestationApiUrl = raw['attestationApiUrl'];
+    if (typeof attestationApiUrl !== 'string' || !/^https?:\/\//.test(attestationApiUrl)) {
+        fail(source, 'attestationApiUrl', 'must be an http(s) URL');
+    }
+
+    const chains: Record<ChainName, ChainConfig> = {};
+    const seenChainIds = new Map<number, ChainName>();
+    const seenDomains = new Map<number, ChainName>();
+
+    for (const [name, entry] of Object.entries(raw['chains'])) {
+        const path = `chains.${name}`;
+        if (!CHAIN_NAME_PATTERN.test(name)) {
+            fail(source, path, 'name must be alphanumeric and start with a letter');
+        }
+        if (!isRecord(entry)) {
+            fail(source, path, 'must be an object');
+        }
+
+        const rpcUrls = readUrls(entry, 'rpcUrls', path, source);
+        const config: ChainConfig = {
+            name,
+            network: readNetwork(entry, 'network', path, source),
+            chainId: readInteger(entry, 'chainId', path, source, 1),
+            rpcUrl: rpcUrls[0]!,
+            rpcUrls,
+            usdcAddress: readAddress(entry, 'usdcAddress', path, source),
+            tokenMessenger: readAddress(entry, 'tokenMessenger', path, source),
+            messageTransmitter: readAddress(entry, 'messageTransmitter', path, source),
+            cctpDomain: readInteger(entry, 'cctpDomain', path, source),
+            decimals: readInteger(entry, 'decimals', path, source),
+        };
+        if (entry['multicall3'] !== undefined) {
+            config.multicall3 = readAddress(entry, 'multicall3', path, source);
+        }
+        if (entry['rpcQuorum'] !== undefined) {
+            config.rpcQuorum = readInteger(entry, 'rpcQuorum', path, source, 1);
+            if (config.rpcQuorum > rpcUrls.length) {
+                fail(source, `${path}.rpcQuorum`, `exceeds the ${rpcUrls.length} configured rpcUrls`);
+            }
+        }
+        if (entry['uniswap'] !== undefined) {
+            config.uniswap = readUniswap(entry, path, source);
+        }
+        if (entry['tokens'] !== undefined) {
+            config.tokens = readTokens(entry, path, source);
+        }
+        if (entry['watch'] !== undefined) {
+            config.watch = readWatch(entry, path, source);
+        }
+        if (entry['gasFloor'] !== undefined) {
+            config.gasFloor = readNativeAmount(entry, 'gasFloor', path, source);
+        }
+        if (entry['attestationSeconds'] !== undefined) {
+            config.attestationSeconds = readInteger(entry, 'attestationSeconds', path, source);
+        }
+        if (entry['nativePrice'] !== undefined) {
+            config.nativePrice = readUsdcAmount(entry, 'nativePrice', path, source);
+        }
+
+        const chainIdOwner = seenChainIds.get(config.chainId);
+        if (chainIdOwner) {
+            fail(source, `${path}.chainId`, `duplicates chainId of ${chainIdOwner}`);
+        }
+        const domainOwner = seenDomains.get(config.cctpDomain);
+        if (domainOwner) {
+            fail(source, `${path}.cctpDomain`, `duplicates cctpDomain of ${domainOwner}`);
+        }
+        seenChainIds.set(config.chainId, name);
+        seenDomains.set(config.cctpDomain, name);
+
+        chains[name] = config;
+    }
+
+    if (Object.keys(chains).length === 0) {
+        fail(source, 'chains', 'must define at least one chain');
+    }
+
+    return { network, attestationApiUrl, chains };
+}
+
+/**
+ * Check that a profile only contains endpoints belonging to its own network
+ * Returns a list of problems (empty when consistent)
+ */
+export function findNetworkMismatches(registry: ChainRegistry): string[] {
+    const problems: string[] = [];
+
+    for (const chain of Object.values(registry.chains)) {
+        if (chain.network !== registry.network) {
+            problems.push(`chain ${chain.name} is ${chain.network} but the profile is ${registry.network}`);
+        }
+    }
+
+    // Circle only serves testnet attestations from the sandbox host
+    const isSandbox = registry.attestationApiUrl.includes('sandbox');
+    if (isSandbox !== (registry.network === 'testnet')) {
+        problems.push(
+            `attestation API ${registry.attestationApiUrl} does not serve ${registry.network} attestations`
+        );
+    }
+
+    return problems;
+}
+
+/**
+ * Read and validate a chain registry file
+ */
+export function loadChainRegistry(path = DEFAULT_REGISTRY_PATH): ChainRegistry {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+        throw new Error(
+            `Failed to read chain registry ${path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    return validateRegistry(raw, path);
+}
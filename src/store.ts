@@ -0,0 +1,71 @@
+/**
+ * RebalanceX Local State Store
+ * JSON / JSONL files under the data directory (REBALANCEX_DATA_DIR, default .rebalancex)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+/**
+ * Directory holding all persisted state
+ */
+export function getDataDir(): string {
+    return resolve(process.env['REBALANCEX_DATA_DIR'] ?? '.rebalancex');
+}
+
+/**
+ * Absolute path of a file inside the data directory
+ */
+export function dataPath(name: string): string {
+    return join(getDataDir(), name);
+}
+
+// bigint values are stored as decimal strings; readers convert them back
+function replacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export function toJson(value: unknown, indent?: number): string {
+    return JSON.stringify(value, replacer, indent);
+}
+
+/**
+ * Read a JSON file, returning `fallback` if it does not exist
+ */
+export function readJsonFile<T>(path: string, fallback: T): T {
+    if (!existsSync(path)) {
+        return fallback;
+    }
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename)
+ */
+export function writeJsonFile(path: string, value: unknown): void {
+    mkdirSync(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, toJson(value, 2) + '\n');
+    renameSync(tmpPath, path);
+}
+
+/**
+ * Append one record to a JSONL file
+ */
+export function appendJsonLine(path: string, value: unknown): void {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, toJson(value) + '\n');
+}
+
+/**
+ * Read all records of a JSONL file (skipping blank lines)
+ */
+export function readJsonLines<T>(path: string): T[] {
+    if (!existsSync(path)) {
+        return [];
+    }
+    return readFileSync(path, 'utf8')
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line) => JSON.parse(line) as T);
+}
@@ -0,0 +1,179 @@
+/**
+ * RebalanceX Rebalance Strategies
+ * Decide whether a cycle rebalances and plan its actions: on a threshold
+ * breach, on a fixed period, or part of the way each cycle
+ */
+
+import { calculateDeviations, generateActions, needsRebalancing } from './engine.js';
+import type { RouteWeights } from './optimizer.js';
+import type {
+    ChainBalance,
+    Deviation,
+    PlannerName,
+    RebalanceAction,
+    StrategyName,
+    TargetAllocation,
+} from './types.js';
+
+export const STRATEGIES: StrategyName[] = ['threshold', 'periodic', 'proportional'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StrategyContext {
+    threshold: number;            // trigger band (%), per-chain where overridden
+    band: number;                 // inner band (%) triggered chains are brought back to
+    planner: PlannerName;
+    now: number;                  // epoch ms
+    lastRebalanceAt?: number;     // epoch ms of the last transfer, if any
+    lastPeriodicAt?: number;      // epoch ms of the last full periodic evaluation, if any
+    routeWeights?: () => Promise<RouteWeights>;   // only fetched when the strategy plans
+}
+
+export interface StrategyResult {
+    actions: RebalanceAction[];
+    reason: string;               // why the strategy did or did not rebalance
+    periodic?: boolean;           // a full periodic evaluation ran; the next period starts now
+}
+
+export interface RebalanceStrategy {
+    name: StrategyName;
+    evaluate(
+        balances: ChainBalance[],
+        targets: TargetAllocation[],
+        context: StrategyContext
+    ): Promise<StrategyResult>;
+}
+
+export interface StrategyOptions {
+    periodHours: number;          // periodic: hours between rebalances
+    correction: number;           // proportional: share (0-1] of the deviation corrected per cycle
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Chains beyond their threshold or breaching a hard constraint, described
+ */
+function describeTriggers(deviations: Deviation[], threshold: number): string[] {
+    return deviations.flatMap((d) => {
+        if (d.breach) return [`${d.chain} ${d.breach === 'floor' ? 'below its floor' : 'above its max'}`];
+        const limit = d.threshold ?? threshold;
+        if (Math.abs(d.deviation) <= limit) return [];
+        return [`${d.chain} ${d.deviation > 0 ? '+' : ''}${d.deviation.toFixed(2)}% beyond ±${limit}%`];
+    });
+}
+
+async function plan(
+    balances: ChainBalance[],
+    targets: TargetAllocation[],
+    threshold: number,
+    context: StrategyContext,
+    options: { band?: number; correction?: number } = {}
+): Promise<RebalanceAction[]> {
+    const routeWeights = context.planner === 'min-cost' ? await context.routeWeights?.() : undefined;
+    return generateActions(balances, targets, threshold, {
+        planner: context.planner,
+        ...options,
+        ...(routeWeights && { routeWeights }),
+    });
+}
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+/**
+ * Rebalance when a chain leaves its threshold or breaches a hard constraint,
+ * bringing triggered chains back to their inner band
+ */
+export function thresholdStrategy(): RebalanceStrategy {
+    return {
+        name: 'threshold',
+        async evaluate(balances, targets, context) {
+            const deviations = calculateDeviations(balances, targets);
+            if (!needsRebalancing(deviations, context.threshold)) {
+                return { actions: [], reason: 'all chains within threshold' };
+            }
+            return {
+                actions: await plan(balances, targets, context.threshold, context, { band: context.band }),
+                reason: describeTriggers(deviations, context.threshold).join(', '),
+            };
+        },
+    };
+}
+
+/**
+ * Rebalance every chain to its exact target once per period, regardless of
+ * drift. Breached hard constraints are still corrected as soon as they occur.
+ * The period runs from the last transfer or the last full evaluation, so a
+ * period with nothing worth sending waits for the next one.
+ */
+export function periodicStrategy(periodHours: number): RebalanceStrategy {
+    return {
+        name: 'periodic',
+        async evaluate(balances, targets, context) {
+            // Per-chain thresholds and bands do not apply: every chain goes to its exact target
+            const exact = targets.map(({ threshold: _threshold, band: _band, ...target }) => target);
+            const last = Math.max(context.lastRebalanceAt ?? -Infinity, context.lastPeriodicAt ?? -Infinity);
+            const elapsed = last === -Infinity ? undefined : context.now - last;
+
+            if (elapsed !== undefined && elapsed < periodHours * HOUR_MS) {
+                // Between periods only breached hard constraints are corrected
+                const breaches = describeTriggers(calculateDeviations(balances, exact), Infinity);
+                if (breaches.length === 0) {
+                    const hoursLeft = (periodHours * HOUR_MS - elapsed) / HOUR_MS;
+                    return { actions: [], reason: `next periodic rebalance in ${hoursLeft.toFixed(1)}h` };
+                }
+                return { actions: await plan(balances, exact, Infinity, context), reason: breaches.join(', ') };
+            }
+
+            return {
+                actions: await plan(balances, exact, 0, context),
+                reason: elapsed === undefined
+                    ? 'no previous rebalance'
+                    : `${(elapsed / HOUR_MS).toFixed(1)}h since the last rebalance (period ${periodHours}h)`,
+                periodic: true,
+            };
+        },
+    };
+}
+
+/**
+ * When a chain leaves its threshold, correct only part of each triggered
+ * chain's deviation per cycle, converging over several cycles
+ */
+export function proportionalStrategy(correction: number): RebalanceStrategy {
+    return {
+        name: 'proportional',
+        async evaluate(balances, targets, context) {
+            const deviations = calculateDeviations(balances, targets);
+            if (!needsRebalancing(deviations, context.threshold)) {
+                return { actions: [], reason: 'all chains within threshold' };
+            }
+            return {
+                actions: await plan(balances, targets, context.threshold, context, { band: context.band, correction }),
+                reason: `correcting ${Number((correction * 100).toFixed(2))}% of ${describeTriggers(deviations, context.threshold).join(', ')}`,
+            };
+        },
+    };
+}
+
+/**
+ * Build a strategy by name
+ */
+export function createStrategy(name: StrategyName, options: StrategyOptions): RebalanceStrategy {
+    switch (name) {
+        case 'threshold':
+            return thresholdStrategy();
+        case 'periodic':
+            return periodicStrategy(options.periodHours);
+        case 'proportional':
+            return proportionalStrategy(options.correction);
+    }
+}
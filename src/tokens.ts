@@ -0,0 +1,88 @@
+/**
+ * RebalanceX Token Units
+ * Per-chain token decimals and conversion to the common fixed-point value unit
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from './config.js';
+import { logger } from './logger.js';
+import { withProvider } from './providers.js';
+import type { ChainConfig } from './types.js';
+
+// Balances, allocations and rebalancing amounts are all expressed in this unit
+// (USDC-equivalent with 6 decimals) regardless of the token's on-chain decimals
+export const VALUE_DECIMALS = 6;
+
+// Cache decimals per chain + token address
+const decimalsCache = new Map<string, number>();
+
+/**
+ * Convert an on-chain token amount to value units
+ */
+export function toValueUnits(amount: bigint, decimals: number): bigint {
+    if (decimals === VALUE_DECIMALS) return amount;
+    if (decimals > VALUE_DECIMALS) {
+        return amount / 10n ** BigInt(decimals - VALUE_DECIMALS);
+    }
+    return amount * 10n ** BigInt(VALUE_DECIMALS - decimals);
+}
+
+/**
+ * Convert value units back to an on-chain token amount (rounds down)
+ */
+export function fromValueUnits(amount: bigint, decimals: number): bigint {
+    if (decimals === VALUE_DECIMALS) return amount;
+    if (decimals > VALUE_DECIMALS) {
+        return amount * 10n ** BigInt(decimals - VALUE_DECIMALS);
+    }
+    return amount / 10n ** BigInt(VALUE_DECIMALS - decimals);
+}
+
+/**
+ * Format a value-unit amount for display
+ */
+export function formatValue(amount: bigint): string {
+    return ethers.formatUnits(amount, VALUE_DECIMALS);
+}
+
+/**
+ * Query (and cache) a token's decimals() on a chain.
+ * Falls back to the registry's configured decimals for the chain's USDC if the call fails.
+ */
+export async function getTokenDecimals(chain: ChainConfig, tokenAddress: string): Promise<number> {
+    const key = `${chain.name}:${tokenAddress.toLowerCase()}`;
+    const cached = decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    try {
+        const decimals = await withProvider(
+            chain,
+            async (provider) => {
+                const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+                return Number(await token.getFunction('decimals')() as bigint);
+            },
+            'decimals() read'
+        );
+        decimalsCache.set(key, decimals);
+        return decimals;
+    } catch (error) {
+        if (tokenAddress.toLowerCase() !== chain.usdcAddress.toLowerCase()) {
+            throw error;
+        }
+        logger.warn(`Could not read USDC decimals on ${chain.name}, using registry value ${chain.decimals}`, {
+            error: error instanceof Error ? error.message : String(error),
+        });
+        return chain.decimals;
+    }
+}
+
+/**
+ * Format an on-chain token amount using the token's decimals
+ */
+export async function formatTokenAmount(
+    chain: ChainConfig,
+    tokenAddress: string,
+    amount: bigint
+): Promise<string> {
+    return ethers.formatUnits(amount, await getTokenDecimals(chain, tokenAddress));
+}
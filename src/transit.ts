@@ -0,0 +1,66 @@
+/**
+ * RebalanceX In-Transit Tracking
+ * Burned-but-not-yet-minted CCTP transfers, credited to their destination chain
+ */
+
+import { logger } from './logger.js';
+import { dataPath, readJsonFile, writeJsonFile } from './store.js';
+import type { ChainBalance, NetworkName, PendingTransfer } from './types.js';
+
+const PENDING_FILE = 'in-transit.json';
+
+type StoredPendingTransfer = Omit<PendingTransfer, 'amount'> & { amount: string };
+
+function readPendingTransfers(): PendingTransfer[] {
+    const stored = readJsonFile<StoredPendingTransfer[]>(dataPath(PENDING_FILE), []);
+    return stored.map((t) => ({ ...t, amount: BigInt(t.amount) }));
+}
+
+/**
+ * Transfers on `network` that have been burned on the source chain but not minted yet
+ */
+export function getPendingTransfers(network: NetworkName): PendingTransfer[] {
+    return readPendingTransfers().filter((t) => t.network === network);
+}
+
+function savePendingTransfers(transfers: PendingTransfer[]): void {
+    writeJsonFile(dataPath(PENDING_FILE), transfers);
+}
+
+/**
+ * Record a burn whose mint is still outstanding
+ */
+export function recordPendingTransfer(transfer: PendingTransfer): void {
+    const transfers = readPendingTransfers().filter((t) => t.burnTxHash !== transfer.burnTxHash);
+    transfers.push(transfer);
+    savePendingTransfers(transfers);
+    logger.debug(`Tracking in-transit transfer ${transfer.from} → ${transfer.to}`, {
+        burnTxHash: transfer.burnTxHash,
+    });
+}
+
+/**
+ * Stop tracking a transfer once it has been minted
+ */
+export function clearPendingTransfer(burnTxHash: string): void {
+    const transfers = readPendingTransfers();
+    const remaining = transfers.filter((t) => t.burnTxHash !== burnTxHash);
+    if (remaining.length !== transfers.length) {
+        savePendingTransfers(remaining);
+    }
+}
+
+/**
+ * Credit pending transfers to their destination chain as in-transit funds
+ */
+export function creditInTransit(
+    balances: ChainBalance[],
+    pending: PendingTransfer[]
+): ChainBalance[] {
+    return balances.map((b) => {
+        const inTransit = pending
+            .filter((t) => t.to === b.chain)
+            .reduce((sum, t) => sum + t.amount, 0n);
+        return inTransit > 0n ? { ...b, inTransit } : b;
+    });
+}
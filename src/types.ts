@@ -2,18 +2,86 @@
  * RebalanceX Type Definitions
  */
 
-// Supported chains
-export type ChainName = 'sepolia' | 'polygonAmoy' | 'arbitrumSepolia' | 'arc';
+// Chain identifier, as keyed in the chain registry (e.g., 'sepolia', 'arc')
+export type ChainName = string;
+
+// Deployment network profile
+export type NetworkName = 'testnet' | 'mainnet';
+
+// Uniswap v4 contract addresses on a chain
+export interface UniswapAddresses {
+    poolManager: string;
+    universalRouter: string;
+    permit2: string;
+    quoterV2: string;
+}
+
+// Additional treasury address whose holdings count toward a chain's total
+export interface WatchedAddress {
+    address: string;
+    label?: string;       // e.g., 'ops Safe'
+}
 
 // Chain configuration
 export interface ChainConfig {
     name: ChainName;
+    network: NetworkName;
     chainId: number;
-    rpcUrl: string;
+    rpcUrl: string;       // primary RPC endpoint (first of rpcUrls)
+    rpcUrls: string[];
+    rpcQuorum?: number;   // endpoints that must agree on balance reads (default 1)
     usdcAddress: string;
     tokenMessenger: string;
     messageTransmitter: string;
     cctpDomain: number;
+    decimals: number;     // USDC decimals as configured in the registry
+    multicall3?: string;  // Multicall3 address if not at the canonical one
+    uniswap?: UniswapAddresses;       // present only where swaps are supported
+    tokens?: Record<string, string>;  // extra tokens by symbol (e.g., WETH)
+    watch?: WatchedAddress[];         // watch-only treasury addresses besides the signer
+    gasFloor?: bigint;                // minimum native gas balance (wei); default scales with gas price
+    attestationSeconds?: number;      // expected burn → attestation time of a standard transfer from here
+    nativePrice?: bigint;             // USDC value of one native token (value units) where Uniswap cannot quote it
+}
+
+// Chain registry / network profile loaded from a preset or CHAIN_REGISTRY file
+export interface ChainRegistry {
+    network: NetworkName;
+    attestationApiUrl: string;
+    chains: Record<ChainName, ChainConfig>;
+}
+
+// Data quality of a balance read
+// ok: fresh read, stale: last known good value (RPC failed), failed: unknown
+export type BalanceStatus = 'ok' | 'stale' | 'failed';
+
+// Holdings of a single address on a chain
+export interface AddressHolding {
+    address: string;
+    label?: string;
+    balance: bigint;
+    watchOnly: boolean;   // counted in the chain total, but never used as a transfer source
+}
+
+// Non-USDC token held on a chain (e.g., WETH), valued in USDC via a Uniswap quote
+export interface TokenHolding {
+    symbol: string;
+    address: string;
+    amount: bigint;           // token units, summed over all treasury addresses
+    spendableAmount: bigint;  // token units held by the signer
+    value?: bigint;           // USDC value of amount (value units); absent when it could not be quoted
+}
+
+// Result of reading a chain's balance (summed over all treasury addresses)
+export interface BalanceRead {
+    status: BalanceStatus;
+    balance: bigint;      // 0n when failed
+    fetchedAt: number;    // epoch ms the value was read on-chain
+    blockNumber?: number;
+    blockTimestamp?: number;  // unix seconds
+    holdings?: AddressHolding[];
+    tokens?: TokenHolding[];
+    error?: string;
 }
 
 // Balance data per chain
@@ -21,12 +89,69 @@ export interface ChainBalance {
     chain: ChainName;
     balance: bigint;
     percentage: number;
+    status?: BalanceStatus;   // absent means 'ok'
+    fetchedAt?: number;
+    blockNumber?: number;     // block the balance snapshot was read at
+    blockTimestamp?: number;  // unix seconds
+    holdings?: AddressHolding[];  // per-address breakdown of balance
+    spendable?: bigint;       // signer-controlled part of balance (absent means all of it)
+    tokens?: TokenHolding[];  // non-USDC holdings
+    tokenValue?: bigint;      // value of tokens counted toward the allocation (total value basis only)
+    error?: string;
+    inTransit?: bigint;       // burned towards this chain, not yet minted (value units)
+}
+
+// CCTP transfer burned on the source chain whose mint is still outstanding
+export interface PendingTransfer {
+    network: NetworkName;
+    from: ChainName;
+    to: ChainName;
+    amount: bigint;           // value units
+    burnTxHash: string;
+    messageHash?: string;     // once the burn is mined
+    burnedAt: number;         // epoch ms; broadcast time until the burn is mined
+}
+
+// Step a CCTP transfer has reached, persisted so a restart can resume it:
+// pending → approved → burned → attested → minted, or failed before anything was burned
+export type TransferState = 'pending' | 'approved' | 'burned' | 'attested' | 'minted' | 'failed';
+
+// Journal entry of a CCTP transfer, with everything needed to finish it after a crash
+export interface JournaledTransfer {
+    id: string;
+    network: NetworkName;
+    cycleId?: string;
+    from: ChainName;
+    to: ChainName;
+    amount: bigint;           // value units
+    tokenAmount: bigint;      // burn token units
+    mode: TransferMode;
+    maxFee: bigint;           // burn token units
+    state: TransferState;
+    createdAt: number;        // epoch ms
+    updatedAt: number;        // epoch ms
+    approveTxHash?: string;
+    burnTx?: string;          // signed depositForBurn, rebroadcast on resume rather than signing a second burn
+    burnTxHash?: string;
+    burnedAt?: number;        // epoch ms
+    messageHash?: string;
+    messageBytes?: string;    // as emitted in MessageSent
+    message?: string;         // as attested (carries the nonce)
+    attestation?: string;
+    mintTxHash?: string;      // absent if the message turned out to be received already
+    feePaid?: bigint;         // value units
+    error?: string;           // why it failed, or the last error of a step retried on resume
 }
 
 // Target allocation
 export interface TargetAllocation {
     chain: ChainName;
-    percentage: number;
+    percentage: number;   // share of what is left after reserves
+    min?: bigint;         // hard floor (value units)
+    max?: bigint;         // hard ceiling (value units)
+    reserve?: bigint;     // fixed amount kept on the chain on top of its share (value units)
+    threshold?: number;   // per-chain trigger band (%), overriding the global threshold
+    band?: number;        // per-chain inner band (%) to rebalance back to
 }
 
 // Deviation from target
@@ -35,29 +160,175 @@ export interface Deviation {
     current: number;
     target: number;
     deviation: number; // positive = over-allocated, negative = under-allocated
+    breach?: 'floor' | 'ceiling'; // hard constraint violated, regardless of threshold
+    threshold?: number;   // per-chain trigger band, where overridden
+    band?: number;        // per-chain inner band, where overridden
 }
 
-// Rebalancing action
-export interface RebalanceAction {
+// What put a chain in the plan
+export type RationaleTrigger = 'threshold' | 'floor' | 'ceiling' | 'gas';
+
+// What set an action's amount
+export type SizeConstraint =
+    | 'target' | 'band' | 'correction' | 'floor' | 'ceiling'   // a chain's goal for the cycle
+    | 'spendable'             // the source's signer-held USDC (and swappable tokens)
+    | 'shortfall'             // swap: USDC the source's transfers need beyond its spendable balance
+    | 'token-balance'         // swap: all of the token
+    | 'gas-floor'             // top-up: refill to a multiple of the gas floor
+    | 'max-transfer' | 'max-cycle' | 'daily-chain' | 'daily-route';
+
+// Route the planner could also have used, and what the plan sends over it
+export interface RouteAlternative {
+    from: ChainName;
+    to: ChainName;
+    amount: bigint;           // value units; 0 = not used
+    costBps?: number;         // per-unit route cost (min-cost planner only)
+}
+
+// Why the planner chose an action and what limited its size
+export interface ActionRationale {
+    trigger: {
+        chain: ChainName;
+        reason: RationaleTrigger;
+        deviation?: number;   // % from target when planned
+        threshold?: number;   // trigger band (%) it exceeded
+    };
+    limitedBy: {
+        chain: ChainName;
+        constraint: SizeConstraint;
+    };
+    alternatives: RouteAlternative[];
+}
+
+// CCTP V2 transfer speed: "fast" is attested at soft finality for a fee,
+// "standard" waits for hard finality (~15-20 minutes on Ethereum and its L2s)
+export type TransferMode = 'standard' | 'fast';
+
+// Cross-chain USDC transfer
+export interface TransferAction {
     from: ChainConfig;
     to: ChainConfig;
-    amount: bigint;
+    amount: bigint;           // value units
     type: 'transfer';
+    mode?: TransferMode;      // absent means standard
+    cost?: TransferCost;      // estimated before execution; unset if it could not be priced
+    rationale?: ActionRationale;
+}
+
+// Estimated cost of a CCTP transfer, all in value units (USDC)
+export interface TransferCost {
+    sourceGas: bigint;        // approve + depositForBurn
+    destinationGas: bigint;   // receiveMessage
+    protocolFee: bigint;      // CCTP fee at the transfer's mode (quoted for fast transfers)
+    total: bigint;
+}
+
+// Swap of a non-USDC token to USDC on the source chain, ahead of bridging its excess
+export interface SwapAction {
+    from: ChainConfig;
+    token: string;            // symbol, e.g. 'WETH'
+    tokenAddress: string;
+    amountIn: bigint;         // token units
+    amount: bigint;           // minimum USDC out (value units)
+    type: 'swap';
+    rationale?: ActionRationale;
 }
 
+// Swap of USDC to native gas on a chain whose gas balance fell below its floor
+export interface GasTopUpAction {
+    from: ChainConfig;
+    amount: bigint;           // USDC to swap (value units)
+    nativeAmount: bigint;     // native gas to buy (wei)
+    type: 'gasTopUp';
+    rationale?: ActionRationale;
+}
+
+// Rebalancing action
+export type RebalanceAction = TransferAction | SwapAction | GasTopUpAction;
+
+// Native gas of the rebalancer wallet on a chain
+export interface GasStatus {
+    chain: ChainName;
+    balance: bigint;          // wei
+    floor: bigint;            // wei
+    gasPrice: bigint;         // wei per gas unit
+    runway: number;           // estimated transfers the balance still pays for
+    belowFloor: boolean;
+    error?: string;           // set when the gas balance could not be read
+}
+
+// What target allocations apply to: USDC only, or total value including other tokens
+export type ValueBasis = 'usdc' | 'total';
+
 // Transfer result
 export interface TransferResult {
     success: boolean;
     burnTxHash?: string;
     mintTxHash?: string;
     messageHash?: string;
+    mode?: TransferMode;      // as burned; a fast transfer falls back to standard without a fee quote
+    feePaid?: bigint;         // CCTP fee deducted from the mint (value units)
+    transferId?: string;      // journal id, once the transfer was journaled
     error?: string;
 }
 
+// How transfers pick their mode: always one of them, or "auto" per action
+export interface TransferModePolicy {
+    mode: TransferMode | 'auto';
+    urgentDeviation: number;  // auto: % from target that makes a transfer urgent
+    fastMax?: bigint;         // auto: largest transfer worth a fast fee (value units)
+}
+
+// Planner that routes surplus to deficits: "min-cost" solves a min-cost flow
+// over route weights, "greedy" pairs the largest surplus with the largest deficit
+export type PlannerName = 'greedy' | 'min-cost';
+
+// When and how far a cycle rebalances: "threshold" when a chain leaves its band,
+// "periodic" on a fixed interval, "proportional" part of the way each cycle
+export type StrategyName = 'threshold' | 'periodic' | 'proportional';
+
+// Cap per key (chain name, or "from:to" route), with a default for keys not listed
+export interface LimitTable {
+    default?: bigint;                 // value units; unset = unlimited
+    overrides: Record<string, bigint>;
+}
+
+// Caps on what the rebalancer may move, all in value units (unset = unlimited)
+export interface RiskLimits {
+    maxTransfer?: bigint;     // single transfer
+    maxCycle?: bigint;        // all transfers of one cycle
+    dailyChain: LimitTable;   // sent from a chain over a rolling 24h
+    dailyRoute: LimitTable;   // sent over a route over a rolling 24h
+}
+
+// Named target allocations, switched between by a cron schedule (times in UTC)
+export interface ProfileSchedule {
+    cron: string;         // e.g., "* * 25-31 * *" for the last days of the month
+    profile: string;
+}
+
+export interface TargetProfiles {
+    profiles: Record<string, string>;   // name → allocation, as for --target
+    schedule: ProfileSchedule[];        // first entry matching the current minute wins
+    default: string;                    // profile used when no entry matches
+}
+
 // Agent options from CLI
 export interface AgentOptions {
-    target: string;       // e.g., "40,30,30"
+    target: string;       // e.g., "arc=40,sepolia=30,arbitrumSepolia=30"
+    profiles?: TargetProfiles; // when set, the scheduled profile replaces target each cycle
     threshold: number;    // percentage threshold to trigger rebalance
+    band: number;         // inner band (%) a triggered chain is rebalanced back to (0 = exact target)
     interval: number;     // seconds between checks
     dryRun: boolean;      // simulate without executing
+    maxBalanceAge: number; // minutes a last known good balance may stand in for a failed read (0 = never)
+    valueBasis: ValueBasis;
+    minTransfer: bigint;  // smallest transfer worth sending (value units)
+    maxCostPct: number;   // skip transfers whose estimated cost exceeds this % of the amount
+    planner: PlannerName;
+    strategy: StrategyName;
+    period: number;       // hours between periodic rebalances
+    correction: number;   // % of the deviation the proportional strategy corrects per cycle
+    limits: RiskLimits;
+    transferMode: TransferModePolicy;
 }
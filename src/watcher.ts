@@ -0,0 +1,252 @@
+/**
+ * RebalanceX Transfer Watcher
+ * Polls USDC Transfer logs to/from the treasury addresses and triggers a
+ * rebalancing cycle after a material balance change (debounced), with the
+ * regular interval kept as a heartbeat
+ */
+
+import { ethers } from 'ethers';
+import { getChain } from './config.js';
+import { logger } from './logger.js';
+import { getTreasuryAddresses } from './monitor.js';
+import { withProvider } from './providers.js';
+import { formatValue, getTokenDecimals, toValueUnits } from './tokens.js';
+import type { ChainName } from './types.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Most public RPCs cap eth_getLogs ranges; larger gaps are scanned over several polls
+const MAX_BLOCK_RANGE = 2000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WatchOptions {
+    pollIntervalMs: number;   // how often logs are polled
+    debounceMs: number;       // quiet time after the last material change before triggering
+    heartbeatMs: number;      // full cycle at least this often, events or not
+    minChange: bigint;        // net change on a chain (value units) that counts as material
+}
+
+export interface TransferEvent {
+    from: string;
+    to: string;
+    amount: bigint;           // token units
+    blockNumber: number;
+    txHash: string;
+}
+
+export type WatchTrigger = 'activity' | 'heartbeat';
+
+// Last block scanned per chain
+const scannedBlocks = new Map<ChainName, number>();
+
+// =============================================================================
+// Event Scanning
+// =============================================================================
+
+function addressTopic(address: string): string {
+    return ethers.zeroPadValue(address.toLowerCase(), 32);
+}
+
+/**
+ * Net change of the treasury's holdings from a set of Transfer events
+ * (transfers between two treasury addresses cancel out)
+ */
+export function netChange(events: TransferEvent[], addresses: string[]): bigint {
+    const treasury = new Set(addresses.map((a) => a.toLowerCase()));
+    return events.reduce((sum, e) => {
+        const inbound = treasury.has(e.to.toLowerCase()) ? e.amount : 0n;
+        const outbound = treasury.has(e.from.toLowerCase()) ? e.amount : 0n;
+        return sum + inbound - outbound;
+    }, 0n);
+}
+
+/**
+ * USDC Transfer events to or from `addresses` since the last poll. The first
+ * poll only records the current block (no backfill).
+ */
+export async function pollTransferEvents(chainName: ChainName, addresses: string[]): Promise<TransferEvent[]> {
+    const chain = getChain(chainName);
+    const latest = await withProvider(chain, (provider) => provider.getBlockNumber(), 'Block number read');
+    const scanned = scannedBlocks.get(chainName);
+    if (scanned === undefined || scanned >= latest) {
+        scannedBlocks.set(chainName, latest);
+        return [];
+    }
+
+    const fromBlock = scanned + 1;
+    const toBlock = Math.min(latest, scanned + MAX_BLOCK_RANGE);
+    const topics = addresses.map(addressTopic);
+
+    // Two queries: treasury as sender, treasury as recipient
+    const [outbound, inbound] = await Promise.all([
+        withProvider(chain, (provider) => provider.getLogs({
+            address: chain.usdcAddress,
+            topics: [TRANSFER_TOPIC, topics],
+            fromBlock,
+            toBlock,
+        }), 'Transfer log read'),
+        withProvider(chain, (provider) => provider.getLogs({
+            address: chain.usdcAddress,
+            topics: [TRANSFER_TOPIC, null, topics],
+            fromBlock,
+            toBlock,
+        }), 'Transfer log read'),
+    ]);
+    scannedBlocks.set(chainName, toBlock);
+
+    // A transfer between two treasury addresses shows up in both queries
+    const seen = new Set<string>();
+    const events: TransferEvent[] = [];
+    for (const log of [...outbound, ...inbound]) {
+        const key = `${log.transactionHash}:${log.index}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        events.push({
+            from: ethers.getAddress(ethers.dataSlice(log.topics[1]!, 12)),
+            to: ethers.getAddress(ethers.dataSlice(log.topics[2]!, 12)),
+            amount: BigInt(log.data),
+            blockNumber: log.blockNumber,
+            txHash: log.transactionHash,
+        });
+    }
+    return events;
+}
+
+/**
+ * Events of transactions other than `own`: the agent's own burns, mints and
+ * swaps must not trigger another cycle
+ */
+export function excludeTransactions(events: TransferEvent[], own: Set<string>): TransferEvent[] {
+    return events.filter((e) => !own.has(e.txHash.toLowerCase()));
+}
+
+/**
+ * Hashes (lowercase) of the transactions among `events` sent by the agent's signer
+ */
+async function findOwnTransactions(
+    chainName: ChainName,
+    events: TransferEvent[],
+    walletAddress: string
+): Promise<Set<string>> {
+    const chain = getChain(chainName);
+    const hashes = [...new Set(events.map((e) => e.txHash.toLowerCase()))];
+    const transactions = await Promise.all(hashes.map((hash) =>
+        withProvider(chain, (provider) => provider.getTransaction(hash), 'Transaction read')
+    ));
+    return new Set(hashes.filter((_, i) => transactions[i]?.from.toLowerCase() === walletAddress.toLowerCase()));
+}
+
+/**
+ * Skip everything up to the current block, so watching starts without a backfill
+ */
+export async function fastForward(chains: ChainName[]): Promise<void> {
+    await Promise.all(chains.map(async (chainName) => {
+        try {
+            const latest = await withProvider(getChain(chainName), (p) => p.getBlockNumber(), 'Block number read');
+            scannedBlocks.set(chainName, latest);
+        } catch {
+            // Keep the old cursor; the next poll rescans from there
+        }
+    }));
+}
+
+// =============================================================================
+// Triggering
+// =============================================================================
+
+/**
+ * Decide whether to run a cycle now: after `debounceMs` without further
+ * activity following a material change, or when the heartbeat is due
+ */
+export function decideTrigger(
+    lastActivityAt: number | undefined,
+    nextHeartbeatAt: number,
+    debounceMs: number,
+    now = Date.now()
+): WatchTrigger | undefined {
+    if (lastActivityAt !== undefined && now - lastActivityAt >= debounceMs) {
+        return 'activity';
+    }
+    if (now >= nextHeartbeatAt) {
+        return 'heartbeat';
+    }
+    return undefined;
+}
+
+/**
+ * Poll every chain once and report the chains with a material net change
+ */
+async function pollMaterialChanges(
+    chains: ChainName[],
+    walletAddress: string,
+    minChange: bigint
+): Promise<ChainName[]> {
+    const changed = await Promise.all(chains.map(async (chainName) => {
+        const chain = getChain(chainName);
+        const addresses = getTreasuryAddresses(chain, walletAddress).map((a) => a.address);
+        try {
+            const polled = await pollTransferEvents(chainName, addresses);
+            const events = excludeTransactions(polled, await findOwnTransactions(chainName, polled, walletAddress));
+            if (events.length === 0) return undefined;
+
+            const change = toValueUnits(
+                netChange(events, addresses),
+                await getTokenDecimals(chain, chain.usdcAddress)
+            );
+            const magnitude = change < 0n ? -change : change;
+            logger.debug(`👀 ${chainName}: ${events.length} USDC transfer(s), net ${formatValue(change)} USDC`);
+            return magnitude >= minChange ? chainName : undefined;
+        } catch (error) {
+            logger.warn(`Could not poll transfer events on ${chainName}`, {
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return undefined;
+        }
+    }));
+    return changed.filter((c): c is ChainName => c !== undefined);
+}
+
+/**
+ * Watch loop: runs `onTrigger` after material USDC movements (debounced) and
+ * on the heartbeat, until `isRunning` returns false
+ */
+export async function watchTransfers(
+    chains: ChainName[],
+    walletAddress: string,
+    options: WatchOptions,
+    onTrigger: (trigger: WatchTrigger, changedChains: ChainName[]) => Promise<void>,
+    isRunning: () => boolean
+): Promise<void> {
+    await fastForward(chains);
+    let lastActivityAt: number | undefined;
+    let changedChains = new Set<ChainName>();
+    let nextHeartbeatAt = Date.now() + options.heartbeatMs;
+
+    while (isRunning()) {
+        const changed = await pollMaterialChanges(chains, walletAddress, options.minChange);
+        if (changed.length > 0) {
+            logger.info(`👀 Material USDC movement on ${changed.join(', ')}; rebalancing after ${options.debounceMs / 1000}s of quiet`);
+            lastActivityAt = Date.now();
+            changed.forEach((c) => changedChains.add(c));
+        }
+
+        const trigger = decideTrigger(lastActivityAt, nextHeartbeatAt, options.debounceMs);
+        if (trigger) {
+            // Blocks mined during the cycle are scanned afterwards: movements by
+            // others count, the cycle's own transactions are filtered out
+            await onTrigger(trigger, [...changedChains]);
+            lastActivityAt = undefined;
+            changedChains = new Set();
+            nextHeartbeatAt = Date.now() + options.heartbeatMs;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs));
+    }
+}
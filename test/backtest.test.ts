@@ -0,0 +1,131 @@
+/**
+ * RebalanceX Backtest Tests
+ * Tests for series loading, synthetic flows and the offline simulation
+ */
+
+import { backtestRoutes, parseSeriesCsv, runBacktest, syntheticSeries } from '../src/backtest.js';
+import type { BacktestConfig, BalancePoint } from '../src/backtest.js';
+import { buildSnapshot, toCsv } from '../src/history.js';
+import { periodicStrategy, thresholdStrategy } from '../src/strategies.js';
+import type { ChainBalance } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+const HOUR_MS = 60 * 60 * 1000;
+
+function series(...points: [number, number][]): BalancePoint[] {
+    return points.map(([sepolia, arc], i) => ({
+        at: i * HOUR_MS,
+        balances: { sepolia: BigInt(sepolia) * USDC, arc: BigInt(arc) * USDC },
+    }));
+}
+
+function config(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+    return {
+        strategy: thresholdStrategy(),
+        target: () => 'sepolia=50,arc=50',
+        threshold: 5,
+        band: 0,
+        planner: 'greedy',
+        minTransfer: USDC,
+        maxCostPct: 10,
+        routes: backtestRoutes({ gasCost: { default: USDC / 2n, overrides: {} }, feeBps: 0, latencySeconds: 3600 }, 1140),
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// Series Tests
+// =============================================================================
+
+describe('parseSeriesCsv', () => {
+    it('should read the layout written by history --csv, counting funds in transit', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 70n * USDC, percentage: 70 },
+            { chain: 'arc', balance: 20n * USDC, percentage: 30, inTransit: 10n * USDC },
+        ];
+        const csv = toCsv([
+            buildSnapshot('cycle-1', 'testnet', balances, [], Date.UTC(2025, 0, 1)),
+            buildSnapshot('cycle-2', 'testnet', balances.slice(0, 1), [], Date.UTC(2025, 0, 1, 1)),
+        ]);
+
+        expect(parseSeriesCsv(csv)).toEqual([
+            { at: Date.UTC(2025, 0, 1), balances: { sepolia: 70n * USDC, arc: 30n * USDC } },
+            { at: Date.UTC(2025, 0, 1, 1), balances: { sepolia: 70n * USDC, arc: 30n * USDC } },
+        ]);
+    });
+
+    it('should reject files without time, chain and balance columns', () => {
+        expect(() => parseSeriesCsv('time,chain\n0,sepolia\n', 'flows.csv')).toThrow(
+            'Invalid series flows.csv: expected taken_at, chain and balance_usdc columns'
+        );
+        expect(() => parseSeriesCsv('time,chain,balance\nyesterday,sepolia,1\n', 'flows.csv')).toThrow(
+            'Invalid time at flows.csv line 2: yesterday'
+        );
+    });
+});
+
+describe('syntheticSeries', () => {
+    const options = { chains: ['sepolia', 'arc'], steps: 48, stepMinutes: 30, initial: 1000n * USDC, volatility: 5, seed: 7 };
+
+    it('should be reproducible for a seed and never go negative', () => {
+        const generated = syntheticSeries(options);
+
+        expect(generated).toHaveLength(48);
+        expect(generated[1]!.at - generated[0]!.at).toBe(30 * 60 * 1000);
+        expect(generated[0]!.balances).toEqual({ sepolia: 1000n * USDC, arc: 1000n * USDC });
+        expect(generated.every((p) => Object.values(p.balances).every((b) => b >= 0n))).toBe(true);
+        expect(syntheticSeries(options)).toEqual(generated);
+        expect(syntheticSeries({ ...options, seed: 8 })).not.toEqual(generated);
+    });
+});
+
+// =============================================================================
+// Simulation Tests
+// =============================================================================
+
+describe('runBacktest', () => {
+    it('should rebalance on a breach and report turnover, fees and the worst deviation', async () => {
+        const report = await runBacktest(series([50, 50], [70, 50], [70, 50]), config());
+
+        expect(report).toMatchObject({
+            points: 3,
+            duration: 2 * HOUR_MS,
+            cycles: 1,
+            transfers: 1,
+            skipped: 0,
+            turnover: 10n * USDC,
+            feesPaid: USDC / 2n,
+            timeOutOfBand: 0,
+        });
+        // 70 / 50: sepolia at 58.33%, arc at 41.66%
+        expect(report.worstDeviation).toMatchObject({ chain: 'arc', at: HOUR_MS });
+        expect(report.worstDeviation!.deviation).toBeCloseTo(-8.34);
+    });
+
+    it('should deduct protocol fees from what arrives', async () => {
+        const routes = backtestRoutes({ gasCost: { overrides: {} }, feeBps: 100, latencySeconds: 0 }, 1140);
+        const report = await runBacktest(series([50, 50], [70, 50], [70, 50]), config({ routes }));
+
+        expect(report.feesPaid).toBe(USDC / 10n);
+        // (100 + 120 + 119.9) / 3
+        expect(report.averageTreasury).toBe(113_300_000n);
+    });
+
+    it('should count the time a periodic strategy leaves allocations out of band', async () => {
+        const report = await runBacktest(
+            series([60, 40], [80, 40], [80, 40], [80, 40]),
+            config({ strategy: periodicStrategy(24) })
+        );
+
+        expect(report.transfers).toBe(1);
+        expect(report.timeOutOfBand).toBe(2 * HOUR_MS);
+    });
+
+    it('should skip transfers that cost more than the limit and stay out of band', async () => {
+        const routes = backtestRoutes({ gasCost: { default: 5n * USDC, overrides: {} }, feeBps: 0 }, 1140);
+        const report = await runBacktest(series([50, 50], [70, 50], [70, 50]), config({ routes, maxCostPct: 1 }));
+
+        // Planned and skipped again at every point while out of band
+        expect(report).toMatchObject({ transfers: 0, skipped: 2, feesPaid: 0n, timeOutOfBand: HOUR_MS });
+    });
+});
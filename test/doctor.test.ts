@@ -0,0 +1,131 @@
+/**
+ * RebalanceX Doctor Tests
+ * Tests for per-endpoint checks, check timeouts, the pass/fail table and the
+ * exit code with stubbed checks
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { checkChain, doctorExitCode, formatDoctorReport, runCheck } from '../src/doctor.js';
+import type { DoctorCheck } from '../src/doctor.js';
+import type { ChainConfig } from '../src/types.js';
+
+const passed: DoctorCheck = { chain: 'sepolia', check: 'rpc chainId', ok: true, detail: '11155111' };
+const failed: DoctorCheck = { chain: 'arc', check: 'native gas', ok: false, detail: '0.0 native' };
+
+// =============================================================================
+// Check Tests
+// =============================================================================
+
+describe('runCheck', () => {
+    it('should report the result of a check', async () => {
+        const check = await runCheck('sepolia', 'rpc chainId', async () => ({ ok: true, detail: '11155111' }));
+
+        expect(check).toEqual(passed);
+    });
+
+    it('should fail a check that throws', async () => {
+        const check = await runCheck('arc', 'usdc code', async () => {
+            throw new Error('ECONNREFUSED');
+        });
+
+        expect(check).toEqual({ chain: 'arc', check: 'usdc code', ok: false, detail: 'ECONNREFUSED' });
+    });
+
+    it('should fail a check that does not answer in time', async () => {
+        const started = Date.now();
+        const check = await runCheck('arc', 'rpc chainId', () => new Promise(() => undefined), 50);
+
+        expect(check).toEqual({ chain: 'arc', check: 'rpc chainId', ok: false, detail: 'rpc chainId timed out after 50ms' });
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
+
+describe('checkChain', () => {
+    it('should check the chainId of every RPC endpoint and the contracts through a good one', async () => {
+        // JSON-RPC stand-in: the chainId comes from the path, every contract has code and 6 decimals
+        const answer = (method: string, chainId: number): string => {
+            switch (method) {
+                case 'eth_chainId': return ethers.toQuantity(chainId);
+                case 'eth_getCode': return '0x6080';
+                case 'eth_call': return ethers.AbiCoder.defaultAbiCoder().encode(['uint8'], [6]);
+                default: return '0x0';
+            }
+        };
+        const server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+            req.on('end', () => {
+                const chainId = Number((req.url ?? '').split('/').pop());
+                const request = JSON.parse(body) as { id: number; method: string } | Array<{ id: number; method: string }>;
+                const reply = (r: { id: number; method: string }) => ({ jsonrpc: '2.0', id: r.id, result: answer(r.method, chainId) });
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(Array.isArray(request) ? request.map(reply) : reply(request)));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const chain: ChainConfig = {
+            name: 'doctorChain',
+            network: 'testnet',
+            chainId: 4242,
+            rpcUrl: `${base}/1`,
+            rpcUrls: [`${base}/1`, `${base}/4242`],
+            usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+            tokenMessenger: '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA',
+            messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275',
+            cctpDomain: 0,
+            decimals: 6,
+        };
+
+        try {
+            const checks = await checkChain(chain, undefined);
+
+            expect(checks.map((c) => [c.check, c.ok])).toEqual([
+                [`rpc chainId ${base}/1`, false],
+                [`rpc chainId ${base}/4242`, true],
+                ['usdc code', true],
+                ['tokenMessenger code', true],
+                ['messageTransmitter code', true],
+                ['usdc decimals()', true],
+                ['native gas', false],
+            ]);
+            expect(checks[0]?.detail).toBe('expected 4242, RPC reports 1');
+        } finally {
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        }
+    });
+});
+
+// =============================================================================
+// Report Tests
+// =============================================================================
+
+describe('formatDoctorReport', () => {
+    it('should print one aligned row per check and count the failures', () => {
+        const lines = formatDoctorReport([passed, failed]);
+
+        expect(lines.slice(1, 3)).toEqual([
+            'CHAIN    CHECK        RESULT  DETAIL',
+            '─'.repeat(7 + 11 + 30),
+        ]);
+        expect(lines.slice(3, 5)).toEqual([
+            'sepolia  rpc chainId  ✅ PASS  11155111',
+            'arc      native gas   ❌ FAIL  0.0 native',
+        ]);
+        expect(lines[lines.length - 1]).toBe('❌ 1 of 2 checks failed');
+    });
+
+    it('should say so when every check passed', () => {
+        expect(formatDoctorReport([passed]).pop()).toBe('✅ All 1 checks passed');
+    });
+});
+
+describe('doctorExitCode', () => {
+    it('should exit non-zero if any check failed', () => {
+        expect(doctorExitCode([passed])).toBe(0);
+        expect(doctorExitCode([passed, failed])).toBe(1);
+        expect(doctorExitCode([])).toBe(0);
+    });
+});
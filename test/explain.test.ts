@@ -0,0 +1,110 @@
+/**
+ * RebalanceX Plan Explanation Tests
+ * Tests for projected allocations and rationale descriptions
+ */
+
+import { getChain } from '../src/config.js';
+import { calculateDeviations, parseTargetAllocation } from '../src/engine.js';
+import { describeRationale, projectAllocations } from '../src/explain.js';
+import { thresholdStrategy } from '../src/strategies.js';
+import type { ChainBalance, Deviation, RebalanceAction } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+
+const STATE: ChainBalance[] = [
+    { chain: 'sepolia', balance: 60n * USDC, percentage: 60 },
+    { chain: 'arc', balance: 20n * USDC, percentage: 30, inTransit: 10n * USDC },
+    { chain: 'polygonAmoy', balance: 10n * USDC, percentage: 10 },
+];
+
+const DEVIATIONS: Deviation[] = [
+    { chain: 'sepolia', current: 60, target: 40, deviation: 20 },
+    { chain: 'arc', current: 30, target: 30, deviation: 0 },
+    { chain: 'polygonAmoy', current: 10, target: 30, deviation: -20 },
+];
+
+// =============================================================================
+// Projection Tests
+// =============================================================================
+
+describe('projectAllocations', () => {
+    it('should project the allocation after transfers, counting funds in transit', () => {
+        const actions: RebalanceAction[] = [
+            { from: getChain('sepolia'), to: getChain('polygonAmoy'), amount: 20n * USDC, type: 'transfer' },
+        ];
+
+        expect(projectAllocations(STATE, DEVIATIONS, actions)).toEqual([
+            { chain: 'sepolia', before: 60n * USDC, after: 40n * USDC, beforePct: 60, afterPct: 40, targetPct: 40 },
+            { chain: 'arc', before: 30n * USDC, after: 30n * USDC, beforePct: 30, afterPct: 30, targetPct: 30 },
+            { chain: 'polygonAmoy', before: 10n * USDC, after: 30n * USDC, beforePct: 10, afterPct: 30, targetPct: 30 },
+        ]);
+    });
+
+    it('should deduct protocol fees and add USDC from swaps of uncounted tokens', () => {
+        const actions: RebalanceAction[] = [
+            {
+                from: getChain('polygonAmoy'),
+                token: 'WETH',
+                tokenAddress: '0x0000000000000000000000000000000000000001',
+                amountIn: 10n ** 16n,
+                amount: 10n * USDC,
+                type: 'swap',
+            },
+            {
+                from: getChain('sepolia'),
+                to: getChain('arc'),
+                amount: 10n * USDC,
+                type: 'transfer',
+                cost: { sourceGas: 0n, destinationGas: 0n, protocolFee: USDC, total: USDC },
+            },
+        ];
+
+        const after = projectAllocations(STATE, DEVIATIONS, actions).map((p) => [p.chain, p.after]);
+
+        expect(after).toEqual([['sepolia', 50n * USDC], ['arc', 39n * USDC], ['polygonAmoy', 20n * USDC]]);
+    });
+
+    it('should project a planned cycle from the balances as read, applying each transfer once', async () => {
+        const state: ChainBalance[] = [
+            { chain: 'sepolia', balance: 60n * USDC, percentage: 60 },
+            { chain: 'arc', balance: 40n * USDC, percentage: 40 },
+        ];
+        const targets = parseTargetAllocation('sepolia=50,arc=50', ['sepolia', 'arc']);
+        const deviations = calculateDeviations(state, targets);
+
+        const { actions } = await thresholdStrategy().evaluate(state, targets, { threshold: 5, band: 0, planner: 'greedy', now: 0 });
+
+        expect(projectAllocations(state, deviations, actions).map((p) => [p.chain, p.beforePct, p.afterPct])).toEqual([
+            ['sepolia', 60, 50],
+            ['arc', 40, 50],
+        ]);
+    });
+});
+
+// =============================================================================
+// Rationale Tests
+// =============================================================================
+
+describe('describeRationale', () => {
+    it('should describe the trigger, the sizing constraint and the alternatives', () => {
+        expect(describeRationale({
+            trigger: { chain: 'sepolia', reason: 'threshold', deviation: 20, threshold: 5 },
+            limitedBy: { chain: 'polygonAmoy', constraint: 'band' },
+            alternatives: [
+                { from: 'sepolia', to: 'arc', amount: 0n, costBps: 12.5 },
+                { from: 'arbitrumSepolia', to: 'polygonAmoy', amount: 5n * USDC },
+            ],
+        })).toBe(
+            'sepolia +20.00% beyond ±5%; sized by polygonAmoy inner band; ' +
+            'also considered sepolia → arc 12.5 bps (unused), arbitrumSepolia → polygonAmoy (sends 5.0 USDC)'
+        );
+    });
+
+    it('should describe breached constraints and risk limits', () => {
+        expect(describeRationale({
+            trigger: { chain: 'arc', reason: 'floor', deviation: -12 },
+            limitedBy: { chain: 'sepolia', constraint: 'max-transfer' },
+            alternatives: [],
+        })).toBe('arc below its floor; sized by sepolia --max-transfer');
+    });
+});
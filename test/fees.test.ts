@@ -0,0 +1,163 @@
+/**
+ * RebalanceX CCTP Fee Tests
+ * Tests for fast transfer fee quotes and attested fees against a local Iris stand-in
+ */
+
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { getChain, useNetwork } from '../src/config.js';
+import { resolveBurnTerms, waitForAttestation } from '../src/executors/arc.js';
+import { feeFor, getFeeQuote, maxFeeFor, parseSettledMessage } from '../src/fees.js';
+
+const USDC = 10n ** 6n;
+
+// CCTP V2 message of a burn, as Iris returns it once attested
+function burnMessage(finalityThresholdExecuted: number, maxFee: bigint, feeExecuted: bigint): string {
+    const address = ethers.zeroPadValue('0x0000000000000000000000000000000000000001', 32);
+    return ethers.solidityPacked(
+        [
+            'uint32', 'uint32', 'uint32', 'bytes32', 'bytes32', 'bytes32', 'bytes32', 'uint32', 'uint32',
+            'uint32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'uint256', 'uint256', 'uint256',
+        ],
+        [
+            1, 0, 26, ethers.ZeroHash, address, address, ethers.ZeroHash, 1000, finalityThresholdExecuted,
+            1, address, address, 100n * USDC, address, maxFee, feeExecuted, 0n,
+        ]
+    );
+}
+
+// =============================================================================
+// Iris Stand-in
+// =============================================================================
+
+const originalAttestationUrl = process.env['CIRCLE_ATTESTATION_URL'];
+let server: Server;
+let requests: string[] = [];
+let routes: Record<string, () => { status: number; body: unknown }> = {};
+
+// Testnet profiles only accept a sandbox attestation API
+const BASE_PATH = '/iris-sandbox';
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        const path = (req.url ?? '').slice(BASE_PATH.length);
+        requests.push(path);
+        const route = routes[path];
+        const { status, body } = route ? route() : { status: 404, body: { error: 'not found' } };
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env['CIRCLE_ATTESTATION_URL'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}${BASE_PATH}`;
+    useNetwork('testnet');
+});
+
+afterAll(async () => {
+    if (originalAttestationUrl === undefined) {
+        delete process.env['CIRCLE_ATTESTATION_URL'];
+    } else {
+        process.env['CIRCLE_ATTESTATION_URL'] = originalAttestationUrl;
+    }
+    useNetwork('testnet');
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    requests = [];
+    routes = {};
+});
+
+// =============================================================================
+// Fee Quote Tests
+// =============================================================================
+
+describe('getFeeQuote', () => {
+    it('should read the fast and standard fees of a route and reuse the quote', async () => {
+        routes['/v2/burn/USDC/fees/0/26'] = () => ({
+            status: 200,
+            body: [{ finalityThreshold: 1000, minimumFee: 1.3 }, { finalityThreshold: 2000, minimumFee: 0 }],
+        });
+
+        const quote = await getFeeQuote(getChain('sepolia'), getChain('arc'));
+        const again = await getFeeQuote(getChain('sepolia'), getChain('arc'));
+
+        expect(quote).toMatchObject({ fastBps: 1.3, standardBps: 0 });
+        expect(again).toBe(quote);
+        expect(requests).toEqual(['/v2/burn/USDC/fees/0/26']);
+    });
+
+    it('should fail on an error status or a quote without a fast fee', async () => {
+        routes['/v2/burn/USDC/fees/3/26'] = () => ({ status: 503, body: {} });
+        routes['/v2/burn/USDC/fees/7/26'] = () => ({ status: 200, body: [{ finalityThreshold: 2000, minimumFee: 0 }] });
+
+        await expect(getFeeQuote(getChain('arbitrumSepolia'), getChain('arc')))
+            .rejects.toThrow('Fee quote for arbitrumSepolia → arc failed: HTTP 503');
+        await expect(getFeeQuote(getChain('polygonAmoy'), getChain('arc')))
+            .rejects.toThrow('Fee quote for polygonAmoy → arc has no fast transfer fee');
+    });
+});
+
+describe('resolveBurnTerms', () => {
+    it('should allow the quoted fee plus headroom on a fast burn', async () => {
+        routes['/v2/burn/USDC/fees/26/3'] = () => ({ status: 200, body: [{ finalityThreshold: 1000, minimumFee: 1.3 }] });
+
+        const terms = await resolveBurnTerms(getChain('arc'), getChain('arbitrumSepolia'), 100n * USDC, 'fast');
+
+        expect(terms).toEqual({ mode: 'fast', maxFee: maxFeeFor(100n * USDC, 1.3) });
+    });
+
+    it('should fall back to standard without a quote or when the fee would take the whole amount', async () => {
+        routes['/v2/burn/USDC/fees/0/7'] = () => ({ status: 503, body: {} });
+        routes['/v2/burn/USDC/fees/26/0'] = () => ({ status: 200, body: [{ finalityThreshold: 1000, minimumFee: 10000 }] });
+
+        await expect(resolveBurnTerms(getChain('sepolia'), getChain('polygonAmoy'), 100n * USDC, 'fast'))
+            .resolves.toEqual({ mode: 'standard', maxFee: 0n });
+        await expect(resolveBurnTerms(getChain('arc'), getChain('sepolia'), 100n * USDC, 'fast'))
+            .resolves.toEqual({ mode: 'standard', maxFee: 0n });
+        expect(requests).toEqual(['/v2/burn/USDC/fees/0/7', '/v2/burn/USDC/fees/26/0']);
+    });
+
+    it('should not quote a standard burn', async () => {
+        await expect(resolveBurnTerms(getChain('sepolia'), getChain('arc'), 100n * USDC, 'standard'))
+            .resolves.toEqual({ mode: 'standard', maxFee: 0n });
+        expect(requests).toEqual([]);
+    });
+});
+
+describe('feeFor / maxFeeFor', () => {
+    it('should charge fractional basis points, rounded up, and leave headroom in maxFee', () => {
+        expect(feeFor(10_000n * USDC, 1.3)).toBe(1_300_000n);
+        expect(feeFor(1n, 1)).toBe(1n);
+        expect(feeFor(10_000n * USDC, 0)).toBe(0n);
+        expect(maxFeeFor(10_000n * USDC, 1.3)).toBe(1_560_000n);
+    });
+});
+
+// =============================================================================
+// Attested Fee Tests
+// =============================================================================
+
+describe('parseSettledMessage', () => {
+    it('should read the fee and finality a fast transfer was attested with from Iris', async () => {
+        const txHash = ethers.id('burn');
+        let polls = 0;
+        routes[`/v2/messages/0?transactionHash=${txHash}`] = () => (++polls === 1
+            ? { status: 200, body: { messages: [{ status: 'pending_confirmations' }] } }
+            : {
+                status: 200,
+                body: { messages: [{ status: 'complete', attestation: '0x01', message: burnMessage(1000, 15_600n, 13_000n) }] },
+            });
+
+        const { message } = await waitForAttestation(0, txHash, { fastIntervalMs: 10 });
+
+        expect(polls).toBe(2);
+        expect(parseSettledMessage(message)).toEqual({ finalityThresholdExecuted: 1000, feeExecuted: 13_000n });
+    });
+
+    it('should report no fee on a standard attestation and reject truncated messages', () => {
+        expect(parseSettledMessage(burnMessage(2000, 0n, 0n))).toEqual({ finalityThresholdExecuted: 2000, feeExecuted: 0n });
+        expect(() => parseSettledMessage('0x1234')).toThrow('Message too short for a CCTP V2 burn message: 2 bytes');
+    });
+});
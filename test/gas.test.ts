@@ -0,0 +1,135 @@
+/**
+ * RebalanceX Gas Monitor Tests
+ * Tests for gas floors, runway, blocking and top-up reservations
+ */
+
+import { ethers } from 'ethers';
+import { getChain, useNetwork } from '../src/config.js';
+import {
+    blockActionsWithoutGas,
+    chainsNeedingGas,
+    checkGas,
+    DEFAULT_FLOOR_TRANSFERS,
+    evaluateGas,
+    planGasTopUps,
+    reserveTopUps,
+    TRANSFER_GAS_UNITS,
+} from '../src/gas.js';
+import type { ChainBalance, GasTopUpAction, RebalanceAction } from '../src/types.js';
+
+const GWEI = 10n ** 9n;
+
+// =============================================================================
+// evaluateGas Tests
+// =============================================================================
+
+describe('evaluateGas', () => {
+    it('should estimate the runway in transfers', () => {
+        const transferCost = TRANSFER_GAS_UNITS * 10n * GWEI;
+        const status = evaluateGas(getChain('sepolia'), transferCost * 7n + 1n, 10n * GWEI);
+
+        expect(status.runway).toBe(7);
+        expect(status.belowFloor).toBe(false);
+    });
+
+    it('should default the floor to a few transfers at the current gas price', () => {
+        const transferCost = TRANSFER_GAS_UNITS * 10n * GWEI;
+        const status = evaluateGas(getChain('sepolia'), transferCost, 10n * GWEI);
+
+        expect(status.floor).toBe(DEFAULT_FLOOR_TRANSFERS * transferCost);
+        expect(status.belowFloor).toBe(true);
+    });
+
+    it('should use the configured gas floor', () => {
+        const chain = { ...getChain('sepolia'), gasFloor: 10n ** 16n };
+
+        expect(evaluateGas(chain, 10n ** 16n - 1n, GWEI).belowFloor).toBe(true);
+        expect(evaluateGas(chain, 10n ** 16n, GWEI).belowFloor).toBe(false);
+    });
+});
+
+// =============================================================================
+// Blocking Tests
+// =============================================================================
+
+describe('blockActionsWithoutGas', () => {
+    const transfer: RebalanceAction = {
+        from: getChain('sepolia'),
+        to: getChain('polygonAmoy'),
+        amount: 10n * 10n ** 6n,
+        type: 'transfer',
+    };
+
+    it('should need gas on both ends of a transfer', () => {
+        expect(chainsNeedingGas(transfer)).toEqual(['sepolia', 'polygonAmoy']);
+    });
+
+    it('should block actions that touch a chain without gas', () => {
+        const { allowed, blockedActions } = blockActionsWithoutGas([transfer], ['polygonAmoy']);
+
+        expect(allowed).toHaveLength(0);
+        expect(blockedActions).toEqual([transfer]);
+    });
+
+    it('should allow actions on chains with gas', () => {
+        const { allowed } = blockActionsWithoutGas([transfer], ['arbitrumSepolia']);
+
+        expect(allowed).toEqual([transfer]);
+    });
+});
+
+// =============================================================================
+// Unknown Gas Tests
+// =============================================================================
+
+describe('checkGas / planGasTopUps', () => {
+    const originalEnv = { ...process.env };
+
+    beforeAll(() => {
+        // Nothing listens on port 1: every read fails at once
+        process.env['SEPOLIA_RPC_URL'] = 'http://127.0.0.1:1';
+        process.env['PRIVATE_KEY'] = ethers.id('rebalancex-gas-test');
+        useNetwork('testnet');
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+        useNetwork('testnet');
+    });
+
+    it('should block a chain whose gas balance cannot be read', async () => {
+        const [status] = await checkGas(['sepolia']);
+        expect(status).toMatchObject({ chain: 'sepolia', belowFloor: false });
+        expect(status?.error).toBeDefined();
+
+        const { topUps, blocked } = await planGasTopUps([status!], []);
+
+        expect(topUps).toEqual([]);
+        expect(blocked).toEqual(['sepolia']);
+    });
+});
+
+// =============================================================================
+// reserveTopUps Tests
+// =============================================================================
+
+describe('reserveTopUps', () => {
+    it('should take top-up USDC out of the spendable balance only', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 100n * 10n ** 6n, percentage: 50 },
+            { chain: 'polygonAmoy', balance: 100n * 10n ** 6n, percentage: 50 },
+        ];
+        const topUp: GasTopUpAction = {
+            from: getChain('sepolia'),
+            amount: 5n * 10n ** 6n,
+            nativeAmount: 10n ** 15n,
+            type: 'gasTopUp',
+        };
+
+        const result = reserveTopUps(balances, [topUp]);
+
+        expect(result[0]?.spendable).toBe(95n * 10n ** 6n);
+        expect(result[0]?.balance).toBe(100n * 10n ** 6n);
+        expect(result[1]).toBe(balances[1]);
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * RebalanceX History Tests
+ * Tests for snapshot/action recording, drift summaries and CSV export
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getChain } from '../src/config.js';
+import {
+    getActionRecords,
+    getLastPeriodicEvaluation,
+    getSnapshots,
+    parseTimeBound,
+    recordActions,
+    recordPeriodicEvaluation,
+    recordSnapshot,
+    summarizeDrift,
+    toActionRecord,
+    toCsv,
+} from '../src/history.js';
+import type { Snapshot } from '../src/history.js';
+import type { ChainBalance, Deviation } from '../src/types.js';
+
+function makeSnapshot(takenAt: number, sepoliaPct: number): Snapshot {
+    return {
+        cycleId: `cycle-${takenAt}`,
+        takenAt,
+        network: 'testnet',
+        chains: [
+            {
+                chain: 'sepolia',
+                balance: BigInt(sepoliaPct) * 10n ** 6n,
+                inTransit: 0n,
+                tokenValue: 0n,
+                percentage: sepoliaPct,
+                target: 50,
+                deviation: sepoliaPct - 50,
+                status: 'ok',
+                blockNumber: 100,
+            },
+            {
+                chain: 'polygonAmoy',
+                balance: BigInt(100 - sepoliaPct) * 10n ** 6n,
+                inTransit: 0n,
+                tokenValue: 0n,
+                percentage: 100 - sepoliaPct,
+                target: 50,
+                deviation: 50 - sepoliaPct,
+                status: 'ok',
+            },
+        ],
+    };
+}
+
+// =============================================================================
+// Store Tests
+// =============================================================================
+
+describe('history store', () => {
+    let dataDir: string;
+    const originalDataDir = process.env['REBALANCEX_DATA_DIR'];
+
+    beforeEach(() => {
+        dataDir = mkdtempSync(join(tmpdir(), 'rebalancex-history-'));
+        process.env['REBALANCEX_DATA_DIR'] = dataDir;
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        if (originalDataDir === undefined) {
+            delete process.env['REBALANCEX_DATA_DIR'];
+        } else {
+            process.env['REBALANCEX_DATA_DIR'] = originalDataDir;
+        }
+    });
+
+    it('should persist snapshots with bigint balances and block numbers', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 70n * 10n ** 6n, percentage: 70, blockNumber: 42, inTransit: 5n },
+        ];
+        const deviations: Deviation[] = [{ chain: 'sepolia', current: 70, target: 50, deviation: 20 }];
+
+        const recorded = recordSnapshot('cycle-1', 'testnet', balances, deviations, 1000);
+
+        expect(getSnapshots()).toEqual([recorded]);
+        expect(getSnapshots()[0]?.chains[0]).toMatchObject({
+            balance: 70n * 10n ** 6n,
+            inTransit: 5n,
+            blockNumber: 42,
+            target: 50,
+            deviation: 20,
+        });
+    });
+
+    it('should filter snapshots by time range', () => {
+        recordSnapshot('a', 'testnet', [], [], 1000);
+        recordSnapshot('b', 'testnet', [], [], 2000);
+        recordSnapshot('c', 'testnet', [], [], 3000);
+
+        expect(getSnapshots({ since: 1500, until: 2500 }).map((s) => s.cycleId)).toEqual(['b']);
+    });
+
+    it('should remember the last periodic evaluation per network, keeping dry runs apart', () => {
+        recordPeriodicEvaluation('testnet', false, 1000);
+        recordPeriodicEvaluation('testnet', true, 2000);
+
+        expect(getLastPeriodicEvaluation('testnet', false)).toBe(1000);
+        expect(getLastPeriodicEvaluation('testnet', true)).toBe(2000);
+        expect(getLastPeriodicEvaluation('mainnet', true)).toBeUndefined();
+    });
+
+    it('should filter snapshots and actions by network', () => {
+        recordSnapshot('a', 'testnet', [], [], 1000);
+        recordSnapshot('b', 'mainnet', [], [], 2000);
+        recordActions([
+            toActionRecord('a', { from: getChain('sepolia'), to: getChain('arc'), amount: 1n, type: 'transfer' }, 'executed'),
+            { ...toActionRecord('b', { from: getChain('sepolia'), to: getChain('arc'), amount: 1n, type: 'transfer' }, 'executed'), network: 'mainnet' },
+        ]);
+
+        expect(getSnapshots({ network: 'mainnet' }).map((s) => s.cycleId)).toEqual(['b']);
+        expect(getActionRecords({ network: 'testnet' }).map((a) => a.cycleId)).toEqual(['a']);
+        expect(getActionRecords()).toHaveLength(2);
+    });
+
+    it('should tie actions to the cycle that produced them', () => {
+        const action = {
+            from: getChain('sepolia'),
+            to: getChain('polygonAmoy'),
+            amount: 20n * 10n ** 6n,
+            type: 'transfer' as const,
+        };
+
+        recordActions([toActionRecord('cycle-1', action, 'executed', { txHash: '0xmint' })]);
+
+        expect(getActionRecords()).toEqual([expect.objectContaining({
+            cycleId: 'cycle-1',
+            from: 'sepolia',
+            to: 'polygonAmoy',
+            amount: 20n * 10n ** 6n,
+            outcome: 'executed',
+            txHash: '0xmint',
+        })]);
+    });
+
+    it('should replace an interrupted transfer\'s record with its resumed outcome', () => {
+        const action = {
+            from: getChain('sepolia'),
+            to: getChain('polygonAmoy'),
+            amount: 20n * 10n ** 6n,
+            type: 'transfer' as const,
+        };
+        const interrupted = toActionRecord('cycle-1', action, 'failed', {
+            txHash: '0xburn',
+            error: 'Attestation timeout',
+            transferId: 't-1',
+        });
+        const other = toActionRecord('cycle-2', action, 'executed', { txHash: '0xother', transferId: 't-2' });
+
+        recordActions([interrupted, other]);
+        recordActions([toActionRecord('cycle-1', action, 'executed', { txHash: '0xmint', transferId: 't-1' })]);
+
+        const records = getActionRecords();
+        expect(records.map((r) => r.txHash)).toEqual(['0xmint', '0xother']);
+        expect(records[0]).toMatchObject({ outcome: 'executed', recordedAt: interrupted.recordedAt });
+        expect(records[0]?.error).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// Analysis Tests
+// =============================================================================
+
+describe('summarizeDrift', () => {
+    it('should report first/last allocation and deviation statistics per chain', () => {
+        const drift = summarizeDrift([makeSnapshot(1, 50), makeSnapshot(2, 70), makeSnapshot(3, 60)]);
+        const sepolia = drift.find((d) => d.chain === 'sepolia')!;
+
+        expect(sepolia.firstPercentage).toBe(50);
+        expect(sepolia.lastPercentage).toBe(60);
+        expect(sepolia.maxAbsDeviation).toBe(20);
+        expect(sepolia.avgAbsDeviation).toBe(10);
+        expect(sepolia.samples).toBe(3);
+    });
+});
+
+describe('toCsv', () => {
+    it('should write one row per chain per snapshot with the cycle actions', () => {
+        const csv = toCsv([makeSnapshot(0, 70)], [{
+            cycleId: 'cycle-0',
+            recordedAt: 0,
+            type: 'transfer',
+            from: 'sepolia',
+            to: 'polygonAmoy',
+            amount: 20n * 10n ** 6n,
+            outcome: 'executed',
+        }]);
+        const lines = csv.trim().split('\n');
+
+        expect(lines).toHaveLength(3);
+        expect(lines[0]).toMatch(/^taken_at,cycle_id,network,chain/);
+        expect(lines[1]).toBe(
+            '1970-01-01T00:00:00.000Z,cycle-0,testnet,sepolia,ok,70.0,0.0,0.0,70,50,20.00,100,,transfer:sepolia->polygonAmoy:20.0:executed'
+        );
+    });
+});
+
+describe('parseTimeBound', () => {
+    it('should parse relative ages and ISO dates', () => {
+        const now = Date.parse('2025-01-08T00:00:00Z');
+
+        expect(parseTimeBound('7d', now)).toBe(Date.parse('2025-01-01T00:00:00Z'));
+        expect(parseTimeBound('36h', now)).toBe(now - 36 * 3600 * 1000);
+        expect(parseTimeBound('2025-01-02', now)).toBe(Date.parse('2025-01-02'));
+        expect(() => parseTimeBound('last tuesday', now)).toThrow('Invalid time');
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * RebalanceX Transfer Journal Tests
+ * Tests for journaled transfer state and what a restart resumes
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { canResume, getJournal, getUnfinishedTransfers, openTransfer, updateTransfer } from '../src/journal.js';
+import { dataPath, writeJsonFile } from '../src/store.js';
+import type { JournaledTransfer } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function open(overrides: Partial<JournaledTransfer> = {}): JournaledTransfer {
+    return openTransfer({
+        network: 'testnet',
+        cycleId: 'cycle-1',
+        from: 'sepolia',
+        to: 'arc',
+        amount: 10n * USDC,
+        tokenAmount: 10n * USDC,
+        mode: 'fast',
+        maxFee: 1_560n,
+        ...overrides,
+    });
+}
+
+describe('transfer journal', () => {
+    let dataDir: string;
+    const originalDataDir = process.env['REBALANCEX_DATA_DIR'];
+
+    beforeEach(() => {
+        dataDir = mkdtempSync(join(tmpdir(), 'rebalancex-journal-'));
+        process.env['REBALANCEX_DATA_DIR'] = dataDir;
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        if (originalDataDir === undefined) {
+            delete process.env['REBALANCEX_DATA_DIR'];
+        } else {
+            process.env['REBALANCEX_DATA_DIR'] = originalDataDir;
+        }
+    });
+
+    // =========================================================================
+    // Persistence
+    // =========================================================================
+
+    it('should persist each step with its hashes and message bytes', () => {
+        let transfer = open();
+        transfer = updateTransfer(transfer, 'approved', { approveTxHash: '0xapprove' });
+        transfer = updateTransfer(transfer, 'approved', { burnTx: '0xsigned', burnTxHash: '0xburn' });
+        transfer = updateTransfer(transfer, 'burned', { messageHash: '0xhash', messageBytes: '0xbytes', burnedAt: 1 });
+        transfer = updateTransfer(transfer, 'attested', { message: '0xmessage', attestation: '0xattestation' });
+        transfer = updateTransfer(transfer, 'minted', { mintTxHash: '0xmint', feePaid: 1_300n });
+
+        expect(getJournal()).toEqual([transfer]);
+        expect(getJournal()[0]).toMatchObject({
+            state: 'minted',
+            amount: 10n * USDC,
+            maxFee: 1_560n,
+            burnTx: '0xsigned',
+            message: '0xmessage',
+            feePaid: 1_300n,
+        });
+    });
+
+    it('should keep a step error until the transfer moves on', () => {
+        let transfer = updateTransfer(open(), 'burned', { burnTxHash: '0xburn' });
+        transfer = updateTransfer(transfer, 'burned', { error: 'Attestation timeout' });
+        expect(getJournal()[0]?.error).toBe('Attestation timeout');
+
+        transfer = updateTransfer(transfer, 'attested', { message: '0xmessage', attestation: '0xattestation' });
+        expect(getJournal()[0]?.error).toBeUndefined();
+    });
+
+    it('should prune finished transfers after a week but keep unfinished ones', () => {
+        const stale = updateTransfer(open(), 'minted');
+        const stuck = updateTransfer(open(), 'burned');
+        writeJsonFile(dataPath('transfers.json'), [
+            { ...stale, updatedAt: Date.now() - 8 * DAY_MS },
+            { ...stuck, updatedAt: Date.now() - 8 * DAY_MS },
+        ]);
+
+        const fresh = open();
+
+        expect(getJournal().map((t) => t.id)).toEqual([stuck.id, fresh.id]);
+    });
+
+    // =========================================================================
+    // Recovery
+    // =========================================================================
+
+    it('should list unfinished transfers of the network only', () => {
+        const burned = updateTransfer(open(), 'burned');
+        updateTransfer(open(), 'minted');
+        updateTransfer(open(), 'failed');
+        open({ network: 'mainnet' });
+
+        expect(getUnfinishedTransfers('testnet').map((t) => t.id)).toEqual([burned.id]);
+    });
+
+    it('should resume only transfers whose burn was signed', () => {
+        const pending = open();
+        const approved = updateTransfer(open(), 'approved', { approveTxHash: '0xapprove' });
+        const signed = updateTransfer(approved, 'approved', { burnTx: '0xsigned', burnTxHash: '0xburn' });
+
+        expect(canResume(pending)).toBe(false);
+        expect(canResume(approved)).toBe(false);
+        expect(canResume(signed)).toBe(true);
+        expect(canResume(updateTransfer(signed, 'burned'))).toBe(true);
+        expect(canResume(updateTransfer(signed, 'attested'))).toBe(true);
+        expect(canResume(updateTransfer(signed, 'minted'))).toBe(false);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * RebalanceX Risk Limits Tests
+ * Tests for limit parsing, rolling usage and truncating/deferring transfers
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getChain } from '../src/config.js';
+import { recordActions } from '../src/history.js';
+import type { ActionRecord } from '../src/history.js';
+import {
+    applyRiskLimits,
+    getLimitUsage,
+    LIMIT_WINDOW_MS,
+    parseLimit,
+    parseLimitTable,
+} from '../src/limits.js';
+import type { LimitUsage } from '../src/limits.js';
+import type { ChainName, RebalanceAction, RiskLimits } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+
+const NO_LIMITS: RiskLimits = { dailyChain: { overrides: {} }, dailyRoute: { overrides: {} } };
+const NO_USAGE: LimitUsage = { chain: {}, route: {} };
+
+function transfer(from: ChainName, to: ChainName, amount: bigint): RebalanceAction {
+    return { from: getChain(from), to: getChain(to), amount: amount * USDC, type: 'transfer' };
+}
+
+function record(recordedAt: number, from: ChainName, to: ChainName, amount: bigint, overrides: Partial<ActionRecord> = {}): ActionRecord {
+    return {
+        cycleId: `cycle-${recordedAt}`,
+        recordedAt,
+        network: 'testnet',
+        type: 'transfer',
+        from,
+        to,
+        amount: amount * USDC,
+        outcome: 'executed',
+        ...overrides,
+    };
+}
+
+// =============================================================================
+// Parsing Tests
+// =============================================================================
+
+describe('parseLimit', () => {
+    it('should parse USDC amounts and treat empty as unlimited', () => {
+        expect(parseLimit('2500.5', '--max-transfer')).toBe(2_500_500_000n);
+        expect(parseLimit(undefined, '--max-transfer')).toBeUndefined();
+        expect(parseLimit('', '--max-transfer')).toBeUndefined();
+        expect(() => parseLimit('lots', '--max-transfer')).toThrow('Invalid --max-transfer: lots');
+    });
+});
+
+describe('parseLimitTable', () => {
+    const chains = ['sepolia', 'arc', 'polygonAmoy'];
+
+    it('should parse a default and per-chain overrides', () => {
+        expect(parseLimitTable('100000,arc=50000', '--max-daily-chain', chains)).toEqual({
+            default: 100_000n * USDC,
+            overrides: { arc: 50_000n * USDC },
+        });
+        expect(parseLimitTable(undefined, '--max-daily-chain', chains)).toEqual({ overrides: {} });
+    });
+
+    it('should require from:to keys for routes', () => {
+        expect(parseLimitTable('sepolia:arc=10000', '--max-daily-route', chains, true)).toEqual({
+            overrides: { 'sepolia:arc': 10_000n * USDC },
+        });
+        expect(() => parseLimitTable('sepolia=10000', '--max-daily-route', chains, true)).toThrow('expected from:to');
+        expect(() => parseLimitTable('arc:arc=10000', '--max-daily-route', chains, true)).toThrow('same chain');
+    });
+
+    it('should reject overrides for chains that are not selected', () => {
+        expect(() => parseLimitTable('arbitrum=1000', '--max-daily-chain', chains))
+            .toThrow('Unknown chain in --max-daily-chain: arbitrum (expected one of sepolia, arc, polygonAmoy)');
+        expect(() => parseLimitTable('sepolia:arbitrum=1000', '--max-daily-route', chains, true))
+            .toThrow('Unknown chain in --max-daily-route: arbitrum');
+    });
+});
+
+// =============================================================================
+// Usage Tests
+// =============================================================================
+
+describe('getLimitUsage', () => {
+    let dataDir: string;
+    const originalDataDir = process.env['REBALANCEX_DATA_DIR'];
+
+    beforeEach(() => {
+        dataDir = mkdtempSync(join(tmpdir(), 'rebalancex-limits-'));
+        process.env['REBALANCEX_DATA_DIR'] = dataDir;
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        if (originalDataDir === undefined) {
+            delete process.env['REBALANCEX_DATA_DIR'];
+        } else {
+            process.env['REBALANCEX_DATA_DIR'] = originalDataDir;
+        }
+    });
+
+    it('should sum transfers sent within the rolling window by chain and route', () => {
+        const now = 10 * LIMIT_WINDOW_MS;
+        recordActions([
+            record(now - LIMIT_WINDOW_MS - 1, 'sepolia', 'arc', 1000n),
+            record(now - 1000, 'sepolia', 'arc', 30n),
+            record(now - 500, 'sepolia', 'polygonAmoy', 20n),
+            record(now - 100, 'arc', 'sepolia', 5n),
+        ]);
+
+        expect(getLimitUsage(now)).toEqual({
+            chain: { sepolia: 50n * USDC, arc: 5n * USDC },
+            route: { 'sepolia:arc': 30n * USDC, 'sepolia:polygonAmoy': 20n * USDC, 'arc:sepolia': 5n * USDC },
+        });
+    });
+
+    it('should count failed transfers that burned but not those never sent', () => {
+        const now = 10 * LIMIT_WINDOW_MS;
+        recordActions([
+            record(now - 300, 'sepolia', 'arc', 10n, { outcome: 'failed', txHash: '0xburn' }),
+            record(now - 200, 'sepolia', 'arc', 20n, { outcome: 'failed' }),
+            record(now - 100, 'sepolia', 'arc', 40n, { outcome: 'dry-run' }),
+            record(now - 50, 'sepolia', 'arc', 80n, { outcome: 'deferred' }),
+        ]);
+
+        expect(getLimitUsage(now).route).toEqual({ 'sepolia:arc': 10n * USDC });
+    });
+
+    it('should count a transfer finished by a resume once', () => {
+        const now = 10 * LIMIT_WINDOW_MS;
+        recordActions([
+            record(now - 300, 'sepolia', 'arc', 10n, { outcome: 'failed', txHash: '0xburn', transferId: 't-1' }),
+            record(now - 100, 'sepolia', 'arc', 10n, { outcome: 'executed', txHash: '0xmint', transferId: 't-1' }),
+        ]);
+
+        expect(getLimitUsage(now).route).toEqual({ 'sepolia:arc': 10n * USDC });
+    });
+});
+
+// =============================================================================
+// Enforcement Tests
+// =============================================================================
+
+describe('applyRiskLimits', () => {
+    it('should pass everything through without limits', () => {
+        const actions = [transfer('sepolia', 'arc', 100n)];
+
+        expect(applyRiskLimits(actions, NO_LIMITS, NO_USAGE)).toEqual({ actions, truncated: [], deferred: [] });
+    });
+
+    it('should truncate transfers above the per-transfer limit', () => {
+        const limits: RiskLimits = { ...NO_LIMITS, maxTransfer: 40n * USDC };
+        const result = applyRiskLimits([transfer('sepolia', 'arc', 100n)], limits, NO_USAGE);
+
+        expect(result.actions.map((a) => a.amount)).toEqual([40n * USDC]);
+        expect(result.truncated.map((a) => a.amount)).toEqual([100n * USDC]);
+    });
+
+    it('should truncate then defer once the cycle limit is used up', () => {
+        const limits: RiskLimits = { ...NO_LIMITS, maxCycle: 50n * USDC };
+        const result = applyRiskLimits([
+            transfer('sepolia', 'arc', 30n),
+            transfer('polygonAmoy', 'arc', 30n),
+            transfer('arbitrumSepolia', 'arc', 30n),
+        ], limits, NO_USAGE);
+
+        expect(result.actions.map((a) => a.amount)).toEqual([30n * USDC, 20n * USDC]);
+        expect(result.deferred.map((a) => a.from.name)).toEqual(['arbitrumSepolia']);
+    });
+
+    it('should count earlier usage against the daily chain and route limits', () => {
+        const limits: RiskLimits = {
+            dailyChain: { overrides: { sepolia: 100n * USDC } },
+            dailyRoute: { default: 60n * USDC, overrides: {} },
+        };
+        const usage: LimitUsage = {
+            chain: { sepolia: 90n * USDC },
+            route: { 'polygonAmoy:arc': 60n * USDC },
+        };
+        const result = applyRiskLimits([
+            transfer('sepolia', 'arc', 25n),
+            transfer('polygonAmoy', 'arc', 25n),
+            transfer('polygonAmoy', 'sepolia', 25n),
+        ], limits, usage);
+
+        expect(result.actions.map((a) => [a.from.name, a.to.name, a.amount])).toEqual([
+            ['sepolia', 'arc', 10n * USDC],
+            ['polygonAmoy', 'sepolia', 25n * USDC],
+        ]);
+        expect(result.deferred.map((a) => [a.from.name, a.to.name])).toEqual([['polygonAmoy', 'arc']]);
+    });
+
+    it('should record the limit that truncated a transfer in its rationale', () => {
+        const planned: RebalanceAction = {
+            ...transfer('sepolia', 'arc', 50n),
+            rationale: {
+                trigger: { chain: 'sepolia', reason: 'threshold', deviation: 20, threshold: 5 },
+                limitedBy: { chain: 'arc', constraint: 'target' },
+                alternatives: [],
+            },
+        };
+        const limits: RiskLimits = {
+            ...NO_LIMITS,
+            maxTransfer: 40n * USDC,
+            dailyRoute: { overrides: { 'sepolia:arc': 30n * USDC } },
+        };
+
+        const [limited] = applyRiskLimits([planned], limits, NO_USAGE).actions;
+
+        expect(limited?.amount).toBe(30n * USDC);
+        expect(limited?.rationale?.limitedBy).toEqual({ chain: 'sepolia', constraint: 'daily-route' });
+    });
+
+    it('should defer swaps whose transfers were all deferred', () => {
+        const limits: RiskLimits = { ...NO_LIMITS, dailyChain: { overrides: { polygonAmoy: 0n } } };
+        const swap: RebalanceAction = {
+            from: getChain('polygonAmoy'),
+            token: 'WETH',
+            tokenAddress: '0x0000000000000000000000000000000000000001',
+            amountIn: 10n ** 16n,
+            amount: 10n * USDC,
+            type: 'swap',
+        };
+        const result = applyRiskLimits([swap, transfer('polygonAmoy', 'arc', 10n)], limits, NO_USAGE);
+
+        expect(result.actions).toEqual([]);
+        expect(result.deferred.map((a) => a.type)).toEqual(['transfer', 'swap']);
+    });
+});
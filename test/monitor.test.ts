@@ -3,8 +3,14 @@
  * Tests for balance fetching and allocation calculation
  */
 
-import { calculateAllocations } from '../src/monitor.js';
-import type { ChainBalance } from '../src/types.js';
+import {
+    applyValueBasis,
+    calculateAllocations,
+    getTreasuryAddresses,
+    resolveBalanceRead,
+    spendableTokenValue,
+} from '../src/monitor.js';
+import type { BalanceRead, ChainBalance, ChainConfig, TokenHolding } from '../src/types.js';
 
 // =============================================================================
 // calculateAllocations Tests
@@ -123,6 +129,19 @@ describe('calculateAllocations', () => {
         expect(result).toEqual([]);
     });
 
+    it('should include in-transit funds in percentages', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 50n * 10n ** 6n, percentage: 0 },
+            { chain: 'polygonAmoy', balance: 30n * 10n ** 6n, percentage: 0, inTransit: 20n * 10n ** 6n },
+        ];
+
+        const result = calculateAllocations(balances);
+
+        expect(result[0]?.percentage).toBe(50);
+        expect(result[1]?.percentage).toBe(50);
+        expect(result[1]?.balance).toBe(30n * 10n ** 6n);
+    });
+
     it('should handle single chain', () => {
         const balances: ChainBalance[] = [
             { chain: 'sepolia', balance: 100n * 10n ** 6n, percentage: 0 },
@@ -134,3 +153,143 @@ describe('calculateAllocations', () => {
         expect(result[0]?.percentage).toBe(100);
     });
 });
+
+// =============================================================================
+// resolveBalanceRead Tests
+// =============================================================================
+
+describe('resolveBalanceRead', () => {
+    const now = 10 * 60 * 1000;
+    const failedRead: BalanceRead = { status: 'failed', balance: 0n, fetchedAt: now, error: 'timeout' };
+    const lastGood = { balance: 500n * 10n ** 6n, fetchedAt: now - 3 * 60 * 1000 };
+
+    it('should pass through successful reads', () => {
+        const read: BalanceRead = { status: 'ok', balance: 42n, fetchedAt: now };
+        const result = resolveBalanceRead('sepolia', read, lastGood, 0, now);
+
+        expect(result.status).toBe('ok');
+        expect(result.balance).toBe(42n);
+    });
+
+    it('should carry the block a snapshot was read at', () => {
+        const read: BalanceRead = { status: 'ok', balance: 42n, fetchedAt: now, blockNumber: 123, blockTimestamp: 456 };
+        const result = resolveBalanceRead('sepolia', read, undefined, 0, now);
+
+        expect(result.blockNumber).toBe(123);
+        expect(result.blockTimestamp).toBe(456);
+    });
+
+    it('should keep per-address holdings and count only signer funds as spendable', () => {
+        const read: BalanceRead = {
+            status: 'ok',
+            balance: 100n,
+            fetchedAt: now,
+            holdings: [
+                { address: '0xsigner', label: 'signer', balance: 30n, watchOnly: false },
+                { address: '0xsafe', balance: 70n, watchOnly: true },
+            ],
+        };
+        const result = resolveBalanceRead('sepolia', read, undefined, 0, now);
+
+        expect(result.holdings).toHaveLength(2);
+        expect(result.balance).toBe(100n);
+        expect(result.spendable).toBe(30n);
+    });
+
+    it('should report failed reads as failed, not as zero balances', () => {
+        const result = resolveBalanceRead('sepolia', failedRead, undefined, 5 * 60 * 1000, now);
+
+        expect(result.status).toBe('failed');
+        expect(result.error).toBe('timeout');
+    });
+
+    it('should use a recent last known good balance as stale', () => {
+        const result = resolveBalanceRead('sepolia', failedRead, lastGood, 5 * 60 * 1000, now);
+
+        expect(result.status).toBe('stale');
+        expect(result.balance).toBe(lastGood.balance);
+        expect(result.fetchedAt).toBe(lastGood.fetchedAt);
+    });
+
+    it('should keep the block of the last known good snapshot for stale reads', () => {
+        const result = resolveBalanceRead('sepolia', failedRead, { ...lastGood, blockNumber: 99 }, 5 * 60 * 1000, now);
+
+        expect(result.blockNumber).toBe(99);
+    });
+
+    it('should not use a last known good balance older than the policy allows', () => {
+        expect(resolveBalanceRead('sepolia', failedRead, lastGood, 2 * 60 * 1000, now).status).toBe('failed');
+        expect(resolveBalanceRead('sepolia', failedRead, lastGood, 0, now).status).toBe('failed');
+    });
+});
+
+// =============================================================================
+// getTreasuryAddresses Tests
+// =============================================================================
+
+describe('getTreasuryAddresses', () => {
+    const signer = '0x000000000000000000000000000000000000dEaD';
+    const chain = {
+        name: 'sepolia',
+        watch: [
+            { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', label: 'ops Safe' },
+            { address: signer.toLowerCase() },
+        ],
+    } as ChainConfig;
+
+    it('should list the signer first and watched addresses as watch-only', () => {
+        const addresses = getTreasuryAddresses(chain, signer);
+
+        expect(addresses[0]).toEqual({ address: signer, label: 'signer', watchOnly: false });
+        expect(addresses[1]).toEqual({
+            address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+            label: 'ops Safe',
+            watchOnly: true,
+        });
+    });
+
+    it('should not list the signer twice', () => {
+        expect(getTreasuryAddresses(chain, signer)).toHaveLength(2);
+    });
+});
+
+// =============================================================================
+// Token Valuation Tests
+// =============================================================================
+
+describe('token valuation', () => {
+    const weth: TokenHolding = {
+        symbol: 'WETH',
+        address: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+        amount: 4n * 10n ** 18n,
+        spendableAmount: 10n ** 18n,
+        value: 12000n * 10n ** 6n,
+    };
+
+    it('should value only the signer share as spendable', () => {
+        expect(spendableTokenValue(weth)).toBe(3000n * 10n ** 6n);
+    });
+
+    it('should count token value toward allocations only with the total basis', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 1000n * 10n ** 6n, percentage: 0, tokens: [weth] },
+            { chain: 'polygonAmoy', balance: 13000n * 10n ** 6n, percentage: 0 },
+        ];
+
+        expect(applyValueBasis(balances, 'usdc')[0]?.tokenValue).toBeUndefined();
+
+        const result = calculateAllocations(applyValueBasis(balances, 'total'));
+        expect(result[0]?.tokenValue).toBe(12000n * 10n ** 6n);
+        expect(result[0]?.percentage).toBe(50);
+    });
+
+    it('should not count unvalued tokens', () => {
+        const unvalued: TokenHolding = { ...weth };
+        delete unvalued.value;
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 0n, percentage: 0, tokens: [unvalued] },
+        ];
+
+        expect(applyValueBasis(balances, 'total')[0]?.tokenValue).toBe(0n);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * RebalanceX Multicall Tests
+ * Tests for batched reads through Multicall3 and the individual-call fallback
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../src/config.js';
+import { batchCalls } from '../src/multicall.js';
+import type { CallProvider } from '../src/multicall.js';
+import type { ChainConfig } from '../src/types.js';
+
+const erc20 = new ethers.Interface(ERC20_ABI);
+const multicall = new ethers.Interface(MULTICALL3_ABI);
+
+const TOKEN = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+const OWNER = '0x000000000000000000000000000000000000dEaD';
+
+let chainCounter = 0;
+
+// Each test gets its own chain name so the Multicall3 availability cache does not leak
+function makeChain(): ChainConfig {
+    chainCounter++;
+    return {
+        name: `multicallChain${chainCounter}`,
+        network: 'testnet',
+        chainId: 2000 + chainCounter,
+        rpcUrl: 'https://rpc.example',
+        rpcUrls: ['https://rpc.example'],
+        usdcAddress: TOKEN,
+        tokenMessenger: '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA',
+        messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275',
+        cctpDomain: 0,
+        decimals: 6,
+    };
+}
+
+function balanceCall(owner = OWNER) {
+    return { target: TOKEN, callData: erc20.encodeFunctionData('balanceOf', [owner]) };
+}
+
+function encodeBalance(balance: bigint): string {
+    return erc20.encodeFunctionResult('balanceOf', [balance]);
+}
+
+// =============================================================================
+// Multicall3 Tests
+// =============================================================================
+
+describe('batchCalls with Multicall3', () => {
+    function makeProvider(calls: ethers.TransactionRequest[]): CallProvider {
+        return {
+            getCode: async () => '0x6080',
+            getBlock: async () => {
+                throw new Error('should not be called');
+            },
+            call: async (tx) => {
+                calls.push(tx);
+                return multicall.encodeFunctionResult('aggregate3', [[
+                    [true, encodeBalance(100n)],
+                    [false, '0x'],
+                    [true, multicall.encodeFunctionResult('getCurrentBlockTimestamp', [1700000000n])],
+                ]]);
+            },
+        };
+    }
+
+    it('should send all reads in one call at the pinned block', async () => {
+        const calls: ethers.TransactionRequest[] = [];
+        const result = await batchCalls(makeChain(), makeProvider(calls), [balanceCall(), balanceCall()], 42);
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0]?.to).toBe(MULTICALL3_ADDRESS);
+        expect(calls[0]?.blockTag).toBe(42);
+        expect(result.blockNumber).toBe(42);
+        expect(result.blockTimestamp).toBe(1700000000);
+    });
+
+    it('should report reverted calls as null', async () => {
+        const result = await batchCalls(makeChain(), makeProvider([]), [balanceCall(), balanceCall()], 42);
+
+        expect(result.returnData[0]).toBe(encodeBalance(100n));
+        expect(result.returnData[1]).toBeNull();
+    });
+});
+
+// =============================================================================
+// Fallback Tests
+// =============================================================================
+
+describe('batchCalls without Multicall3', () => {
+    it('should fall back to individual calls at the pinned block', async () => {
+        const calls: ethers.TransactionRequest[] = [];
+        const provider: CallProvider = {
+            getCode: async () => '0x',
+            getBlock: async () => ({ timestamp: 1700000012 }) as ethers.Block,
+            call: async (tx) => {
+                calls.push(tx);
+                return encodeBalance(7n);
+            },
+        };
+
+        const result = await batchCalls(makeChain(), provider, [balanceCall(), balanceCall()], 42);
+
+        expect(calls).toHaveLength(2);
+        expect(calls.every((c) => c.to === TOKEN && c.blockTag === 42)).toBe(true);
+        expect(result.blockTimestamp).toBe(1700000012);
+        expect(result.returnData).toEqual([encodeBalance(7n), encodeBalance(7n)]);
+    });
+
+    it('should fail the batch on transport errors', async () => {
+        const provider: CallProvider = {
+            getCode: async () => '0x',
+            getBlock: async () => ({ timestamp: 1 }) as ethers.Block,
+            call: async () => {
+                throw new Error('ECONNRESET');
+            },
+        };
+
+        await expect(batchCalls(makeChain(), provider, [balanceCall()], 42)).rejects.toThrow('ECONNRESET');
+    });
+});
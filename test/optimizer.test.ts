@@ -0,0 +1,68 @@
+/**
+ * RebalanceX Plan Optimizer Tests
+ * Tests for the min-cost flow solver and route costs
+ */
+
+import { minCostFlow, unitCost } from '../src/optimizer.js';
+
+// =============================================================================
+// minCostFlow Tests
+// =============================================================================
+
+describe('minCostFlow', () => {
+    it('should route everything when supply matches demand', () => {
+        const flows = minCostFlow([30n], [10n, 20n], () => 1);
+
+        expect(flows).toEqual([[10n, 20n]]);
+    });
+
+    it('should prefer cheaper routes', () => {
+        // Source 0 is cheap to sink 1, source 1 is cheap to sink 0
+        const costs = [[5, 1], [1, 5]];
+        const flows = minCostFlow([10n, 10n], [10n, 10n], (i, j) => costs[i]![j]!);
+
+        expect(flows).toEqual([[0n, 10n], [10n, 0n]]);
+    });
+
+    it('should reroute earlier flow when that lowers the total cost', () => {
+        // Sink 0 can be fed by either source; sink 1 only cheaply by source 0
+        const costs = [[1, 2], [2, 100]];
+        const flows = minCostFlow([10n, 10n], [10n, 10n], (i, j) => costs[i]![j]!);
+
+        expect(flows).toEqual([[0n, 10n], [10n, 0n]]);
+    });
+
+    it('should leave the most expensive surplus unused', () => {
+        const flows = minCostFlow([10n, 10n], [12n], (i) => (i === 0 ? 3 : 1));
+
+        expect(flows).toEqual([[2n], [10n]]);
+    });
+
+    it('should fill in input order when costs are equal', () => {
+        const flows = minCostFlow([10n, 10n], [12n], () => 1);
+
+        expect(flows).toEqual([[10n], [2n]]);
+    });
+});
+
+// =============================================================================
+// unitCost Tests
+// =============================================================================
+
+describe('unitCost', () => {
+    it('should spread the fixed gas cost over the route capacity', () => {
+        const weight = { gasCost: 2_000_000n, feeBps: 0, latencySeconds: 0 };
+
+        expect(unitCost(weight, 100_000_000n)).toBeCloseTo(0.02);
+        expect(unitCost(weight, 0n)).toBe(0);
+    });
+
+    it('should add the fee and the cost of time in flight', () => {
+        const fee = unitCost({ gasCost: 0n, feeBps: 10, latencySeconds: 0 }, 1n);
+        const slow = unitCost({ gasCost: 0n, feeBps: 0, latencySeconds: 3600 }, 1n);
+
+        expect(fee).toBeCloseTo(0.001);
+        expect(slow).toBeGreaterThan(0);
+        expect(slow).toBeLessThan(fee);
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * RebalanceX Rebalance Plan Tests
+ * Tests for plan serialization, hashing and drift checks
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getChain } from '../src/config.js';
+import { calculateDeviations, parseTargetAllocation } from '../src/engine.js';
+import { buildSnapshot } from '../src/history.js';
+import {
+    checkPlanDrift,
+    createPlan,
+    fromPlanAction,
+    hashPlan,
+    readPlan,
+    toPlanAction,
+    writePlan,
+} from '../src/plan.js';
+import type { RebalancePlan } from '../src/plan.js';
+import { thresholdStrategy } from '../src/strategies.js';
+import type { ChainBalance, Deviation, RebalanceAction } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+
+function balances(sepolia: bigint, arc: bigint): ChainBalance[] {
+    const total = Number(sepolia + arc);
+    return [
+        { chain: 'sepolia', balance: sepolia * USDC, percentage: (Number(sepolia) / total) * 100, blockNumber: 7 },
+        { chain: 'arc', balance: arc * USDC, percentage: (Number(arc) / total) * 100 },
+    ];
+}
+
+const DEVIATIONS: Deviation[] = [
+    { chain: 'sepolia', current: 70, target: 50, deviation: 20 },
+    { chain: 'arc', current: 30, target: 50, deviation: -20 },
+];
+
+const ACTIONS: RebalanceAction[] = [
+    {
+        from: getChain('sepolia'),
+        amount: 2n * USDC,
+        nativeAmount: 10n ** 15n,
+        type: 'gasTopUp',
+    },
+    {
+        from: getChain('sepolia'),
+        token: 'WETH',
+        tokenAddress: '0x0000000000000000000000000000000000000001',
+        amountIn: 10n ** 16n,
+        amount: 30n * USDC,
+        type: 'swap',
+    },
+    {
+        from: getChain('sepolia'),
+        to: getChain('arc'),
+        amount: 20n * USDC,
+        type: 'transfer',
+        cost: { sourceGas: 10_000n, destinationGas: 5_000n, protocolFee: 0n, total: 15_000n },
+        rationale: {
+            trigger: { chain: 'sepolia', reason: 'threshold', deviation: 20, threshold: 5 },
+            limitedBy: { chain: 'arc', constraint: 'target' },
+            alternatives: [{ from: 'sepolia', to: 'polygonAmoy', amount: 0n, costBps: 12.5 }],
+        },
+    },
+];
+
+function makePlan(): RebalancePlan {
+    return createPlan({
+        wallet: '0x00000000000000000000000000000000000000aa',
+        target: 'sepolia=50,arc=50',
+        valueBasis: 'usdc',
+        snapshot: buildSnapshot('cycle-1', 'testnet', balances(70n, 30n), DEVIATIONS, 1000),
+        deviations: DEVIATIONS,
+        actions: ACTIONS.map(toPlanAction),
+        projection: [
+            { chain: 'sepolia', before: 70n * USDC, after: 50n * USDC, beforePct: 70, afterPct: 50, targetPct: 50 },
+            { chain: 'arc', before: 30n * USDC, after: 50n * USDC, beforePct: 30, afterPct: 50, targetPct: 50 },
+        ],
+    });
+}
+
+// =============================================================================
+// Serialization Tests
+// =============================================================================
+
+describe('plan actions', () => {
+    it('should replace chain configs with names and resolve them back', () => {
+        const planned = ACTIONS.map(toPlanAction);
+
+        expect(planned[2]).toMatchObject({ from: 'sepolia', to: 'arc', amount: 20n * USDC });
+        expect(planned.map(fromPlanAction)).toEqual(ACTIONS);
+    });
+});
+
+describe('plan files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rebalancex-plan-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip a plan with bigint amounts, rationale, projection and its hash', () => {
+        const plan = makePlan();
+        const path = join(dir, 'plan.json');
+
+        writePlan(path, plan);
+
+        expect(plan.hash).toMatch(/^0x[0-9a-f]{64}$/);
+        expect(readPlan(path)).toEqual(plan);
+    });
+
+    it('should hash the same content the same regardless of key order', () => {
+        const plan = makePlan();
+        const reordered = Object.fromEntries(Object.entries(plan).reverse()) as unknown as RebalancePlan;
+
+        expect(hashPlan(reordered)).toBe(plan.hash);
+    });
+
+    it('should refuse a plan edited after it was created', () => {
+        const path = join(dir, 'plan.json');
+        writePlan(path, makePlan());
+        writeFileSync(path, readFileSync(path, 'utf8').replace('"20000000"', '"90000000"'));
+
+        expect(() => readPlan(path)).toThrow('was modified after it was created (hash mismatch)');
+    });
+
+    it('should refuse unknown plan versions', () => {
+        const path = join(dir, 'plan.json');
+        writeFileSync(path, JSON.stringify({ ...makePlan(), version: 99, snapshot: {}, actions: [], projection: [] }));
+
+        expect(() => readPlan(path)).toThrow('Unsupported plan version');
+    });
+});
+
+// =============================================================================
+// Drift Tests
+// =============================================================================
+
+describe('checkPlanDrift', () => {
+    const now = (sepolia: bigint, arc: bigint) => buildSnapshot('cycle-1', 'testnet', balances(sepolia, arc), DEVIATIONS);
+
+    it('should accept balances within tolerance of the snapshot', () => {
+        expect(checkPlanDrift(makePlan(), now(70n, 30n), 1)).toEqual([]);
+        expect(checkPlanDrift(makePlan(), now(71n, 30n), 1)).toEqual([]);
+    });
+
+    it('should report each chain that moved beyond tolerance of the treasury', () => {
+        const problems = checkPlanDrift(makePlan(), now(60n, 30n), 1);
+
+        expect(problems).toEqual(['sepolia: 70.0 → 60.0 USDC (10.00% of the treasury, tolerance 1%)']);
+    });
+
+    it('should report chains missing from the current balances', () => {
+        const current = { ...now(70n, 30n), chains: now(70n, 30n).chains.slice(0, 1) };
+
+        expect(checkPlanDrift(makePlan(), current, 1)).toEqual(['arc: no current balance']);
+    });
+});
+
+// =============================================================================
+// Round-trip Tests
+// =============================================================================
+
+describe('plan and apply', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rebalancex-plan-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should snapshot the balances as read and apply against unchanged balances', async () => {
+        const read = balances(60n, 40n);
+        const targets = parseTargetAllocation('sepolia=50,arc=50', ['sepolia', 'arc']);
+        const deviations = calculateDeviations(read, targets);
+        const decision = await thresholdStrategy().evaluate(read, targets, { threshold: 5, band: 0, planner: 'greedy', now: 0 });
+        expect(decision.actions).toMatchObject([{ from: { name: 'sepolia' }, to: { name: 'arc' }, amount: 10n * USDC }]);
+
+        const path = join(dir, 'plan.json');
+        writePlan(path, createPlan({
+            wallet: '0x00000000000000000000000000000000000000aa',
+            target: 'sepolia=50,arc=50',
+            valueBasis: 'usdc',
+            snapshot: buildSnapshot('cycle-1', 'testnet', read, deviations),
+            deviations,
+            actions: decision.actions.map(toPlanAction),
+            projection: [],
+        }));
+        const plan = readPlan(path);
+
+        expect(plan.snapshot.chains.map((c) => c.balance)).toEqual([60n * USDC, 40n * USDC]);
+        expect(checkPlanDrift(plan, buildSnapshot('cycle-1', 'testnet', balances(60n, 40n), deviations), 1)).toEqual([]);
+    });
+});
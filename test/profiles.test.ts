@@ -0,0 +1,105 @@
+/**
+ * RebalanceX Target Profiles Tests
+ * Tests for cron matching, profile file validation and scheduled selection
+ */
+
+import { cronMatches, parseCron, selectProfile, validateTargetProfiles } from '../src/profiles.js';
+import type { ChainName } from '../src/types.js';
+
+const CHAINS: ChainName[] = ['sepolia', 'arc'];
+
+const PROFILES = {
+    default: 'normal',
+    profiles: {
+        normal: 'sepolia=50,arc=50',
+        'month-end': 'sepolia=20,arc=80',
+        weekend: 'sepolia=70,arc=30',
+    },
+    schedule: [
+        { cron: '* * 25-31 * *', profile: 'month-end' },
+        { cron: '* * * * 0,6', profile: 'weekend' },
+    ],
+};
+
+// =============================================================================
+// Cron Tests
+// =============================================================================
+
+describe('parseCron / cronMatches', () => {
+    const at = (iso: string): Date => new Date(`${iso}Z`);
+
+    it('should match numbers, ranges, lists and steps in UTC', () => {
+        const cron = parseCron('*/15 9-17 * 1,7 *');
+
+        expect(cronMatches(cron, at('2025-01-06T09:30:00'))).toBe(true);
+        expect(cronMatches(cron, at('2025-07-06T17:45:59'))).toBe(true);
+        expect(cronMatches(cron, at('2025-01-06T09:31:00'))).toBe(false);
+        expect(cronMatches(cron, at('2025-01-06T18:00:00'))).toBe(false);
+        expect(cronMatches(cron, at('2025-02-06T09:30:00'))).toBe(false);
+    });
+
+    it('should treat 7 as Sunday and match either restricted day field', () => {
+        // 2025-01-05 is a Sunday, 2025-01-15 a Wednesday
+        const cron = parseCron('0 0 15 * 7');
+
+        expect(cronMatches(cron, at('2025-01-05T00:00:00'))).toBe(true);
+        expect(cronMatches(cron, at('2025-01-15T00:00:00'))).toBe(true);
+        expect(cronMatches(cron, at('2025-01-16T00:00:00'))).toBe(false);
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow('expected 5 fields, got 4');
+        expect(() => parseCron('60 * * * *')).toThrow('outside the minute range 0-59');
+        expect(() => parseCron('* * 0 * *')).toThrow('outside the day of month range 1-31');
+        expect(() => parseCron('* * * jan *')).toThrow('jan is not a number');
+    });
+});
+
+// =============================================================================
+// Profile Tests
+// =============================================================================
+
+describe('validateTargetProfiles', () => {
+    it('should accept a valid profiles document', () => {
+        expect(validateTargetProfiles(PROFILES, CHAINS)).toEqual(PROFILES);
+    });
+
+    it('should reject allocations that do not parse for the selected chains', () => {
+        const raw = { ...PROFILES, profiles: { ...PROFILES.profiles, normal: 'sepolia=50,base=50' } };
+
+        expect(() => validateTargetProfiles(raw, CHAINS)).toThrow(
+            'Invalid target profiles <inline>: profiles.normal Unknown chain in target allocation: base'
+        );
+    });
+
+    it('should reject schedules and defaults naming unknown profiles', () => {
+        expect(() => validateTargetProfiles({ ...PROFILES, default: 'quarter-end' }, CHAINS)).toThrow(
+            'default must name a profile'
+        );
+        expect(() => validateTargetProfiles({
+            ...PROFILES,
+            schedule: [{ cron: '* * * * *', profile: 'quarter-end' }],
+        }, CHAINS)).toThrow('schedule[0].profile must name a profile');
+        expect(() => validateTargetProfiles({
+            ...PROFILES,
+            schedule: [{ cron: '* * 32 * *', profile: 'normal' }],
+        }, CHAINS)).toThrow('schedule[0].cron Invalid cron expression');
+    });
+});
+
+describe('selectProfile', () => {
+    const profiles = validateTargetProfiles(PROFILES, CHAINS);
+
+    it('should use the first matching schedule entry', () => {
+        // Saturday the 25th matches both entries
+        expect(selectProfile(profiles, new Date('2025-01-25T12:00:00Z'))).toEqual({
+            name: 'month-end',
+            target: 'sepolia=20,arc=80',
+        });
+        expect(selectProfile(profiles, new Date('2025-01-18T12:00:00Z')).name).toBe('weekend');
+    });
+
+    it('should fall back to the default profile', () => {
+        expect(selectProfile(profiles, new Date('2025-01-15T12:00:00Z')).name).toBe('normal');
+    });
+});
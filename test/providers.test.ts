@@ -0,0 +1,227 @@
+/**
+ * RebalanceX Provider Pool Tests
+ * Tests for endpoint scoring, failover, quorum reads and chainId verification
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+    findChainIdMismatches,
+    getPoolHealth,
+    quorumRead,
+    rankEndpoints,
+    recordFailure,
+    recordSuccess,
+    scoreEndpoint,
+    withProvider,
+} from '../src/providers.js';
+import type { EndpointHealth } from '../src/providers.js';
+import type { ChainConfig } from '../src/types.js';
+import { ethers } from 'ethers';
+
+function makeHealth(overrides: Partial<EndpointHealth> = {}): EndpointHealth {
+    return {
+        url: 'https://rpc.example',
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        latencyMs: 500,
+        cooldownUntil: 0,
+        ...overrides,
+    };
+}
+
+let chainCounter = 0;
+
+// Each test gets its own chain name so pools do not leak between tests
+function makeChain(rpcUrls: string[], rpcQuorum?: number): ChainConfig {
+    chainCounter++;
+    const chain: ChainConfig = {
+        name: `testChain${chainCounter}`,
+        network: 'testnet',
+        chainId: 1000 + chainCounter,
+        rpcUrl: rpcUrls[0]!,
+        rpcUrls,
+        usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+        tokenMessenger: '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA',
+        messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275',
+        cctpDomain: 0,
+        decimals: 6,
+    };
+    if (rpcQuorum !== undefined) {
+        chain.rpcQuorum = rpcQuorum;
+    }
+    return chain;
+}
+
+function urlOf(provider: ethers.JsonRpcProvider): string {
+    return provider._getConnection().url;
+}
+
+// =============================================================================
+// Scoring Tests
+// =============================================================================
+
+describe('scoreEndpoint', () => {
+    it('should prefer lower latency', () => {
+        expect(scoreEndpoint(makeHealth({ latencyMs: 100 }))).toBeLessThan(
+            scoreEndpoint(makeHealth({ latencyMs: 300 }))
+        );
+    });
+
+    it('should penalise endpoints that fail', () => {
+        const flaky = makeHealth({ latencyMs: 100, successes: 5, failures: 5 });
+        const steady = makeHealth({ latencyMs: 200, successes: 10 });
+
+        expect(scoreEndpoint(flaky)).toBeGreaterThan(scoreEndpoint(steady));
+    });
+
+    it('should score cooling-down endpoints as Infinity', () => {
+        const now = 1_000_000;
+        expect(scoreEndpoint(makeHealth({ cooldownUntil: now + 1 }), now)).toBe(Infinity);
+        expect(scoreEndpoint(makeHealth({ cooldownUntil: now - 1 }), now)).toBe(500);
+    });
+});
+
+describe('recordSuccess / recordFailure', () => {
+    it('should smooth latency and reset failure streaks', () => {
+        const health = makeHealth();
+        recordSuccess(health, 100);
+        expect(health.latencyMs).toBe(100);
+
+        recordSuccess(health, 200);
+        expect(health.latencyMs).toBeCloseTo(130, 5);
+
+        recordFailure(health, new Error('boom'));
+        expect(health.consecutiveFailures).toBe(1);
+        recordSuccess(health, 100);
+        expect(health.consecutiveFailures).toBe(0);
+    });
+
+    it('should cool down after repeated failures', () => {
+        const now = 1_000_000;
+        const health = makeHealth();
+
+        recordFailure(health, new Error('a'), now);
+        recordFailure(health, new Error('b'), now);
+        expect(health.cooldownUntil).toBe(0);
+
+        recordFailure(health, new Error('c'), now);
+        expect(health.cooldownUntil).toBe(now + 30000);
+        expect(health.lastError).toBe('c');
+    });
+});
+
+describe('rankEndpoints', () => {
+    it('should order by score and keep configured order for ties', () => {
+        const endpoints = [
+            { health: makeHealth({ url: 'a' }) },
+            { health: makeHealth({ url: 'b', latencyMs: 100 }) },
+            { health: makeHealth({ url: 'c' }) },
+        ];
+
+        expect(rankEndpoints(endpoints).map((e) => e.health.url)).toEqual(['b', 'a', 'c']);
+    });
+});
+
+// =============================================================================
+// Failover & Quorum Tests
+// =============================================================================
+
+describe('withProvider', () => {
+    it('should fail over to the next endpoint', async () => {
+        const chain = makeChain(['https://dead.example', 'https://alive.example']);
+
+        const result = await withProvider(chain, async (provider) => {
+            if (urlOf(provider) === 'https://dead.example') {
+                throw new Error('ECONNRESET');
+            }
+            return 'ok';
+        });
+
+        expect(result).toBe('ok');
+        const health = getPoolHealth(chain);
+        expect(health[0]?.url).toBe('https://alive.example');
+        expect(health[1]?.failures).toBe(1);
+    });
+
+    it('should throw once every endpoint failed', async () => {
+        const chain = makeChain(['https://a.example', 'https://b.example']);
+
+        await expect(withProvider(chain, async () => {
+            throw new Error('down');
+        })).rejects.toThrow('failed on all 2 RPC endpoint(s)');
+    });
+});
+
+describe('quorumRead', () => {
+    it('should return a value once enough endpoints agree', async () => {
+        const chain = makeChain(['https://a.example', 'https://b.example', 'https://c.example'], 2);
+        const answers: Record<string, bigint> = {
+            'https://a.example': 100n,
+            'https://b.example': 99n,
+            'https://c.example': 100n,
+        };
+
+        const value = await quorumRead(chain, async (provider) => answers[urlOf(provider)]!);
+
+        expect(value).toBe(100n);
+    });
+
+    it('should throw when endpoints disagree and quorum is unreachable', async () => {
+        const chain = makeChain(['https://a.example', 'https://b.example'], 2);
+        const answers: Record<string, bigint> = {
+            'https://a.example': 100n,
+            'https://b.example': 99n,
+        };
+
+        await expect(
+            quorumRead(chain, async (provider) => answers[urlOf(provider)]!)
+        ).rejects.toThrow('did not reach quorum 2/2');
+    });
+
+    it('should skip failed endpoints when counting votes', async () => {
+        const chain = makeChain(['https://a.example', 'https://b.example', 'https://c.example'], 2);
+
+        const value = await quorumRead(chain, async (provider) => {
+            if (urlOf(provider) === 'https://a.example') {
+                throw new Error('timeout');
+            }
+            return 5n;
+        });
+
+        expect(value).toBe(5n);
+    });
+});
+
+describe('findChainIdMismatches', () => {
+    it('should report every endpoint serving another chain and skip unreachable ones', async () => {
+        // JSON-RPC stand-in answering eth_chainId with the chain in its path
+        const server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+            req.on('end', () => {
+                const { id } = JSON.parse(body) as { id: number };
+                const chainId = Number((req.url ?? '').split('/').pop());
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, result: ethers.toQuantity(chainId) }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        try {
+            const good = makeChain([]);
+            good.rpcUrls = [`${base}/${good.chainId}`, 'http://127.0.0.1:1/down'];
+            const bad = makeChain([]);
+            bad.rpcUrls = [`${base}/${bad.chainId}`, `${base}/1`];
+
+            const problems = await findChainIdMismatches([good, bad]);
+
+            expect(problems).toEqual([`${bad.name} RPC ${base}/1 reports chainId 1, registry says ${bad.chainId}`]);
+            expect(getPoolHealth(good).find((h) => h.url.endsWith('/down'))?.failures).toBe(1);
+        } finally {
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        }
+    });
+});
@@ -0,0 +1,246 @@
+/**
+ * RebalanceX Chain Registry Tests
+ * Tests for registry validation and the built-in presets
+ */
+
+import {
+    findNetworkMismatches,
+    loadChainRegistry,
+    presetPath,
+    toEnvPrefix,
+    validateRegistry,
+} from '../src/registry.js';
+
+const SANDBOX_URL = 'https://iris-api-sandbox.circle.com';
+
+const VALID_ENTRY = {
+    network: 'testnet',
+    chainId: 84532,
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    tokenMessenger: '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA',
+    messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275',
+    cctpDomain: 6,
+    decimals: 6,
+};
+
+function testnetRegistry(chains: Record<string, unknown>) {
+    return { network: 'testnet', attestationApiUrl: SANDBOX_URL, chains };
+}
+
+// =============================================================================
+// validateRegistry Tests
+// =============================================================================
+
+describe('validateRegistry', () => {
+    it('should build chain configs from a valid registry', () => {
+        const registry = validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { baseSepolia: VALID_ENTRY },
+        });
+
+        expect(registry.network).toBe('testnet');
+        expect(registry.attestationApiUrl).toBe(SANDBOX_URL);
+        expect(registry.chains['baseSepolia']).toEqual({
+            name: 'baseSepolia',
+            network: 'testnet',
+            chainId: 84532,
+            rpcUrl: 'https://sepolia.base.org',
+            rpcUrls: VALID_ENTRY.rpcUrls,
+            usdcAddress: VALID_ENTRY.usdcAddress,
+            tokenMessenger: VALID_ENTRY.tokenMessenger,
+            messageTransmitter: VALID_ENTRY.messageTransmitter,
+            cctpDomain: 6,
+            decimals: 6,
+        });
+    });
+
+    it('should reject a registry without chains', () => {
+        expect(() => validateRegistry({})).toThrow('chains must be an object');
+        expect(() => validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: {},
+        })).toThrow('must define at least one chain');
+    });
+
+    it('should reject unknown networks', () => {
+        expect(() => validateRegistry({
+            network: 'devnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { baseSepolia: VALID_ENTRY },
+        })).toThrow('registry.network must be one of testnet, mainnet');
+    });
+
+    it('should read optional Uniswap addresses and tokens', () => {
+        const uniswap = {
+            poolManager: '0x8C4BcBE6b9eF47855f97E675296FA3F6fafa5F1A',
+            universalRouter: '0x3A9D48AB9751398BbFa63ad67599Bb04e4BdF98b',
+            permit2: '0x000000000022D473030F116dDEE9F6B43aC78BA3',
+            quoterV2: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+        };
+        const registry = validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: {
+                baseSepolia: {
+                    ...VALID_ENTRY,
+                    uniswap,
+                    tokens: { WETH: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14' },
+                },
+            },
+        });
+
+        expect(registry.chains['baseSepolia']?.uniswap).toEqual(uniswap);
+        expect(registry.chains['baseSepolia']?.tokens).toEqual({
+            WETH: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+        });
+    });
+
+    it('should read watch-only treasury addresses', () => {
+        const watch = [
+            { address: '0x000000000000000000000000000000000000dEaD', label: 'ops Safe' },
+            { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' },
+        ];
+        const registry = validateRegistry(testnetRegistry({ baseSepolia: { ...VALID_ENTRY, watch } }));
+
+        expect(registry.chains['baseSepolia']?.watch).toEqual(watch);
+        expect(() => validateRegistry(testnetRegistry({
+            baseSepolia: { ...VALID_ENTRY, watch: [{ address: '0x1234' }] },
+        }))).toThrow('chains.baseSepolia.watch[0].address must be a valid address');
+    });
+
+    it('should read gas floors in native units', () => {
+        const registry = validateRegistry(testnetRegistry({ baseSepolia: { ...VALID_ENTRY, gasFloor: '0.05' } }));
+
+        expect(registry.chains['baseSepolia']?.gasFloor).toBe(5n * 10n ** 16n);
+        expect(() => validateRegistry(testnetRegistry({
+            baseSepolia: { ...VALID_ENTRY, gasFloor: 0.05 },
+        }))).toThrow('chains.baseSepolia.gasFloor must be a decimal string');
+    });
+
+    it('should read the expected attestation time', () => {
+        const registry = validateRegistry(testnetRegistry({ baseSepolia: { ...VALID_ENTRY, attestationSeconds: 30 } }));
+
+        expect(registry.chains['baseSepolia']?.attestationSeconds).toBe(30);
+        expect(() => validateRegistry(testnetRegistry({
+            baseSepolia: { ...VALID_ENTRY, attestationSeconds: -1 },
+        }))).toThrow('chains.baseSepolia.attestationSeconds must be an integer >= 0');
+    });
+
+    it('should read a static native price in USDC', () => {
+        const registry = validateRegistry(testnetRegistry({ baseSepolia: { ...VALID_ENTRY, nativePrice: '0.25' } }));
+
+        expect(registry.chains['baseSepolia']?.nativePrice).toBe(250_000n);
+        expect(() => validateRegistry(testnetRegistry({
+            baseSepolia: { ...VALID_ENTRY, nativePrice: '-1' },
+        }))).toThrow('chains.baseSepolia.nativePrice must be a decimal string in USDC');
+    });
+
+    it('should reject invalid addresses', () => {
+        const entry = { ...VALID_ENTRY, usdcAddress: '0x1234' };
+
+        expect(() => validateRegistry(testnetRegistry({ baseSepolia: entry }))).toThrow(
+            'chains.baseSepolia.usdcAddress must be a valid address'
+        );
+    });
+
+    it('should reject missing or empty RPC URLs', () => {
+        const entry = { ...VALID_ENTRY, rpcUrls: [] };
+
+        expect(() => validateRegistry(testnetRegistry({ baseSepolia: entry }))).toThrow(
+            'chains.baseSepolia.rpcUrls must be a non-empty array'
+        );
+    });
+
+    it('should reject non-integer domains and decimals', () => {
+        expect(() => validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { baseSepolia: { ...VALID_ENTRY, cctpDomain: '6' } },
+        })).toThrow('cctpDomain must be an integer');
+        expect(() => validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { baseSepolia: { ...VALID_ENTRY, decimals: 6.5 } },
+        })).toThrow('decimals must be an integer');
+    });
+
+    it('should reject duplicate chain IDs and CCTP domains', () => {
+        expect(() => validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { a: VALID_ENTRY, b: { ...VALID_ENTRY, cctpDomain: 7 } },
+        })).toThrow('duplicates chainId of a');
+        expect(() => validateRegistry({
+            network: 'testnet',
+            attestationApiUrl: SANDBOX_URL,
+            chains: { a: VALID_ENTRY, b: { ...VALID_ENTRY, chainId: 1 } },
+        })).toThrow('duplicates cctpDomain of a');
+    });
+
+    it('should reject invalid chain names', () => {
+        expect(() => validateRegistry(testnetRegistry({ 'base-sepolia': VALID_ENTRY }))).toThrow(
+            'name must be alphanumeric'
+        );
+    });
+});
+
+// =============================================================================
+// Presets & Helpers
+// =============================================================================
+
+describe('loadChainRegistry', () => {
+    it('should load the built-in testnet preset', () => {
+        const registry = loadChainRegistry();
+
+        expect(registry.network).toBe('testnet');
+        expect(Object.keys(registry.chains)).toEqual(['sepolia', 'polygonAmoy', 'arbitrumSepolia', 'arc']);
+        expect(registry.chains['arc']?.cctpDomain).toBe(26);
+        expect(findNetworkMismatches(registry)).toEqual([]);
+    });
+
+    it('should load the built-in mainnet preset', () => {
+        const registry = loadChainRegistry(presetPath('mainnet'));
+
+        expect(registry.network).toBe('mainnet');
+        expect(registry.attestationApiUrl).toBe('https://iris-api.circle.com');
+        expect(registry.chains['ethereum']?.chainId).toBe(1);
+        expect(findNetworkMismatches(registry)).toEqual([]);
+    });
+
+    it('should fail clearly on a missing file', () => {
+        expect(() => loadChainRegistry('/nonexistent/registry.json')).toThrow(
+            'Failed to read chain registry /nonexistent/registry.json'
+        );
+    });
+});
+
+describe('findNetworkMismatches', () => {
+    it('should flag chains from another network', () => {
+        const registry = loadChainRegistry(presetPath('mainnet'));
+        const testnet = loadChainRegistry();
+        registry.chains['sepolia'] = testnet.chains['sepolia']!;
+
+        expect(findNetworkMismatches(registry)).toEqual([
+            'chain sepolia is testnet but the profile is mainnet',
+        ]);
+    });
+
+    it('should flag a sandbox attestation API on mainnet', () => {
+        const registry = loadChainRegistry(presetPath('mainnet'));
+        registry.attestationApiUrl = SANDBOX_URL;
+
+        expect(findNetworkMismatches(registry)).toHaveLength(1);
+        expect(findNetworkMismatches(registry)[0]).toContain('does not serve mainnet attestations');
+    });
+});
+
+describe('toEnvPrefix', () => {
+    it('should convert camelCase chain names to env prefixes', () => {
+        expect(toEnvPrefix('sepolia')).toBe('SEPOLIA');
+        expect(toEnvPrefix('polygonAmoy')).toBe('POLYGON_AMOY');
+        expect(toEnvPrefix('arbitrumSepolia')).toBe('ARBITRUM_SEPOLIA');
+    });
+});
@@ -0,0 +1,362 @@
+/**
+ * RebalanceX Transfer Recovery Tests
+ * Tests that resumed transfers never burn or mint twice, against local JSON-RPC
+ * and Iris stand-ins
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ethers } from 'ethers';
+import { getChain, MESSAGE_TRANSMITTER_ABI, useNetwork } from '../src/config.js';
+import { resumeTransfers } from '../src/executors/arc.js';
+import { getJournal, openTransfer, updateTransfer } from '../src/journal.js';
+import { getProvider } from '../src/providers.js';
+import { getPendingTransfers } from '../src/transit.js';
+import type { JournaledTransfer, TransferState } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+const WALLET = new ethers.Wallet(ethers.id('rebalancex-resume-test'));
+const NONCE = ethers.id('nonce');
+const MESSAGE_SENT = ethers.id('MessageSent(bytes)');
+
+// CCTP V2 message of a 10 USDC standard burn from sepolia to arc
+function burnMessage(): string {
+    const address = ethers.zeroPadValue(WALLET.address, 32);
+    return ethers.solidityPacked(
+        [
+            'uint32', 'uint32', 'uint32', 'bytes32', 'bytes32', 'bytes32', 'bytes32', 'uint32', 'uint32',
+            'uint32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'uint256', 'uint256', 'uint256',
+        ],
+        [
+            1, 0, 26, NONCE, address, address, ethers.ZeroHash, 2000, 2000,
+            1, address, address, 10n * USDC, address, 0n, 0n, 0n,
+        ]
+    );
+}
+
+// =============================================================================
+// JSON-RPC & Iris Stand-ins
+// =============================================================================
+
+interface RpcCall {
+    chain: string;
+    method: string;
+    params: unknown[];
+}
+
+interface StubChain {
+    blockNumber: number;                      // advances on every read, so receipts get confirmed
+    mined: Set<string>;                       // tx hashes with a receipt
+    onBroadcast: (raw: string) => { error?: string };
+    usedNonce: boolean;
+}
+
+const originalEnv = { ...process.env };
+let server: Server;
+let dataDir: string;
+let calls: RpcCall[] = [];
+let chains: Record<string, StubChain> = {};
+let irisRequests: string[] = [];
+let creditedDuringAttestation: string[] = [];
+
+function stubChain(overrides: Partial<StubChain> = {}): StubChain {
+    const chain: StubChain = { blockNumber: 16, mined: new Set(), onBroadcast: () => ({}), usedNonce: false, ...overrides };
+    return chain;
+}
+
+function receipt(hash: string, logs: { address: string; topics: string[]; data: string }[] = []): unknown {
+    const blockHash = ethers.id(`block:${hash}`);
+    return {
+        transactionHash: hash,
+        transactionIndex: '0x0',
+        blockHash,
+        blockNumber: '0x10',
+        from: WALLET.address,
+        to: ethers.ZeroAddress,
+        contractAddress: null,
+        cumulativeGasUsed: '0x30000',
+        gasUsed: '0x30000',
+        effectiveGasPrice: '0x3b9aca00',
+        logsBloom: `0x${'00'.repeat(256)}`,
+        status: '0x1',
+        type: '0x0',
+        logs: logs.map((log, i) => ({
+            ...log,
+            blockHash,
+            blockNumber: '0x10',
+            transactionHash: hash,
+            transactionIndex: '0x0',
+            logIndex: ethers.toQuantity(i),
+            removed: false,
+        })),
+    };
+}
+
+function handleRpc(name: string, method: string, params: unknown[]): { result?: unknown; error?: string } {
+    const chain = chains[name]!;
+    const transmitter = new ethers.Interface(MESSAGE_TRANSMITTER_ABI);
+    switch (method) {
+        case 'eth_blockNumber':
+            return { result: ethers.toQuantity(chain.blockNumber++) };
+        case 'eth_chainId':
+            return { result: ethers.toQuantity(getChain(name).chainId) };
+        case 'eth_gasPrice':
+        case 'eth_maxPriorityFeePerGas':
+            return { result: '0x3b9aca00' };
+        case 'eth_getBlockByNumber':
+            return {
+                result: {
+                    hash: ethers.id('block'),
+                    parentHash: ethers.ZeroHash,
+                    number: '0x10',
+                    timestamp: '0x6553f100',
+                    nonce: '0x0000000000000000',
+                    difficulty: '0x0',
+                    gasLimit: '0x1c9c380',
+                    gasUsed: '0x0',
+                    miner: ethers.ZeroAddress,
+                    extraData: '0x',
+                    baseFeePerGas: '0x3b9aca00',
+                    transactions: [],
+                },
+            };
+        case 'eth_getTransactionCount':
+            return { result: '0x1' };
+        case 'eth_estimateGas':
+            return { result: '0x30000' };
+        case 'eth_call': {
+            const data = (params[0] as { data: string }).data;
+            if (data.startsWith(transmitter.getFunction('usedNonces')!.selector)) {
+                return { result: ethers.toBeHex(chain.usedNonce ? 1n : 0n, 32) };
+            }
+            // decimals()
+            return { result: ethers.toBeHex(6n, 32) };
+        }
+        case 'eth_sendRawTransaction': {
+            const raw = params[0] as string;
+            const { error } = chain.onBroadcast(raw);
+            if (error) return { error };
+            chain.mined.add(ethers.keccak256(raw));
+            return { result: ethers.keccak256(raw) };
+        }
+        case 'eth_getTransactionReceipt': {
+            const hash = params[0] as string;
+            if (!chain.mined.has(hash)) return { result: null };
+            // The burn emits the CCTP message; a mint emits nothing the executor reads
+            const logs = name === 'sepolia'
+                ? [{ address: getChain(name).messageTransmitter, topics: [MESSAGE_SENT], data: ethers.AbiCoder.defaultAbiCoder().encode(['bytes'], [burnMessage()]) }]
+                : [];
+            return { result: receipt(hash, logs) };
+        }
+        default:
+            return { error: `method ${method} not supported` };
+    }
+}
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+        req.on('end', () => {
+            const url = req.url ?? '';
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+
+            // Iris: every burn is attested at once
+            if (url.startsWith('/iris-sandbox/')) {
+                irisRequests.push(url);
+                creditedDuringAttestation = getPendingTransfers('testnet').map((t) => t.burnTxHash);
+                res.end(JSON.stringify({
+                    messages: [{ status: 'complete', attestation: '0x01', message: burnMessage() }],
+                }));
+                return;
+            }
+
+            const name = url.slice('/rpc/'.length);
+            const parsed = JSON.parse(body) as { id: number; method: string; params: unknown[] } | { id: number; method: string; params: unknown[] }[];
+            const respond = ({ id, method, params }: { id: number; method: string; params: unknown[] }): unknown => {
+                calls.push({ chain: name, method, params });
+                const { result, error } = handleRpc(name, method, params);
+                return error === undefined
+                    ? { jsonrpc: '2.0', id, result }
+                    : { jsonrpc: '2.0', id, error: { code: -32000, message: error } };
+            };
+            res.end(JSON.stringify(Array.isArray(parsed) ? parsed.map(respond) : respond(parsed)));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env['SEPOLIA_RPC_URL'] = `${base}/rpc/sepolia`;
+    process.env['ARC_RPC_URL'] = `${base}/rpc/arc`;
+    process.env['CIRCLE_ATTESTATION_URL'] = `${base}/iris-sandbox`;
+    process.env['PRIVATE_KEY'] = WALLET.privateKey;
+    useNetwork('testnet');
+});
+
+afterAll(async () => {
+    process.env = originalEnv;
+    useNetwork('testnet');
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'rebalancex-resume-'));
+    process.env['REBALANCEX_DATA_DIR'] = dataDir;
+    calls = [];
+    irisRequests = [];
+    creditedDuringAttestation = [];
+    chains = { sepolia: stubChain(), arc: stubChain() };
+
+    // A receipt that is not there yet is looked for again on the next block
+    getProvider(getChain('sepolia')).pollingInterval = 50;
+});
+
+afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+});
+
+// A burn of 10 USDC sepolia → arc, signed before the process stopped; each
+// test signs its own, as providers briefly cache identical requests
+let burnNonce = 0;
+async function signedBurn(): Promise<{ burnTx: string; burnTxHash: string }> {
+    const burnTx = await WALLET.signTransaction({
+        to: getChain('sepolia').tokenMessenger,
+        data: '0x',
+        nonce: burnNonce++,
+        gasLimit: 200_000n,
+        gasPrice: 10n ** 9n,
+        chainId: getChain('sepolia').chainId,
+    });
+    return { burnTx, burnTxHash: ethers.keccak256(burnTx) };
+}
+
+function journal(state: TransferState, fields: Partial<JournaledTransfer> = {}): JournaledTransfer {
+    const transfer = openTransfer({
+        network: 'testnet',
+        from: 'sepolia',
+        to: 'arc',
+        amount: 10n * USDC,
+        tokenAmount: 10n * USDC,
+        mode: 'standard',
+        maxFee: 0n,
+    });
+    return updateTransfer(transfer, state, fields);
+}
+
+function callsTo(chain: string, method: string): RpcCall[] {
+    return calls.filter((c) => c.chain === chain && c.method === method);
+}
+
+// =============================================================================
+// Burn Recovery Tests
+// =============================================================================
+
+describe('resumeTransfers', () => {
+    it('should rebroadcast the journaled burn rather than sign a new one', async () => {
+        const signed = await signedBurn();
+        journal('approved', { approveTxHash: '0xapprove', ...signed });
+
+        const [resumed] = await resumeTransfers();
+
+        expect(callsTo('sepolia', 'eth_sendRawTransaction').map((c) => c.params[0])).toEqual([signed.burnTx]);
+        expect(callsTo('sepolia', 'eth_estimateGas')).toHaveLength(0);
+        expect(resumed?.transfer).toMatchObject({ state: 'minted', burnTxHash: signed.burnTxHash, feePaid: 0n });
+        expect(resumed?.result).toMatchObject({ success: true, burnTxHash: signed.burnTxHash });
+        expect(resumed?.result.mintTxHash).toBeDefined();
+    });
+
+    it('should credit the burn as in transit until it is minted', async () => {
+        const signed = await signedBurn();
+        journal('approved', signed);
+
+        await resumeTransfers();
+
+        expect(creditedDuringAttestation).toEqual([signed.burnTxHash]);
+        expect(getPendingTransfers('testnet')).toEqual([]);
+    });
+
+    it('should not rebroadcast a burn that was already mined', async () => {
+        const signed = await signedBurn();
+        chains['sepolia']!.mined.add(signed.burnTxHash);
+        journal('approved', signed);
+
+        const [resumed] = await resumeTransfers();
+
+        expect(callsTo('sepolia', 'eth_sendRawTransaction')).toHaveLength(0);
+        expect(resumed?.transfer.state).toBe('minted');
+    });
+
+    it('should wait for a burn the node already knows', async () => {
+        const signed = await signedBurn();
+        chains['sepolia'] = stubChain({
+            onBroadcast: (raw) => {
+                chains['sepolia']!.mined.add(ethers.keccak256(raw));
+                return { error: 'already known' };
+            },
+        });
+        journal('approved', signed);
+
+        const [resumed] = await resumeTransfers();
+
+        expect(callsTo('sepolia', 'eth_sendRawTransaction')).toHaveLength(1);
+        expect(resumed?.transfer.state).toBe('minted');
+    });
+
+    it('should fail a burn whose nonce went to another transaction and drop its credit', async () => {
+        const signed = await signedBurn();
+        chains['sepolia'] = stubChain({ onBroadcast: () => ({ error: 'nonce too low' }) });
+        journal('approved', signed);
+
+        const [resumed] = await resumeTransfers();
+
+        expect(resumed?.transfer.state).toBe('failed');
+        expect(resumed?.transfer.error).toContain('nonce too low');
+        expect(resumed?.result.burnTxHash).toBeUndefined();
+        expect(irisRequests).toHaveLength(0);
+        expect(getPendingTransfers('testnet')).toEqual([]);
+    });
+
+    it('should fail transfers interrupted before their burn was signed without touching the chain', async () => {
+        journal('approved', { approveTxHash: '0xapprove' });
+
+        const [resumed] = await resumeTransfers();
+
+        expect(resumed?.transfer).toMatchObject({ state: 'failed', error: 'interrupted before the burn was signed' });
+        expect(calls).toHaveLength(0);
+    });
+
+    // =========================================================================
+    // Mint Recovery
+    // =========================================================================
+
+    it('should re-poll the attestation of a burned transfer and mint once', async () => {
+        const { burnTxHash } = await signedBurn();
+        journal('burned', { burnTxHash, messageHash: ethers.keccak256(burnMessage()), burnedAt: 1 });
+
+        const [resumed] = await resumeTransfers();
+
+        expect(irisRequests).toEqual([`/iris-sandbox/v2/messages/0?transactionHash=${burnTxHash}`]);
+        expect(callsTo('sepolia', 'eth_sendRawTransaction')).toHaveLength(0);
+        expect(callsTo('arc', 'eth_sendRawTransaction')).toHaveLength(1);
+        expect(resumed?.transfer.state).toBe('minted');
+    });
+
+    it('should not receive a message whose nonce was already used', async () => {
+        const { burnTxHash } = await signedBurn();
+        chains['arc'] = stubChain({ usedNonce: true });
+        journal('attested', { burnTxHash, message: burnMessage(), attestation: '0x01' });
+
+        const [resumed] = await resumeTransfers();
+
+        const [usedNonce] = callsTo('arc', 'eth_call');
+        expect(ethers.dataSlice((usedNonce?.params[0] as { data: string }).data, 4)).toBe(NONCE);
+        expect(callsTo('arc', 'eth_sendRawTransaction')).toHaveLength(0);
+        expect(resumed?.transfer.state).toBe('minted');
+        expect(resumed?.transfer.mintTxHash).toBeUndefined();
+        expect(getJournal()[0]?.state).toBe('minted');
+    });
+});
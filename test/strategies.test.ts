@@ -0,0 +1,161 @@
+/**
+ * RebalanceX Strategy Tests
+ * Tests for the threshold, periodic and proportional rebalance strategies
+ */
+
+import { UNIFORM_ROUTES } from '../src/optimizer.js';
+import type { RouteWeights } from '../src/optimizer.js';
+import {
+    createStrategy,
+    periodicStrategy,
+    proportionalStrategy,
+    STRATEGIES,
+    thresholdStrategy,
+} from '../src/strategies.js';
+import type { StrategyContext } from '../src/strategies.js';
+import type { ChainBalance, RebalanceAction, TargetAllocation } from '../src/types.js';
+
+const USDC = 10n ** 6n;
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = 1_000 * HOUR_MS;
+
+function balances(sepolia: number, polygonAmoy: number): ChainBalance[] {
+    return [
+        { chain: 'sepolia', balance: BigInt(sepolia) * USDC, percentage: sepolia },
+        { chain: 'polygonAmoy', balance: BigInt(polygonAmoy) * USDC, percentage: polygonAmoy },
+    ];
+}
+
+const targets: TargetAllocation[] = [
+    { chain: 'sepolia', percentage: 50 },
+    { chain: 'polygonAmoy', percentage: 50 },
+];
+
+function context(overrides: Partial<StrategyContext> = {}): StrategyContext {
+    return { threshold: 5, band: 0, planner: 'greedy', now: NOW, ...overrides };
+}
+
+function transfers(actions: RebalanceAction[]): [string, string, bigint][] {
+    return actions.flatMap((a) => (a.type === 'transfer' ? [[a.from.name, a.to.name, a.amount]] : []));
+}
+
+// =============================================================================
+// Threshold Strategy Tests
+// =============================================================================
+
+describe('thresholdStrategy', () => {
+    it('should do nothing while every chain is within threshold', async () => {
+        const result = await thresholdStrategy().evaluate(balances(53, 47), targets, context());
+
+        expect(result).toEqual({ actions: [], reason: 'all chains within threshold' });
+    });
+
+    it('should rebalance triggered chains back to their inner band and say why', async () => {
+        const result = await thresholdStrategy().evaluate(balances(60, 40), targets, context({ band: 2 }));
+
+        expect(transfers(result.actions)).toEqual([['sepolia', 'polygonAmoy', 8n * USDC]]);
+        expect(result.reason).toBe('sepolia +10.00% beyond ±5%, polygonAmoy -10.00% beyond ±5%');
+    });
+
+    it('should only fetch route weights when the min-cost planner plans', async () => {
+        let fetched = 0;
+        const routeWeights = async (): Promise<RouteWeights> => {
+            fetched++;
+            return UNIFORM_ROUTES;
+        };
+        const strategy = thresholdStrategy();
+
+        await strategy.evaluate(balances(53, 47), targets, context({ planner: 'min-cost', routeWeights }));
+        expect(fetched).toBe(0);
+
+        const result = await strategy.evaluate(balances(60, 40), targets, context({ planner: 'min-cost', routeWeights }));
+        expect(fetched).toBe(1);
+        expect(transfers(result.actions)).toEqual([['sepolia', 'polygonAmoy', 10n * USDC]]);
+    });
+});
+
+// =============================================================================
+// Periodic Strategy Tests
+// =============================================================================
+
+describe('periodicStrategy', () => {
+    it('should wait for the period to pass whatever the drift', async () => {
+        const result = await periodicStrategy(24).evaluate(
+            balances(60, 40), targets, context({ lastRebalanceAt: NOW - 2 * HOUR_MS })
+        );
+
+        expect(result).toEqual({ actions: [], reason: 'next periodic rebalance in 22.0h' });
+    });
+
+    it('should rebalance to the exact target once the period has passed, even within threshold', async () => {
+        const result = await periodicStrategy(24).evaluate(
+            balances(53, 47), targets, context({ band: 2, lastRebalanceAt: NOW - 25 * HOUR_MS })
+        );
+
+        expect(transfers(result.actions)).toEqual([['sepolia', 'polygonAmoy', 3n * USDC]]);
+        expect(result.reason).toBe('25.0h since the last rebalance (period 24h)');
+    });
+
+    it('should ignore per-chain thresholds and rebalance when there is no previous rebalance', async () => {
+        const tolerant: TargetAllocation[] = [{ ...targets[0]!, threshold: 10 }, targets[1]!];
+        const result = await periodicStrategy(24).evaluate(balances(53, 47), tolerant, context());
+
+        expect(transfers(result.actions)).toEqual([['sepolia', 'polygonAmoy', 3n * USDC]]);
+        expect(result.reason).toBe('no previous rebalance');
+    });
+
+    it('should still correct a breached floor between periods', async () => {
+        const floored: TargetAllocation[] = [{ ...targets[0]!, min: 45n * USDC }, targets[1]!];
+        const result = await periodicStrategy(24).evaluate(
+            balances(40, 60), floored, context({ lastRebalanceAt: NOW - HOUR_MS })
+        );
+
+        expect(transfers(result.actions)).toEqual([['polygonAmoy', 'sepolia', 10n * USDC]]);
+        expect(result.reason).toBe('sepolia below its floor');
+    });
+
+    it('should wait a full period after an evaluation that found nothing to send', async () => {
+        const strategy = periodicStrategy(24);
+        const due = await strategy.evaluate(balances(50, 50), targets, context({ lastRebalanceAt: NOW - 48 * HOUR_MS }));
+
+        expect(due).toMatchObject({ actions: [], periodic: true });
+
+        const next = await strategy.evaluate(
+            balances(53, 47), targets, context({ lastRebalanceAt: NOW - 48 * HOUR_MS, lastPeriodicAt: NOW - 2 * HOUR_MS })
+        );
+        expect(next).toEqual({ actions: [], reason: 'next periodic rebalance in 22.0h' });
+    });
+});
+
+// =============================================================================
+// Proportional Strategy Tests
+// =============================================================================
+
+describe('proportionalStrategy', () => {
+    it('should correct only part of the deviation per cycle', async () => {
+        const result = await proportionalStrategy(0.5).evaluate(balances(70, 30), targets, context());
+
+        expect(transfers(result.actions)).toEqual([['sepolia', 'polygonAmoy', 10n * USDC]]);
+        expect(result.reason).toBe('correcting 50% of sepolia +20.00% beyond ±5%, polygonAmoy -20.00% beyond ±5%');
+    });
+
+    it('should converge over cycles and stop within threshold', async () => {
+        const strategy = proportionalStrategy(0.5);
+
+        const second = await strategy.evaluate(balances(60, 40), targets, context());
+        const third = await strategy.evaluate(balances(55, 45), targets, context());
+
+        expect(transfers(second.actions)).toEqual([['sepolia', 'polygonAmoy', 5n * USDC]]);
+        expect(third.actions).toEqual([]);
+    });
+});
+
+// =============================================================================
+// createStrategy Tests
+// =============================================================================
+
+describe('createStrategy', () => {
+    it.each(STRATEGIES)('should build the %s strategy', (name) => {
+        expect(createStrategy(name, { periodHours: 24, correction: 0.5 }).name).toBe(name);
+    });
+});
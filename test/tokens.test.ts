@@ -0,0 +1,43 @@
+/**
+ * RebalanceX Token Unit Tests
+ * Tests for conversion between token decimals and value units
+ */
+
+import { VALUE_DECIMALS, formatValue, fromValueUnits, toValueUnits } from '../src/tokens.js';
+
+describe('toValueUnits', () => {
+    it('should leave 6-decimal amounts unchanged', () => {
+        expect(VALUE_DECIMALS).toBe(6);
+        expect(toValueUnits(123_456_789n, 6)).toBe(123_456_789n);
+    });
+
+    it('should scale down 18-decimal amounts', () => {
+        // 1.5 USDC with 18 decimals (e.g., Arc native USDC)
+        expect(toValueUnits(15n * 10n ** 17n, 18)).toBe(1_500_000n);
+    });
+
+    it('should truncate dust below the value unit', () => {
+        expect(toValueUnits(10n ** 12n - 1n, 18)).toBe(0n);
+    });
+
+    it('should scale up tokens with fewer decimals', () => {
+        expect(toValueUnits(150n, 2)).toBe(1_500_000n);
+    });
+});
+
+describe('fromValueUnits', () => {
+    it('should round-trip through 18 decimals', () => {
+        expect(fromValueUnits(1_500_000n, 18)).toBe(15n * 10n ** 17n);
+        expect(toValueUnits(fromValueUnits(1_500_000n, 18), 18)).toBe(1_500_000n);
+    });
+
+    it('should round down for tokens with fewer decimals', () => {
+        expect(fromValueUnits(1_509_999n, 2)).toBe(150n);
+    });
+});
+
+describe('formatValue', () => {
+    it('should format value units as USDC', () => {
+        expect(formatValue(20_500_000n)).toBe('20.5');
+    });
+});
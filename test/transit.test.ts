@@ -0,0 +1,91 @@
+/**
+ * RebalanceX In-Transit Tests
+ * Tests for pending transfer tracking and crediting
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+    clearPendingTransfer,
+    creditInTransit,
+    getPendingTransfers,
+    recordPendingTransfer,
+} from '../src/transit.js';
+import type { ChainBalance, PendingTransfer } from '../src/types.js';
+
+const PENDING: PendingTransfer = {
+    network: 'testnet',
+    from: 'sepolia',
+    to: 'polygonAmoy',
+    amount: 10n * 10n ** 6n,
+    burnTxHash: '0xburn1',
+    messageHash: '0xmsg1',
+    burnedAt: 1_700_000_000_000,
+};
+
+describe('creditInTransit', () => {
+    it('should credit pending transfers to their destination', () => {
+        const balances: ChainBalance[] = [
+            { chain: 'sepolia', balance: 50n * 10n ** 6n, percentage: 0 },
+            { chain: 'polygonAmoy', balance: 40n * 10n ** 6n, percentage: 0 },
+        ];
+
+        const result = creditInTransit(balances, [
+            PENDING,
+            { ...PENDING, burnTxHash: '0xburn2', amount: 5n * 10n ** 6n },
+        ]);
+
+        expect(result[0]?.inTransit).toBeUndefined();
+        expect(result[1]?.inTransit).toBe(15n * 10n ** 6n);
+        expect(result[1]?.balance).toBe(40n * 10n ** 6n);
+    });
+});
+
+describe('pending transfer store', () => {
+    let dataDir: string;
+    const originalDataDir = process.env['REBALANCEX_DATA_DIR'];
+
+    beforeEach(() => {
+        dataDir = mkdtempSync(join(tmpdir(), 'rebalancex-transit-'));
+        process.env['REBALANCEX_DATA_DIR'] = dataDir;
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+        if (originalDataDir === undefined) {
+            delete process.env['REBALANCEX_DATA_DIR'];
+        } else {
+            process.env['REBALANCEX_DATA_DIR'] = originalDataDir;
+        }
+    });
+
+    it('should persist pending transfers with bigint amounts', () => {
+        recordPendingTransfer(PENDING);
+
+        expect(getPendingTransfers('testnet')).toEqual([PENDING]);
+    });
+
+    it('should not duplicate a re-recorded burn', () => {
+        recordPendingTransfer(PENDING);
+        recordPendingTransfer(PENDING);
+
+        expect(getPendingTransfers('testnet')).toHaveLength(1);
+    });
+
+    it('should clear a transfer once minted', () => {
+        recordPendingTransfer(PENDING);
+        recordPendingTransfer({ ...PENDING, burnTxHash: '0xburn2' });
+        clearPendingTransfer('0xburn1');
+
+        expect(getPendingTransfers('testnet').map((t) => t.burnTxHash)).toEqual(['0xburn2']);
+    });
+
+    it('should only report transfers on the requested network', () => {
+        recordPendingTransfer(PENDING);
+        recordPendingTransfer({ ...PENDING, network: 'mainnet', burnTxHash: '0xburn2' });
+
+        expect(getPendingTransfers('testnet').map((t) => t.burnTxHash)).toEqual(['0xburn1']);
+        expect(getPendingTransfers('mainnet').map((t) => t.burnTxHash)).toEqual(['0xburn2']);
+    });
+});
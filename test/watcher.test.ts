@@ -0,0 +1,73 @@
+/**
+ * RebalanceX Transfer Watcher Tests
+ * Tests for net change calculation and debounced triggering
+ */
+
+import { decideTrigger, excludeTransactions, netChange } from '../src/watcher.js';
+import type { TransferEvent } from '../src/watcher.js';
+
+const SIGNER = '0x000000000000000000000000000000000000dEaD';
+const SAFE = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+const OUTSIDER = '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA';
+
+function transfer(from: string, to: string, amount: bigint): TransferEvent {
+    return { from, to, amount, blockNumber: 1, txHash: '0x01' };
+}
+
+// =============================================================================
+// netChange Tests
+// =============================================================================
+
+describe('netChange', () => {
+    it('should add inbound and subtract outbound transfers', () => {
+        const events = [
+            transfer(OUTSIDER, SIGNER, 500n),
+            transfer(SIGNER, OUTSIDER, 200n),
+        ];
+
+        expect(netChange(events, [SIGNER])).toBe(300n);
+    });
+
+    it('should cancel out transfers between treasury addresses', () => {
+        const events = [transfer(SIGNER, SAFE, 1000n)];
+
+        expect(netChange(events, [SIGNER, SAFE])).toBe(0n);
+    });
+
+    it('should match addresses case-insensitively', () => {
+        const events = [transfer(OUTSIDER, SIGNER.toLowerCase(), 5n)];
+
+        expect(netChange(events, [SIGNER])).toBe(5n);
+    });
+});
+
+describe('excludeTransactions', () => {
+    it('should drop the events of the agent\'s own transactions only', () => {
+        const own = { ...transfer(SIGNER, OUTSIDER, 200n), txHash: '0xAB' };
+        const inflow = { ...transfer(OUTSIDER, SIGNER, 500n), txHash: '0xcd' };
+
+        expect(excludeTransactions([own, inflow], new Set(['0xab']))).toEqual([inflow]);
+    });
+});
+
+// =============================================================================
+// decideTrigger Tests
+// =============================================================================
+
+describe('decideTrigger', () => {
+    const now = 1_000_000;
+
+    it('should wait for the debounce period after activity', () => {
+        expect(decideTrigger(now - 5000, now + 60000, 15000, now)).toBeUndefined();
+        expect(decideTrigger(now - 15000, now + 60000, 15000, now)).toBe('activity');
+    });
+
+    it('should fall back to the heartbeat without activity', () => {
+        expect(decideTrigger(undefined, now + 1, 15000, now)).toBeUndefined();
+        expect(decideTrigger(undefined, now, 15000, now)).toBe('heartbeat');
+    });
+
+    it('should prefer activity when both are due', () => {
+        expect(decideTrigger(now - 20000, now - 1, 15000, now)).toBe('activity');
+    });
+});